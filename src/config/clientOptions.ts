@@ -0,0 +1,18 @@
+/**
+ * Allowed values for the client and policy fields that are picked from a list.
+ * Each list can be replaced with a comma-separated environment variable when a
+ * deployment uses different wording. Matching ignores case and input is stored
+ * with the spelling given here.
+ */
+const listFromEnv = (name: string, defaults: string[]): readonly string[] => {
+  const values = (process.env[name] || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(value => value !== '');
+
+  return values.length > 0 ? values : defaults;
+};
+
+export const CUSTOMER_TYPES = listFromEnv('CLIENT_CUSTOMER_TYPES', ['Individual', 'Corporate']);
+
+export const COMMISSION_TYPES = listFromEnv('POLICY_COMMISSION_TYPES', ['Percentage', 'Fixed']);
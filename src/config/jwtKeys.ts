@@ -0,0 +1,150 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  publicKey: KeyObject;
+  // Only present for keys this server can sign with
+  privateKey?: KeyObject;
+}
+
+/**
+ * Key ring for signing and verifying JWTs.
+ *
+ * Keys are PEM files in JWT_KEYS_DIR (default ./keys), named after their key ID:
+ *   <kid>.pem      private key - can sign and verify
+ *   <kid>.pub.pem  public key only - verifies tokens signed by a retired key
+ * RSA keys sign with RS256, P-256 EC keys with ES256. JWT_SIGNING_KID picks the
+ * signing key when there is more than one private key.
+ *
+ * Where files are impractical, JWT_PRIVATE_KEY may hold a single PEM private key
+ * (with \n escapes) that is loaded under JWT_SIGNING_KID.
+ */
+const KEYS_DIR = process.env.JWT_KEYS_DIR || path.join(process.cwd(), 'keys');
+const KID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+const algorithmFor = (key: KeyObject, source: string): JwtAlgorithm => {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`Unsupported JWT key type in ${source}: use an RSA key or an EC P-256 key`);
+};
+
+const loadPrivateKey = (kid: string, pem: string, source: string): JwtKey => {
+  const privateKey = crypto.createPrivateKey(pem);
+  return {
+    kid,
+    algorithm: algorithmFor(privateKey, source),
+    privateKey,
+    publicKey: crypto.createPublicKey(privateKey)
+  };
+};
+
+const loadKeys = (): Map<string, JwtKey> => {
+  const keys = new Map<string, JwtKey>();
+
+  if (fs.existsSync(KEYS_DIR)) {
+    for (const file of fs.readdirSync(KEYS_DIR).sort()) {
+      const filePath = path.join(KEYS_DIR, file);
+      const isPublic = file.endsWith('.pub.pem');
+      if (!file.endsWith('.pem')) {
+        continue;
+      }
+
+      const kid = file.replace(isPublic ? /\.pub\.pem$/ : /\.pem$/, '');
+      if (!KID_PATTERN.test(kid)) {
+        throw new Error(`Invalid JWT key ID "${kid}" from ${filePath}`);
+      }
+
+      const pem = fs.readFileSync(filePath, 'utf8');
+      if (isPublic) {
+        // A private key with the same ID wins over its public half
+        if (!keys.has(kid)) {
+          const publicKey = crypto.createPublicKey(pem);
+          keys.set(kid, { kid, algorithm: algorithmFor(publicKey, filePath), publicKey });
+        }
+      } else {
+        keys.set(kid, loadPrivateKey(kid, pem, filePath));
+      }
+    }
+  }
+
+  if (process.env.JWT_PRIVATE_KEY) {
+    const kid = process.env.JWT_SIGNING_KID || 'env';
+    keys.set(kid, loadPrivateKey(kid, process.env.JWT_PRIVATE_KEY.replace(/\\n/g, '\n'), 'JWT_PRIVATE_KEY'));
+  }
+
+  return keys;
+};
+
+const pickSigningKey = (keys: Map<string, JwtKey>): JwtKey => {
+  const signingKeys = Array.from(keys.values()).filter(key => key.privateKey);
+  const configuredKid = process.env.JWT_SIGNING_KID;
+
+  if (configuredKid) {
+    const key = keys.get(configuredKid);
+    if (!key || !key.privateKey) {
+      throw new Error(`JWT_SIGNING_KID "${configuredKid}" does not match a private key in ${KEYS_DIR}`);
+    }
+    return key;
+  }
+
+  if (signingKeys.length === 1) {
+    return signingKeys[0];
+  }
+
+  if (signingKeys.length > 1) {
+    throw new Error(`Several JWT private keys found in ${KEYS_DIR}; set JWT_SIGNING_KID to choose one`);
+  }
+
+  // No keys configured - generate one so development works out of the box
+  if (process.env.NODE_ENV === 'production') {
+    console.warn(
+      'WARNING: No JWT signing key configured in production. ' +
+      'Using a generated key. This will invalidate all existing tokens on server restart!'
+    );
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const generated: JwtKey = {
+    kid: `ephemeral-${crypto.randomBytes(4).toString('hex')}`,
+    algorithm: 'ES256',
+    privateKey,
+    publicKey
+  };
+  keys.set(generated.kid, generated);
+  return generated;
+};
+
+const jwtKeys = loadKeys();
+const signingKey = pickSigningKey(jwtKeys);
+
+console.log(`JWT signing key: ${signingKey.kid} (${signingKey.algorithm}), ${jwtKeys.size} verification key(s)`);
+
+export const getSigningKey = (): JwtKey => signingKey;
+
+export const getVerificationKey = (kid: string): JwtKey | undefined => jwtKeys.get(kid);
+
+/**
+ * Public keys in JSON Web Key Set format, for /.well-known/jwks.json
+ */
+export const getJwks = () => ({
+  keys: Array.from(jwtKeys.values()).map(key => ({
+    ...key.publicKey.export({ format: 'jwk' }),
+    kid: key.kid,
+    alg: key.algorithm,
+    use: 'sig'
+  }))
+});
@@ -0,0 +1,49 @@
+import { Role } from './roles';
+
+/**
+ * Named permissions checked by requirePermission(). The catalogue lives in code
+ * because routes reference these names; which roles hold them is stored in the
+ * role_permissions table and can be edited through /api/auth/roles.
+ */
+export const PERMISSIONS = {
+  'clients.read': 'View and search clients',
+  'clients.create': 'Create clients',
+  'clients.update': 'Edit clients',
+  'clients.delete': 'Move clients to the trash and restore them',
+  'clients.purge': 'Permanently delete clients in the trash and their documents',
+  'clients.import': 'Import clients from CSV',
+  'clients.audit': 'Search the change history of all clients',
+  'clients.merge': 'Find duplicate clients and merge them',
+  'documents.read': 'View and download client documents',
+  'documents.upload': 'Upload and move client documents',
+  'documents.delete': 'Delete client documents',
+  'reports.view': 'View reports and policy commission',
+  'users.manage': 'Manage user accounts and two-factor policy',
+  'users.impersonate': 'Sign in as another user to see what they see',
+  'roles.manage': 'Edit role permissions',
+  'api_keys.manage': 'Create and revoke API keys for other services'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+export const isValidPermission = (permission: unknown): permission is Permission => {
+  return typeof permission === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, permission);
+};
+
+/**
+ * The admin role always holds every permission and cannot be edited,
+ * so a bad mapping can never lock everyone out of role management.
+ */
+export const SUPERUSER_ROLE: Role = 'admin';
+
+/**
+ * Permissions that only people can hold. API keys cannot be granted them,
+ * so a leaked service key can never be used to create users or more keys,
+ * or to permanently delete clients.
+ * Impersonated sessions cannot use them either.
+ */
+export const USER_ONLY_PERMISSIONS: Permission[] = [
+  'users.manage', 'users.impersonate', 'roles.manage', 'api_keys.manage', 'clients.purge'
+];
@@ -0,0 +1,11 @@
+/**
+ * Canonical list of user roles. Anything that creates or edits users
+ * should validate against this list instead of hard-coding role names.
+ */
+export const ROLES = ['admin', 'manager', 'underwriter', 'sales', 'employee'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const isValidRole = (role: unknown): role is Role => {
+  return typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+};
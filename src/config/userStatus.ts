@@ -0,0 +1,26 @@
+/**
+ * User lifecycle. Only `active` users can log in or use their tokens.
+ *
+ *   invited   -> active (invitation accepted or activated by an admin), archived
+ *   active    -> suspended, archived
+ *   suspended -> active, archived
+ *   archived  -> active (restored by an admin)
+ */
+export const USER_STATUSES = ['invited', 'active', 'suspended', 'archived'] as const;
+
+export type UserStatus = typeof USER_STATUSES[number];
+
+export const USER_STATUS_TRANSITIONS: Record<UserStatus, readonly UserStatus[]> = {
+  invited: ['active', 'archived'],
+  active: ['suspended', 'archived'],
+  suspended: ['active', 'archived'],
+  archived: ['active']
+};
+
+export const isValidUserStatus = (status: unknown): status is UserStatus => {
+  return typeof status === 'string' && (USER_STATUSES as readonly string[]).includes(status);
+};
+
+export const canTransition = (from: UserStatus, to: UserStatus): boolean => {
+  return USER_STATUS_TRANSITIONS[from].includes(to);
+};
@@ -0,0 +1,37 @@
+-- API keys for service-to-service access. Only the SHA-256 hash of a key is stored;
+-- the prefix is kept in plain text so admins can recognise a key in listings and logs.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'api_keys')
+BEGIN
+    CREATE TABLE api_keys (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        name NVARCHAR(100) NOT NULL,
+        prefix VARCHAR(20) NOT NULL,
+        key_hash CHAR(64) NOT NULL,
+        allowed_ips VARCHAR(1000) NULL,
+        expires_at DATETIME NULL,
+        created_by INT NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        last_used_at DATETIME NULL,
+        revoked_at DATETIME NULL,
+        revoked_by INT NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE UNIQUE INDEX idx_api_keys_hash ON api_keys(key_hash);
+    CREATE UNIQUE INDEX idx_api_keys_prefix ON api_keys(prefix);
+
+    PRINT 'Created api_keys table';
+END
+
+-- Explicit permissions of each key, using the same names as role_permissions
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'api_key_permissions')
+BEGIN
+    CREATE TABLE api_key_permissions (
+        api_key_id INT NOT NULL,
+        permission VARCHAR(100) NOT NULL,
+        PRIMARY KEY (api_key_id, permission),
+        FOREIGN KEY (api_key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+    );
+
+    PRINT 'Created api_key_permissions table';
+END
@@ -0,0 +1,42 @@
+-- Server-side sessions backing short-lived access tokens.
+-- Each login creates one session; every refresh token issued for that login
+-- belongs to the same session (token family).
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'auth_sessions')
+BEGIN
+    CREATE TABLE auth_sessions (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id INT NOT NULL,
+        ip_address VARCHAR(64) NULL,
+        user_agent VARCHAR(500) NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        last_used_at DATETIME DEFAULT GETDATE(),
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME NULL,
+        revoked_reason VARCHAR(50) NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_auth_sessions_user ON auth_sessions(user_id);
+
+    PRINT 'Created auth_sessions table';
+END
+
+-- Refresh tokens are stored as SHA-256 hashes, never in plain text.
+-- A token is single use: refreshing marks it as used and issues a new one
+-- in the same session. Presenting a used token again revokes the session.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'refresh_tokens')
+BEGIN
+    CREATE TABLE refresh_tokens (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        session_id VARCHAR(36) NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        FOREIGN KEY (session_id) REFERENCES auth_sessions(id) ON DELETE CASCADE
+    );
+
+    CREATE UNIQUE INDEX idx_refresh_tokens_hash ON refresh_tokens(token_hash);
+
+    PRINT 'Created refresh_tokens table';
+END
@@ -0,0 +1,41 @@
+-- Change history of clients and their policies. Entries outlive the client, so there is no foreign key.
+-- actor columns: user_id for users, api_key_id for other services, impersonator_id when an admin acted as the user.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'client_audit_log')
+BEGIN
+    CREATE TABLE client_audit_log (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        client_id VARCHAR(50) NOT NULL,
+        entity VARCHAR(20) NOT NULL CHECK (entity IN ('client', 'policy')),
+        entity_id VARCHAR(50) NOT NULL,
+        action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+        user_id INT NULL,
+        api_key_id INT NULL,
+        impersonator_id INT NULL,
+        ip_address VARCHAR(64) NULL,
+        created_at DATETIME DEFAULT GETDATE()
+    );
+
+    CREATE INDEX idx_client_audit_client ON client_audit_log(client_id, created_at);
+    CREATE INDEX idx_client_audit_user ON client_audit_log(user_id, created_at);
+    CREATE INDEX idx_client_audit_created ON client_audit_log(created_at);
+
+    PRINT 'Created client_audit_log table';
+END
+
+-- One row per changed field; values are JSON so numbers, text and nulls keep their type
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'client_audit_changes')
+BEGIN
+    CREATE TABLE client_audit_changes (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        audit_id BIGINT NOT NULL,
+        field VARCHAR(100) NOT NULL,
+        old_value NVARCHAR(MAX) NULL,
+        new_value NVARCHAR(MAX) NULL,
+        FOREIGN KEY (audit_id) REFERENCES client_audit_log(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_client_audit_changes_audit ON client_audit_changes(audit_id);
+    CREATE INDEX idx_client_audit_changes_field ON client_audit_changes(field, audit_id);
+
+    PRINT 'Created client_audit_changes table';
+END
@@ -0,0 +1,12 @@
+-- Imports can match rows to existing clients by a key and update them instead of
+-- creating duplicates. A dry run keeps how it was run so the commit does the same.
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'client_imports' AND COLUMN_NAME = 'match_on')
+BEGIN
+    ALTER TABLE client_imports ADD
+        match_on VARCHAR(20) NULL,
+        mode VARCHAR(10) NOT NULL DEFAULT 'insert',
+        updated_count INT NULL,
+        skipped_count INT NULL,
+        failed_count INT NULL;
+    PRINT 'Added match_on, mode and result counts to client_imports table';
+END
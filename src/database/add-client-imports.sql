@@ -0,0 +1,28 @@
+-- CSV imports checked in a dry run and waiting to be committed. row_data holds the
+-- normalized client and policy of each valid row as JSON. Only the user or API key that
+-- uploaded the file can commit it, once, before expires_at. A commit saves
+-- processed_rows and progress_at after each batch, so one that fails or dies resumes
+-- after the rows it wrote.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'client_imports')
+BEGIN
+    CREATE TABLE client_imports (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id INT NULL,
+        api_key_id INT NULL,
+        file_name NVARCHAR(255) NULL,
+        total_rows INT NOT NULL,
+        valid_rows INT NOT NULL,
+        row_data NVARCHAR(MAX) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'committing', 'committed')),
+        created_at DATETIME DEFAULT GETDATE(),
+        expires_at DATETIME NOT NULL,
+        committed_at DATETIME NULL,
+        created_count INT NULL,
+        processed_rows INT NOT NULL DEFAULT 0,
+        progress_at DATETIME NULL
+    );
+
+    CREATE INDEX idx_client_imports_expires ON client_imports(expires_at);
+
+    PRINT 'Created client_imports table';
+END
@@ -0,0 +1,31 @@
+-- Merging duplicate clients moves the duplicate to the trash and records which client it
+-- was merged into. No foreign key, so purging the survivor does not touch the duplicate.
+-- Managers get clients.merge the first time this runs; later edits to their permissions stick.
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'clients' AND COLUMN_NAME = 'merged_into')
+BEGIN
+    ALTER TABLE clients ADD merged_into VARCHAR(50) NULL;
+    PRINT 'Added merged_into column to clients table';
+
+    IF NOT EXISTS (SELECT * FROM role_permissions WHERE role = 'manager' AND permission = 'clients.merge')
+    BEGIN
+        INSERT INTO role_permissions (role, permission) VALUES ('manager', 'clients.merge');
+        PRINT 'Granted clients.merge to manager';
+    END
+END
+
+-- The audit log records merges as well
+IF EXISTS (
+    SELECT * FROM sys.check_constraints
+    WHERE name = 'CK_client_audit_log_action' AND definition NOT LIKE '%merge%'
+)
+BEGIN
+    ALTER TABLE client_audit_log DROP CONSTRAINT CK_client_audit_log_action;
+    PRINT 'Dropped CK_client_audit_log_action without merge';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'CK_client_audit_log_action')
+BEGIN
+    ALTER TABLE client_audit_log ADD CONSTRAINT CK_client_audit_log_action CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge', 'merge'));
+    PRINT 'Added CK_client_audit_log_action';
+END
+
@@ -0,0 +1,82 @@
+-- Every column clients can be sorted on has an index (see SORTABLE_COLUMNS in
+-- src/models/clientColumns.ts). client_name, product and deleted_at are indexed already.
+-- Policies are filtered through idx_policies_client, with extra indexes for the fields
+-- staff filter on most.
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_customer_type')
+BEGIN
+    CREATE INDEX idx_clients_customer_type ON clients(customer_type);
+    PRINT 'Created idx_clients_customer_type';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_insurance_provider')
+BEGIN
+    CREATE INDEX idx_clients_insurance_provider ON clients(insurance_provider);
+    PRINT 'Created idx_clients_insurance_provider';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_branch')
+BEGIN
+    CREATE INDEX idx_clients_branch ON clients(branch);
+    PRINT 'Created idx_clients_branch';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_city')
+BEGIN
+    CREATE INDEX idx_clients_city ON clients(city);
+    PRINT 'Created idx_clients_city';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_district')
+BEGIN
+    CREATE INDEX idx_clients_district ON clients(district);
+    PRINT 'Created idx_clients_district';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_province')
+BEGIN
+    CREATE INDEX idx_clients_province ON clients(province);
+    PRINT 'Created idx_clients_province';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_email')
+BEGIN
+    CREATE INDEX idx_clients_email ON clients(email);
+    PRINT 'Created idx_clients_email';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_introducer_code')
+BEGIN
+    CREATE INDEX idx_clients_introducer_code ON clients(introducer_code);
+    PRINT 'Created idx_clients_introducer_code';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_ceilao_ib_file_no')
+BEGIN
+    CREATE INDEX idx_clients_ceilao_ib_file_no ON clients(ceilao_ib_file_no);
+    PRINT 'Created idx_clients_ceilao_ib_file_no';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_created_at')
+BEGIN
+    CREATE INDEX idx_clients_created_at ON clients(created_at);
+    PRINT 'Created idx_clients_created_at';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_updated_at')
+BEGIN
+    CREATE INDEX idx_clients_updated_at ON clients(updated_at);
+    PRINT 'Created idx_clients_updated_at';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_policies_main_class')
+BEGIN
+    CREATE INDEX idx_policies_main_class ON policies(main_class, client_id);
+    PRINT 'Created idx_policies_main_class';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_policies_insurer')
+BEGIN
+    CREATE INDEX idx_policies_insurer ON policies(insurer, client_id);
+    PRINT 'Created idx_policies_insurer';
+END
@@ -0,0 +1,30 @@
+-- Every suffix of each normalized search term, so quick search can find values containing
+-- the query with an index seek (suffix LIKE 'query%') instead of scanning client_search_terms
+-- with a leading wildcard. position is where the suffix starts; 0 is the whole value.
+-- Rows are written by src/models/ClientSearch.ts together with the terms; existing terms
+-- are split here the first time this runs.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'client_search_suffixes')
+BEGIN
+    CREATE TABLE client_search_suffixes (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        client_id VARCHAR(50) NOT NULL,
+        field VARCHAR(50) NOT NULL,
+        weight INT NOT NULL,
+        position SMALLINT NOT NULL,
+        suffix NVARCHAR(400) NOT NULL,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_client_search_suffixes_suffix ON client_search_suffixes(suffix) INCLUDE (client_id, field, weight, position);
+    CREATE INDEX idx_client_search_suffixes_client ON client_search_suffixes(client_id);
+
+    INSERT INTO client_search_suffixes (client_id, field, weight, position, suffix)
+    SELECT t.client_id, t.field, t.weight, n.position, SUBSTRING(t.normalized, n.position + 1, 400)
+    FROM client_search_terms t
+    INNER JOIN (
+        SELECT TOP 400 CAST(ROW_NUMBER() OVER (ORDER BY (SELECT NULL)) - 1 AS SMALLINT) AS position
+        FROM sys.all_columns
+    ) n ON n.position = 0 OR n.position <= LEN(t.normalized) - 2;
+
+    PRINT 'Created client_search_suffixes table';
+END
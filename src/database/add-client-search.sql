@@ -0,0 +1,23 @@
+-- Quick search document of each client: one row per identifier or name the client can be
+-- found by, with the value as shown and its normalized form (upper-case letters and
+-- digits; phone numbers without country code). Rows are written by src/models/ClientSearch.ts
+-- whenever a client or one of its policies changes. Policy rows have no foreign key to
+-- policies because clients already cascade to both tables.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'client_search_terms')
+BEGIN
+    CREATE TABLE client_search_terms (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        client_id VARCHAR(50) NOT NULL,
+        field VARCHAR(50) NOT NULL,
+        policy_id INT NULL,
+        value NVARCHAR(500) NOT NULL,
+        normalized NVARCHAR(400) NOT NULL,
+        weight INT NOT NULL,
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_client_search_terms_normalized ON client_search_terms(normalized) INCLUDE (client_id, weight);
+    CREATE INDEX idx_client_search_terms_client ON client_search_terms(client_id);
+
+    PRINT 'Created client_search_terms table';
+END
@@ -0,0 +1,33 @@
+-- Deleting a client moves it to the trash. Trashed clients are hidden everywhere except
+-- the trash list until they are restored or purged. deleted_by has no foreign key because
+-- clients already cascade from users through sales_rep_id.
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'clients' AND COLUMN_NAME = 'deleted_at')
+BEGIN
+    ALTER TABLE clients ADD deleted_at DATETIME NULL, deleted_by INT NULL;
+    PRINT 'Added deleted_at and deleted_by columns to clients table';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_clients_deleted_at')
+BEGIN
+    EXEC('CREATE INDEX idx_clients_deleted_at ON clients(deleted_at)');
+    PRINT 'Created idx_clients_deleted_at';
+END
+
+-- The audit log records restores and purges as well
+DECLARE @actionCheck NVARCHAR(256);
+SELECT @actionCheck = cc.name
+FROM sys.check_constraints cc
+INNER JOIN sys.columns c ON c.object_id = cc.parent_object_id AND c.column_id = cc.parent_column_id
+WHERE cc.parent_object_id = OBJECT_ID('client_audit_log') AND c.name = 'action' AND cc.name <> 'CK_client_audit_log_action';
+
+IF @actionCheck IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE client_audit_log DROP CONSTRAINT ' + @actionCheck);
+    PRINT 'Dropped old audit action check constraint ' + @actionCheck;
+END
+
+IF NOT EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'CK_client_audit_log_action')
+BEGIN
+    ALTER TABLE client_audit_log ADD CONSTRAINT CK_client_audit_log_action CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge'));
+    PRINT 'Added CK_client_audit_log_action';
+END
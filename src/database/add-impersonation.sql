@@ -0,0 +1,31 @@
+-- Sessions started by an admin acting as another user carry the admin's ID.
+-- No foreign key: users already cascade into auth_sessions through user_id.
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'auth_sessions' AND COLUMN_NAME = 'impersonator_id')
+BEGIN
+    ALTER TABLE auth_sessions ADD impersonator_id INT NULL;
+    PRINT 'Added impersonator_id column to auth_sessions table';
+END
+
+-- Audit trail of impersonation: when it started, why, and every request made with it
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'impersonation_log')
+BEGIN
+    CREATE TABLE impersonation_log (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        session_id VARCHAR(36) NOT NULL,
+        admin_id INT NOT NULL,
+        user_id INT NOT NULL,
+        event VARCHAR(20) NOT NULL CHECK (event IN ('start', 'request')),
+        reason NVARCHAR(500) NULL,
+        method VARCHAR(10) NULL,
+        path NVARCHAR(500) NULL,
+        status_code INT NULL,
+        ip_address VARCHAR(64) NULL,
+        created_at DATETIME DEFAULT GETDATE()
+    );
+
+    CREATE INDEX idx_impersonation_log_admin ON impersonation_log(admin_id, created_at);
+    CREATE INDEX idx_impersonation_log_user ON impersonation_log(user_id, created_at);
+    CREATE INDEX idx_impersonation_log_session ON impersonation_log(session_id);
+
+    PRINT 'Created impersonation_log table';
+END
@@ -0,0 +1,18 @@
+-- Saved mappings from the headers of insurer and legacy spreadsheets to client and
+-- policy fields. definition holds the columns, their transforms and default values as JSON.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'import_profiles')
+BEGIN
+    CREATE TABLE import_profiles (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        name NVARCHAR(100) NOT NULL,
+        description NVARCHAR(500) NULL,
+        definition NVARCHAR(MAX) NOT NULL,
+        created_by INT NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        updated_at DATETIME DEFAULT GETDATE()
+    );
+
+    CREATE UNIQUE INDEX idx_import_profiles_name ON import_profiles(name);
+
+    PRINT 'Created import_profiles table';
+END
@@ -0,0 +1,21 @@
+-- Every login attempt, successful or not, for users' session overviews and security investigations.
+-- user_id is NULL when the email does not belong to an account; rows outlive deleted users.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'login_attempts')
+BEGIN
+    CREATE TABLE login_attempts (
+        id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NULL,
+        email VARCHAR(255) NULL,
+        ip_address VARCHAR(64) NULL,
+        user_agent VARCHAR(500) NULL,
+        outcome VARCHAR(50) NOT NULL,
+        session_id VARCHAR(36) NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX idx_login_attempts_user ON login_attempts(user_id, created_at);
+    CREATE INDEX idx_login_attempts_email ON login_attempts(email, created_at);
+
+    PRINT 'Created login_attempts table';
+END
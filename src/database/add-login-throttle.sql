@@ -0,0 +1,16 @@
+-- Failed login counters, one row per email address and one per client IP.
+-- lock_count grows with every lockout so repeated attacks are locked out for longer.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'login_throttle')
+BEGIN
+    CREATE TABLE login_throttle (
+        key_type VARCHAR(10) NOT NULL CHECK (key_type IN ('email', 'ip')),
+        key_value VARCHAR(255) NOT NULL,
+        failed_count INT NOT NULL DEFAULT 0,
+        lock_count INT NOT NULL DEFAULT 0,
+        last_failed_at DATETIME NULL,
+        locked_until DATETIME NULL,
+        PRIMARY KEY (key_type, key_value)
+    );
+
+    PRINT 'Created login_throttle table';
+END
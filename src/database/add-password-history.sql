@@ -0,0 +1,16 @@
+-- Previous password hashes, so users cannot switch back to a recently used password.
+-- Only the most recent PASSWORD_HISTORY_COUNT hashes per user are kept.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'password_history')
+BEGIN
+    CREATE TABLE password_history (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        password_hash VARCHAR(255) NOT NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_password_history_user ON password_history(user_id, created_at);
+
+    PRINT 'Created password_history table';
+END
@@ -0,0 +1,20 @@
+-- Single-use tokens for password resets and account invitations.
+-- Only the SHA-256 hash of a token is stored.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'password_tokens')
+BEGIN
+    CREATE TABLE password_tokens (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('reset', 'invite')),
+        created_at DATETIME DEFAULT GETDATE(),
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE UNIQUE INDEX idx_password_tokens_hash ON password_tokens(token_hash);
+    CREATE INDEX idx_password_tokens_user ON password_tokens(user_id);
+
+    PRINT 'Created password_tokens table';
+END
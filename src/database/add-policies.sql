@@ -0,0 +1,113 @@
+-- A client can hold several policies (e.g. motor and fire). Policy details used to live on the
+-- client row; this moves them into their own table and drops the old columns from clients.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'policies')
+BEGIN
+    CREATE TABLE policies (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        client_id VARCHAR(50) NOT NULL,
+        product VARCHAR(50) NULL,
+        insurance_provider VARCHAR(100) NULL,
+        main_class VARCHAR(100) NULL,
+        insurer VARCHAR(100) NULL,
+        policy_type VARCHAR(100) NULL,
+        policy_no VARCHAR(100) NULL,
+        policy_period_from VARCHAR(50) NULL,
+        policy_period_to VARCHAR(50) NULL,
+        coverage VARCHAR(255) NULL,
+        sum_insured DECIMAL(15, 2) DEFAULT 0,
+        basic_premium DECIMAL(15, 2) DEFAULT 0,
+        srcc_premium DECIMAL(15, 2) DEFAULT 0,
+        tc_premium DECIMAL(15, 2) DEFAULT 0,
+        net_premium DECIMAL(15, 2) DEFAULT 0,
+        stamp_duty DECIMAL(15, 2) DEFAULT 0,
+        admin_fees DECIMAL(15, 2) DEFAULT 0,
+        road_safety_fee DECIMAL(15, 2) DEFAULT 0,
+        policy_fee DECIMAL(15, 2) DEFAULT 0,
+        vat_fee DECIMAL(15, 2) DEFAULT 0,
+        total_invoice DECIMAL(15, 2) DEFAULT 0,
+        debit_note VARCHAR(100) NULL,
+        payment_receipt VARCHAR(100) NULL,
+        commission_type VARCHAR(50) NULL,
+        commission_basic DECIMAL(15, 2) DEFAULT 0,
+        commission_srcc DECIMAL(15, 2) DEFAULT 0,
+        commission_tc DECIMAL(15, 2) DEFAULT 0,
+        created_at DATETIME DEFAULT GETDATE(),
+        updated_at DATETIME DEFAULT GETDATE(),
+        FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_policies_client ON policies(client_id);
+    CREATE INDEX idx_policies_policy_no ON policies(policy_no);
+
+    PRINT 'Created policies table';
+END
+
+-- Columns that belong to a policy. main_class and insurer only exist where alter-clients.sql was run.
+DECLARE @policyColumns TABLE (name SYSNAME PRIMARY KEY);
+INSERT INTO @policyColumns (name) VALUES
+    ('main_class'), ('insurer'), ('policy_type'), ('policy_no'), ('policy_period_from'), ('policy_period_to'),
+    ('coverage'), ('sum_insured'), ('basic_premium'), ('srcc_premium'), ('tc_premium'), ('net_premium'),
+    ('stamp_duty'), ('admin_fees'), ('road_safety_fee'), ('policy_fee'), ('vat_fee'), ('total_invoice'),
+    ('debit_note'), ('payment_receipt'), ('commission_type'), ('commission_basic'), ('commission_srcc'),
+    ('commission_tc'), ('policies');
+
+IF EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'clients' AND COLUMN_NAME = 'policy_no')
+BEGIN
+    BEGIN TRANSACTION;
+
+    -- Copy the columns that exist on this database; 'policies' was only a counter and is not copied
+    DECLARE @columns NVARCHAR(MAX);
+    SELECT @columns = STRING_AGG(QUOTENAME(pc.name), ', ')
+    FROM @policyColumns pc
+    INNER JOIN sys.columns c ON c.object_id = OBJECT_ID('clients') AND c.name = pc.name
+    WHERE pc.name <> 'policies';
+
+    -- One policy per client that has any policy details
+    EXEC('
+        INSERT INTO policies (client_id, product, insurance_provider, ' + @columns + ')
+        SELECT id, product, insurance_provider, ' + @columns + '
+        FROM clients
+        WHERE (NULLIF(LTRIM(RTRIM(policy_no)), '''') IS NOT NULL
+            OR NULLIF(LTRIM(RTRIM(policy_type)), '''') IS NOT NULL
+            OR NULLIF(LTRIM(RTRIM(policy_period_from)), '''') IS NOT NULL
+            OR COALESCE(sum_insured, 0) <> 0
+            OR COALESCE(net_premium, 0) <> 0
+            OR COALESCE(total_invoice, 0) <> 0)
+        AND NOT EXISTS (SELECT 1 FROM policies p WHERE p.client_id = clients.id)
+    ');
+    PRINT 'Copied client policy details into policies';
+
+    IF EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_policy_no' AND object_id = OBJECT_ID('clients'))
+    BEGIN
+        DROP INDEX idx_policy_no ON clients;
+    END
+
+    -- Drop the old columns together with their default constraints
+    DECLARE @column SYSNAME, @constraint SYSNAME;
+    DECLARE policy_column_cursor CURSOR LOCAL FAST_FORWARD FOR
+        SELECT c.name FROM sys.columns c
+        INNER JOIN @policyColumns pc ON pc.name = c.name
+        WHERE c.object_id = OBJECT_ID('clients');
+
+    OPEN policy_column_cursor;
+    FETCH NEXT FROM policy_column_cursor INTO @column;
+    WHILE @@FETCH_STATUS = 0
+    BEGIN
+        SET @constraint = NULL;
+        SELECT @constraint = dc.name
+        FROM sys.default_constraints dc
+        INNER JOIN sys.columns c ON c.object_id = dc.parent_object_id AND c.column_id = dc.parent_column_id
+        WHERE dc.parent_object_id = OBJECT_ID('clients') AND c.name = @column;
+
+        IF @constraint IS NOT NULL
+            EXEC('ALTER TABLE clients DROP CONSTRAINT ' + QUOTENAME(@constraint));
+
+        EXEC('ALTER TABLE clients DROP COLUMN ' + QUOTENAME(@column));
+        FETCH NEXT FROM policy_column_cursor INTO @column;
+    END
+    CLOSE policy_column_cursor;
+    DEALLOCATE policy_column_cursor;
+
+    COMMIT TRANSACTION;
+    PRINT 'Moved policy columns from clients to policies';
+END
@@ -0,0 +1,31 @@
+-- Role to permission mapping. Permission names are defined in src/config/permissions.ts;
+-- the admin role implicitly holds all of them and is not stored here.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'role_permissions')
+BEGIN
+    CREATE TABLE role_permissions (
+        role VARCHAR(50) NOT NULL,
+        permission VARCHAR(100) NOT NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        PRIMARY KEY (role, permission)
+    );
+
+    -- Defaults matching the role checks that were previously hard-coded in the routes
+    INSERT INTO role_permissions (role, permission) VALUES
+        ('manager', 'clients.read'),
+        ('manager', 'clients.create'),
+        ('manager', 'clients.update'),
+        ('manager', 'clients.delete'),
+        ('manager', 'clients.import'),
+        ('manager', 'documents.read'),
+        ('manager', 'documents.upload'),
+        ('manager', 'documents.delete'),
+        ('manager', 'reports.view'),
+        ('employee', 'clients.read'),
+        ('employee', 'clients.create'),
+        ('employee', 'documents.read'),
+        ('employee', 'documents.upload'),
+        ('underwriter', 'documents.read'),
+        ('sales', 'documents.read');
+
+    PRINT 'Created role_permissions table';
+END
@@ -0,0 +1,48 @@
+-- TOTP two-factor authentication
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'users' AND COLUMN_NAME = 'totp_secret')
+BEGIN
+    ALTER TABLE users ADD totp_secret VARCHAR(64) NULL;
+    PRINT 'Added totp_secret column to users table';
+END
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'users' AND COLUMN_NAME = 'totp_enabled')
+BEGIN
+    ALTER TABLE users ADD totp_enabled BIT NOT NULL DEFAULT 0;
+    PRINT 'Added totp_enabled column to users table';
+END
+
+-- Last accepted time step, so a code cannot be replayed within its validity window
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'users' AND COLUMN_NAME = 'totp_last_step')
+BEGIN
+    ALTER TABLE users ADD totp_last_step BIGINT NULL;
+    PRINT 'Added totp_last_step column to users table';
+END
+
+-- One-time recovery codes, stored as SHA-256 hashes
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'user_recovery_codes')
+BEGIN
+    CREATE TABLE user_recovery_codes (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        created_at DATETIME DEFAULT GETDATE(),
+        used_at DATETIME NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_user_recovery_codes_user ON user_recovery_codes(user_id);
+
+    PRINT 'Created user_recovery_codes table';
+END
+
+-- Per-role security settings
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'role_settings')
+BEGIN
+    CREATE TABLE role_settings (
+        role VARCHAR(50) PRIMARY KEY,
+        require_2fa BIT NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT GETDATE()
+    );
+
+    PRINT 'Created role_settings table';
+END
@@ -0,0 +1,57 @@
+-- User lifecycle: invited -> active <-> suspended, any of them -> archived.
+-- status is the source of truth; is_active is kept only for older tools and always equals (status = 'active').
+
+-- The original role CHECK predates the employee role. Replace it with one that matches src/config/roles.ts.
+DECLARE @roleCheck NVARCHAR(256);
+SELECT @roleCheck = cc.name
+FROM sys.check_constraints cc
+INNER JOIN sys.columns c ON c.object_id = cc.parent_object_id AND c.column_id = cc.parent_column_id
+WHERE cc.parent_object_id = OBJECT_ID('users') AND c.name = 'role' AND cc.name <> 'CK_users_role';
+
+IF @roleCheck IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE users DROP CONSTRAINT ' + @roleCheck);
+    PRINT 'Dropped old role check constraint ' + @roleCheck;
+END
+
+IF NOT EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'CK_users_role')
+BEGIN
+    ALTER TABLE users ADD CONSTRAINT CK_users_role CHECK (role IN ('admin', 'manager', 'underwriter', 'sales', 'employee'));
+    PRINT 'Added CK_users_role';
+END
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'users' AND COLUMN_NAME = 'status_changed_at')
+BEGIN
+    ALTER TABLE users ADD status_changed_at DATETIME NULL, status_changed_by INT NULL;
+    PRINT 'Added status_changed_at and status_changed_by columns to users table';
+END
+
+-- 'inactive' is now 'suspended'; rows that only ever had is_active = 0 are suspended too
+EXEC('UPDATE users SET status = ''suspended'' WHERE status = ''inactive'' OR (status = ''active'' AND is_active = 0)');
+EXEC('UPDATE users SET status = ''suspended'' WHERE status NOT IN (''invited'', ''active'', ''suspended'', ''archived'')');
+EXEC('UPDATE users SET is_active = CASE WHEN status = ''active'' THEN 1 ELSE 0 END WHERE is_active IS NULL OR is_active <> CASE WHEN status = ''active'' THEN 1 ELSE 0 END');
+
+IF NOT EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'CK_users_status')
+BEGIN
+    EXEC('ALTER TABLE users ADD CONSTRAINT CK_users_status CHECK (status IN (''invited'', ''active'', ''suspended'', ''archived''))');
+    PRINT 'Added CK_users_status';
+END
+
+-- Every status change with who made it. changed_by is NULL for changes made by the system.
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'user_status_history')
+BEGIN
+    CREATE TABLE user_status_history (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        from_status VARCHAR(20) NULL,
+        to_status VARCHAR(20) NOT NULL,
+        changed_by INT NULL,
+        reason NVARCHAR(500) NULL,
+        changed_at DATETIME DEFAULT GETDATE(),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX idx_user_status_history_user ON user_status_history(user_id, changed_at);
+
+    PRINT 'Created user_status_history table';
+END
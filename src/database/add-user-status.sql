@@ -0,0 +1,17 @@
+-- Older databases were created with is_active BIT, newer code reads status.
+-- Make sure both columns exist so either can be relied on, and keep them in sync.
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'users' AND COLUMN_NAME = 'is_active')
+BEGIN
+    ALTER TABLE users ADD is_active BIT DEFAULT 1;
+    PRINT 'Added is_active column to users table';
+END
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'users' AND COLUMN_NAME = 'status')
+BEGIN
+    ALTER TABLE users ADD status VARCHAR(20) NOT NULL DEFAULT 'active';
+    PRINT 'Added status column to users table';
+END
+
+-- Backfill in dynamic SQL since the columns may not have existed when this batch was compiled
+EXEC('UPDATE users SET status = ''inactive'' WHERE is_active = 0 AND status = ''active''');
+EXEC('UPDATE users SET is_active = CASE WHEN status = ''active'' THEN 1 ELSE 0 END WHERE is_active IS NULL OR is_active <> CASE WHEN status = ''active'' THEN 1 ELSE 0 END');
@@ -18,9 +18,12 @@ async function initializeDatabase() {
               password VARCHAR(255) NOT NULL,
               first_name VARCHAR(100) NOT NULL,
               last_name VARCHAR(100) NOT NULL,
-              role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'manager', 'underwriter', 'sales')),
+              role VARCHAR(50) NOT NULL CONSTRAINT CK_users_role CHECK (role IN ('admin', 'manager', 'underwriter', 'sales', 'employee')),
               phone_number VARCHAR(20),
-              is_active BIT DEFAULT 1,
+              status VARCHAR(20) NOT NULL DEFAULT 'active' CONSTRAINT CK_users_status CHECK (status IN ('invited', 'active', 'suspended', 'archived')),
+              is_active BIT DEFAULT 1, -- legacy mirror of status = 'active'
+              status_changed_at DATETIME NULL,
+              status_changed_by INT NULL,
               last_login DATETIME NULL,
               created_at DATETIME DEFAULT GETDATE(),
               updated_at DATETIME DEFAULT GETDATE()
@@ -57,32 +60,12 @@ async function initializeDatabase() {
               business_registration VARCHAR(255),
               svat_proof VARCHAR(255),
               vat_proof VARCHAR(255),
-              policy_type VARCHAR(100),
-              policy_no VARCHAR(100),
-              policy_period_from VARCHAR(50),
-              policy_period_to VARCHAR(50),
-              coverage VARCHAR(255),
-              sum_insured DECIMAL(15, 2) DEFAULT 0,
-              basic_premium DECIMAL(15, 2) DEFAULT 0,
-              srcc_premium DECIMAL(15, 2) DEFAULT 0,
-              tc_premium DECIMAL(15, 2) DEFAULT 0,
-              net_premium DECIMAL(15, 2) DEFAULT 0,
-              stamp_duty DECIMAL(15, 2) DEFAULT 0,
-              admin_fees DECIMAL(15, 2) DEFAULT 0,
-              road_safety_fee DECIMAL(15, 2) DEFAULT 0,
-              policy_fee DECIMAL(15, 2) DEFAULT 0,
-              vat_fee DECIMAL(15, 2) DEFAULT 0,
-              total_invoice DECIMAL(15, 2) DEFAULT 0,
-              debit_note VARCHAR(100),
-              payment_receipt VARCHAR(100),
-              commission_type VARCHAR(50),
-              commission_basic DECIMAL(15, 2) DEFAULT 0,
-              commission_srcc DECIMAL(15, 2) DEFAULT 0,
-              commission_tc DECIMAL(15, 2) DEFAULT 0,
               sales_rep_id INT,
-              policies INT DEFAULT 0,
               created_at DATETIME DEFAULT GETDATE(),
               updated_at DATETIME DEFAULT GETDATE(),
+              deleted_at DATETIME NULL,
+              deleted_by INT NULL,
+              merged_into VARCHAR(50) NULL,
               FOREIGN KEY (sales_rep_id) REFERENCES users(id) ON DELETE SET NULL
           );
       END
@@ -104,13 +87,6 @@ async function initializeDatabase() {
       END
     `);
     
-    await pool.request().query(`
-      IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_policy_no')
-      BEGIN
-          CREATE INDEX idx_policy_no ON clients(policy_no);
-      END
-    `);
-    
     await pool.request().query(`
       IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_product')
       BEGIN
@@ -94,6 +94,7 @@ async function migrateUsers(mysqlPool: mysql.Pool, azurePool: mssql.ConnectionPo
       request.input('role', mssql.VarChar(20), user.role);
       request.input('phone_number', mssql.VarChar(20), user.phone_number);
       request.input('is_active', mssql.Bit, isActive);
+      request.input('status', mssql.VarChar(20), isActive ? 'active' : 'suspended');
       request.input('last_login', mssql.DateTime, lastLogin);
       request.input('created_at', mssql.DateTime, createdAt);
       request.input('updated_at', mssql.DateTime, updatedAt);
@@ -105,11 +106,11 @@ async function migrateUsers(mysqlPool: mysql.Pool, azurePool: mssql.ConnectionPo
       const query = `
         INSERT INTO users (
           id, email, password, first_name, last_name, role, 
-          phone_number, is_active, last_login, created_at, updated_at
+          phone_number, status, is_active, last_login, created_at, updated_at
         )
         VALUES (
           @id, @email, @password, @first_name, @last_name, @role,
-          @phone_number, @is_active, @last_login, @created_at, @updated_at
+          @phone_number, @status, @is_active, @last_login, @created_at, @updated_at
         )
       `;
       
@@ -21,8 +21,8 @@ async function seedDatabase() {
     adminRequest.input('isActive', 1);
     
     await adminRequest.query(`
-      INSERT INTO users (email, password, first_name, last_name, role, phone_number, is_active, last_login, created_at, updated_at)
-      VALUES (@email, @password, @firstName, @lastName, @role, @phone, @isActive, GETDATE(), GETDATE(), GETDATE())
+      INSERT INTO users (email, password, first_name, last_name, role, phone_number, status, is_active, last_login, created_at, updated_at)
+      VALUES (@email, @password, @firstName, @lastName, @role, @phone, 'active', @isActive, GETDATE(), GETDATE(), GETDATE())
     `);
     
     // Create manager user
@@ -36,8 +36,8 @@ async function seedDatabase() {
     managerRequest.input('isActive', 1);
     
     await managerRequest.query(`
-      INSERT INTO users (email, password, first_name, last_name, role, phone_number, is_active, last_login, created_at, updated_at)
-      VALUES (@email, @password, @firstName, @lastName, @role, @phone, @isActive, GETDATE(), GETDATE(), GETDATE())
+      INSERT INTO users (email, password, first_name, last_name, role, phone_number, status, is_active, last_login, created_at, updated_at)
+      VALUES (@email, @password, @firstName, @lastName, @role, @phone, 'active', @isActive, GETDATE(), GETDATE(), GETDATE())
     `);
     
     // Create underwriter user
@@ -51,8 +51,8 @@ async function seedDatabase() {
     underwriterRequest.input('isActive', 1);
     
     await underwriterRequest.query(`
-      INSERT INTO users (email, password, first_name, last_name, role, phone_number, is_active, last_login, created_at, updated_at)
-      VALUES (@email, @password, @firstName, @lastName, @role, @phone, @isActive, GETDATE(), GETDATE(), GETDATE())
+      INSERT INTO users (email, password, first_name, last_name, role, phone_number, status, is_active, last_login, created_at, updated_at)
+      VALUES (@email, @password, @firstName, @lastName, @role, @phone, 'active', @isActive, GETDATE(), GETDATE(), GETDATE())
     `);
     
     // Create sales user
@@ -66,8 +66,8 @@ async function seedDatabase() {
     salesRequest.input('isActive', 1);
     
     await salesRequest.query(`
-      INSERT INTO users (email, password, first_name, last_name, role, phone_number, is_active, last_login, created_at, updated_at)
-      VALUES (@email, @password, @firstName, @lastName, @role, @phone, @isActive, GETDATE(), GETDATE(), GETDATE())
+      INSERT INTO users (email, password, first_name, last_name, role, phone_number, status, is_active, last_login, created_at, updated_at)
+      VALUES (@email, @password, @firstName, @lastName, @role, @phone, 'active', @isActive, GETDATE(), GETDATE(), GETDATE())
     `);
     
     console.log('Test users created successfully');
@@ -10,7 +10,28 @@ async function updateSchema(): Promise<boolean> {
     // List of SQL files to execute in order
     const sqlFiles = [
       'schema.sql',
-      'add-employee-role.sql'
+      'add-employee-role.sql',
+      'add-auth-sessions.sql',
+      'add-user-status.sql',
+      'add-password-tokens.sql',
+      'add-login-throttle.sql',
+      'add-two-factor.sql',
+      'add-role-permissions.sql',
+      'add-login-history.sql',
+      'add-api-keys.sql',
+      'add-password-history.sql',
+      'add-impersonation.sql',
+      'add-user-lifecycle.sql',
+      'add-policies.sql',
+      'add-client-audit.sql',
+      'add-client-trash.sql',
+      'add-client-search-indexes.sql',
+      'add-client-search.sql',
+      'add-client-search-suffixes.sql',
+      'add-client-merge.sql',
+      'add-client-imports.sql',
+      'add-import-profiles.sql',
+      'add-client-import-upsert.sql'
     ];
     
     for (const file of sqlFiles) {
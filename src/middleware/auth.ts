@@ -1,29 +1,166 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/auth';
+import { isIpAllowed } from '../utils/ip';
+import { Session } from '../models/Session';
+import { RolePermission } from '../models/RolePermission';
+import { ApiKey } from '../models/ApiKey';
+import { ImpersonationLog } from '../models/ImpersonationLog';
+import { Permission, USER_ONLY_PERMISSIONS } from '../config/permissions';
+
+// Header other services use to send their API key
+export const API_KEY_HEADER = 'x-api-key';
+
+export interface AuthUser {
+  userId: number;
+  role: string;
+  sessionId: string;
+  // Set when an admin is acting as this user; userId and role are the impersonated user's
+  impersonatorId?: number;
+}
+
+export interface ServicePrincipal {
+  apiKeyId: number;
+  name: string;
+  permissions: Permission[];
+}
 
 export interface AuthRequest extends Request {
-  user?: {
-    userId: number;
-    role: string;
-  };
+  // Set for requests made by a logged-in user
+  user?: AuthUser;
+  // Set instead of user for requests made with an API key
+  service?: ServicePrincipal;
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+export type UserTokenResult =
+  | { ok: true; user: AuthUser }
+  | { ok: false; status: number; message: string };
+
+/**
+ * Resolve a user access token to the user and session it belongs to
+ */
+export const resolveUserToken = async (token: string | undefined): Promise<UserTokenResult> => {
+  if (!token) {
+    return { ok: false, status: 401, message: 'Authentication required' };
+  }
+
+  let decoded;
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ message: 'Authentication required' });
+    decoded = verifyToken(token);
+  } catch (error) {
+    return { ok: false, status: 401, message: 'Invalid token' };
+  }
+
+  // Two-factor challenge tokens only prove the password step and cannot be used for the API
+  if (decoded.purpose) {
+    return { ok: false, status: 401, message: 'Two-factor authentication required' };
+  }
+
+  // Tokens must belong to a live server-side session so logout and revocation take effect
+  if (!decoded.sessionId) {
+    return { ok: false, status: 401, message: 'Invalid token' };
+  }
+
+  try {
+    const active = await Session.isActive(decoded.sessionId);
+    if (!active) {
+      return { ok: false, status: 401, message: 'Session has been revoked' };
+    }
+  } catch (error) {
+    console.error('Session check failed:', error);
+    return { ok: false, status: 503, message: 'Database service unavailable, please try again later' };
+  }
+
+  return {
+    ok: true,
+    user: {
+      userId: decoded.userId,
+      role: decoded.role,
+      sessionId: decoded.sessionId,
+      impersonatorId: decoded.impersonatorId
+    }
+  };
+};
+
+const authenticateApiKey = async (key: string, req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = await ApiKey.findActive(key);
+    if (!apiKey) {
+      return res.status(401).json({ message: 'Invalid API key' });
+    }
+
+    if (apiKey.allowed_ips && !isIpAllowed(req.ip, apiKey.allowed_ips.split(','))) {
+      console.warn(`API key ${apiKey.prefix} used from disallowed IP ${req.ip}`);
+      return res.status(403).json({ message: 'API key is not allowed from this IP address' });
     }
 
-    const decoded = verifyToken(token);
-    req.user = decoded;
+    req.service = {
+      apiKeyId: apiKey.id,
+      name: apiKey.name,
+      permissions: apiKey.permissions
+    };
     next();
   } catch (error) {
-    return res.status(401).json({ message: 'Invalid token' });
+    console.error('API key check failed:', error);
+    return res.status(503).json({ message: 'Database service unavailable, please try again later' });
   }
 };
 
+/**
+ * Accept either a user access token (Authorization: Bearer) or a service API key (X-API-Key).
+ * Follow with requirePermission() - service principals can only do what their key allows.
+ */
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const apiKey = req.get(API_KEY_HEADER);
+  if (apiKey && !req.headers.authorization) {
+    return authenticateApiKey(apiKey, req, res, next);
+  }
+
+  return authenticateUser(req, res, next);
+};
+
+/**
+ * Accept only user access tokens, for endpoints that act on the caller's own account
+ */
+export const authenticateUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const result = await resolveUserToken(req.headers.authorization?.split(' ')[1]);
+  if (!result.ok) {
+    return res.status(result.status).json({ message: result.message });
+  }
+
+  req.user = result.user;
+
+  if (result.user.impersonatorId) {
+    logImpersonatedRequest(req, res, result.user);
+  }
+
+  next();
+};
+
+// Write every request made while impersonating to the audit trail once it completes
+const logImpersonatedRequest = (req: AuthRequest, res: Response, user: AuthUser) => {
+  res.on('finish', () => {
+    ImpersonationLog.recordRequest(user.sessionId, user.impersonatorId!, user.userId, {
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      ipAddress: req.ip
+    }).catch(error => {
+      console.error('Failed to write impersonation audit entry:', error);
+    });
+  });
+};
+
+/**
+ * Refuse the request when an admin is impersonating, for endpoints that change
+ * the account itself (password, two-factor, profile, sessions)
+ */
+export const denyWhileImpersonating = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.user?.impersonatorId) {
+    return res.status(403).json({ message: 'Not allowed while impersonating another user' });
+  }
+  next();
+};
+
 export const authorize = (roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -36,4 +173,55 @@ export const authorize = (roles: string[]) => {
 
     next();
   };
-}; 
\ No newline at end of file
+};
+
+// Require every listed permission; role mappings are managed through /api/auth/roles
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.service) {
+      const granted = req.service.permissions;
+      if (!permissions.every(permission => granted.includes(permission))) {
+        return res.status(403).json({ message: 'Unauthorized access' });
+      }
+      return next();
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    // Impersonation is for seeing what a user sees, never for administering accounts
+    if (req.user.impersonatorId && permissions.some(permission => USER_ONLY_PERMISSIONS.includes(permission))) {
+      return res.status(403).json({ message: 'Not allowed while impersonating another user' });
+    }
+
+    try {
+      const allowed = await RolePermission.hasPermissions(req.user.role, permissions);
+      if (!allowed) {
+        return res.status(403).json({ message: 'Unauthorized access' });
+      }
+    } catch (error) {
+      console.error('Permission check failed:', error);
+      return res.status(503).json({ message: 'Database service unavailable, please try again later' });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Whether the caller holds every one of the permissions, for endpoints that show more or
+ * less depending on who asks instead of refusing. Follows the same rules as requirePermission.
+ */
+export const hasPermissions = async (req: AuthRequest, permissions: Permission[]): Promise<boolean> => {
+  if (req.service) {
+    return permissions.every(permission => req.service!.permissions.includes(permission));
+  }
+  if (!req.user) {
+    return false;
+  }
+  if (req.user.impersonatorId && permissions.some(permission => USER_ONLY_PERMISSIONS.includes(permission))) {
+    return false;
+  }
+  return RolePermission.hasPermissions(req.user.role, permissions);
+};
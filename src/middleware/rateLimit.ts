@@ -0,0 +1,21 @@
+import rateLimit from 'express-rate-limit';
+
+const tooManyRequests = { message: 'Too many requests, please try again later' };
+
+const createLimiter = (windowMs: number, limit: number) => rateLimit({
+  windowMs,
+  limit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  message: tooManyRequests
+});
+
+/**
+ * Per-IP request limits for sensitive routes. These complement the
+ * per-account lockout in LoginThrottle, which is persisted in the database.
+ */
+export const loginLimiter = createLimiter(15 * 60 * 1000, 30);
+export const refreshLimiter = createLimiter(15 * 60 * 1000, 100);
+export const passwordResetLimiter = createLimiter(60 * 60 * 1000, 10);
+export const userAdminLimiter = createLimiter(15 * 60 * 1000, 300);
+export const validateTokenLimiter = createLimiter(60 * 1000, 600);
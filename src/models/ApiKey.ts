@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import { Permission, isValidPermission } from '../config/permissions';
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+
+export interface ApiKeyData {
+  id: number;
+  name: string;
+  prefix: string;
+  allowed_ips: string | null;
+  expires_at: Date | null;
+  created_by: number | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  permissions: Permission[];
+}
+
+export interface NewApiKey {
+  name: string;
+  permissions: Permission[];
+  allowedIps?: string[];
+  expiresAt?: Date | null;
+  createdBy: number;
+}
+
+// An api_keys row as API_KEY_COLUMNS selects it
+type ApiKeyRecord = Omit<ApiKeyData, 'permissions'>;
+
+interface ApiKeyPermissionRecord {
+  api_key_id: number;
+  permission: string;
+}
+
+const API_KEY_COLUMNS = 'id, name, prefix, allowed_ips, expires_at, created_by, created_at, last_used_at, revoked_at';
+
+// How long authenticate() may trust a cached key lookup before asking the database again
+const API_KEY_CACHE_TTL_MS = 30 * 1000;
+const API_KEY_CACHE_MAX_ENTRIES = 1000;
+const apiKeyCache = new Map<string, { apiKey: ApiKeyData | null; checkedAt: number }>();
+
+const cacheApiKey = (keyHash: string, apiKey: ApiKeyData | null) => {
+  if (apiKeyCache.size >= API_KEY_CACHE_MAX_ENTRIES) {
+    apiKeyCache.clear();
+  }
+  apiKeyCache.set(keyHash, { apiKey, checkedAt: Date.now() });
+};
+
+// Group api_key_permissions rows onto their keys
+const attachPermissions = (keys: ApiKeyRecord[], permissionRows: ApiKeyPermissionRecord[]): ApiKeyData[] => {
+  return keys.map(key => ({
+    ...key,
+    permissions: permissionRows
+      .filter(row => row.api_key_id === key.id)
+      .map(row => row.permission)
+      .filter(isValidPermission)
+  }));
+};
+
+export class ApiKey {
+  // Create a key and return the plain text value; it cannot be retrieved again later
+  static async create(data: NewApiKey): Promise<{ apiKey: ApiKeyData; key: string }> {
+    try {
+      const pool = await db.ensureConnection();
+      const prefix = `cib_${crypto.randomBytes(4).toString('hex')}`;
+      const key = `${prefix}.${generateOpaqueToken()}`;
+      const permissions = Array.from(new Set(data.permissions));
+
+      const request = pool.request()
+        .input('name', data.name)
+        .input('prefix', prefix)
+        .input('keyHash', hashToken(key))
+        .input('allowedIps', data.allowedIps && data.allowedIps.length > 0 ? data.allowedIps.join(',') : null)
+        .input('expiresAt', data.expiresAt || null)
+        .input('createdBy', data.createdBy);
+
+      const values = permissions.map((permission, index) => {
+        request.input(`permission${index}`, permission);
+        return `(@id, @permission${index})`;
+      });
+
+      const result = await request.query(`
+        BEGIN TRANSACTION;
+        DECLARE @id INT;
+        INSERT INTO api_keys (name, prefix, key_hash, allowed_ips, expires_at, created_by)
+        VALUES (@name, @prefix, @keyHash, @allowedIps, @expiresAt, @createdBy);
+        SET @id = SCOPE_IDENTITY();
+        ${values.length > 0 ? `INSERT INTO api_key_permissions (api_key_id, permission) VALUES ${values.join(', ')};` : ''}
+        COMMIT TRANSACTION;
+        SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = @id;
+      `);
+
+      return {
+        apiKey: { ...result.recordset[0], permissions },
+        key
+      };
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      throw error;
+    }
+  }
+
+  // List all keys, including revoked and expired ones, newest first
+  static async list(): Promise<ApiKeyData[]> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request().query<[ApiKeyRecord, ApiKeyPermissionRecord]>(`
+        SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at DESC;
+        SELECT api_key_id, permission FROM api_key_permissions;
+      `);
+
+      const [keys, permissionRows] = result.recordsets;
+      return attachPermissions(keys, permissionRows);
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      throw error;
+    }
+  }
+
+  // Revoke a key; requests using it are rejected from now on
+  static async revoke(id: number, revokedBy: number): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .input('revokedBy', revokedBy)
+        .query(`
+          UPDATE api_keys
+          SET revoked_at = GETDATE(), revoked_by = @revokedBy
+          OUTPUT inserted.key_hash
+          WHERE id = @id AND revoked_at IS NULL
+        `);
+
+      result.recordset.forEach(row => cacheApiKey(row.key_hash, null));
+      return result.recordset.length > 0;
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      throw error;
+    }
+  }
+
+  // Look up a presented key. Returns null for unknown, revoked or expired keys.
+  static async findActive(key: string): Promise<ApiKeyData | null> {
+    const keyHash = hashToken(key);
+    const cached = apiKeyCache.get(keyHash);
+    if (cached && Date.now() - cached.checkedAt < API_KEY_CACHE_TTL_MS) {
+      return cached.apiKey && ApiKey.isExpired(cached.apiKey) ? null : cached.apiKey;
+    }
+
+    try {
+      const pool = await db.getConnection();
+      // last_used_at is refreshed whenever the cache entry is, i.e. at most every 30 seconds per instance
+      const result = await pool.request()
+        .input('keyHash', keyHash)
+        .query<[ApiKeyRecord, ApiKeyPermissionRecord]>(`
+          UPDATE api_keys SET last_used_at = GETDATE()
+          OUTPUT ${API_KEY_COLUMNS.split(', ').map(column => `inserted.${column}`).join(', ')}
+          WHERE key_hash = @keyHash AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > GETDATE());
+          SELECT p.api_key_id, p.permission FROM api_key_permissions p
+          JOIN api_keys k ON k.id = p.api_key_id
+          WHERE k.key_hash = @keyHash;
+        `);
+
+      const [keys, permissionRows] = result.recordsets;
+      const apiKey = keys.length > 0 ? attachPermissions(keys, permissionRows)[0] : null;
+      cacheApiKey(keyHash, apiKey);
+      return apiKey;
+    } catch (error) {
+      console.error('Error looking up API key:', error);
+      throw error;
+    }
+  }
+
+  static isExpired(apiKey: ApiKeyData): boolean {
+    return !!apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now();
+  }
+
+  // Shape a key for API responses; the hash is never returned
+  static toResponse(apiKey: ApiKeyData) {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      permissions: apiKey.permissions,
+      allowedIps: apiKey.allowed_ips ? apiKey.allowed_ips.split(',') : [],
+      expiresAt: apiKey.expires_at,
+      createdBy: apiKey.created_by,
+      createdAt: apiKey.created_at,
+      lastUsedAt: apiKey.last_used_at,
+      revokedAt: apiKey.revoked_at,
+      status: apiKey.revoked_at ? 'revoked' : ApiKey.isExpired(apiKey) ? 'expired' : 'active'
+    };
+  }
+}
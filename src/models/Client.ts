@@ -1,5 +1,12 @@
 import db from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
+import { validate, isBlank, FieldError, ValidationMode } from '../utils/validation';
+import {
+  CLIENT_COLUMNS, CLIENT_SCHEMA, ClientColumnName, ClientQuery, ClientSort, DEFAULT_CLIENT_SORT,
+  DEFAULT_TRASH_SORT, canWriteColumn, isClientColumn
+} from './clientColumns';
+import { ClientFilterQuery } from './clientFilters';
+import { PolicyData } from './Policy';
 
 export interface ClientData {
   id?: string;
@@ -31,8 +38,6 @@ export interface ClientData {
   vat_fee_debit_note?: string;
   payment_receipt_proof?: string;
   ceilao_ib_file_no?: string;
-  main_class?: string;
-  insurer?: string;
   policyholder_doc?: string;
   policyholder_text?: string;
   vehicle_number_doc?: string;
@@ -51,33 +56,62 @@ export interface ClientData {
   payment_receipt_text?: string;
   nic_br_doc?: string;
   nic_br_text?: string;
-  policy_type?: string;
-  policy_no?: string;
-  policy_period_from?: string;
-  policy_period_to?: string;
-  coverage?: string;
-  sum_insured?: number;
-  basic_premium?: number;
-  srcc_premium?: number;
-  tc_premium?: number;
-  net_premium?: number;
-  stamp_duty?: number;
-  admin_fees?: number;
-  road_safety_fee?: number;
-  policy_fee?: number;
-  vat_fee?: number;
-  total_invoice?: number;
-  debit_note?: string;
-  payment_receipt?: string;
-  commission_type?: string;
-  commission_basic?: number;
-  commission_srcc?: number;
-  commission_tc?: number;
   sales_rep_id?: number;
-  policies?: number;
+  created_at?: Date;
+  updated_at?: Date | null;
+  deleted_at?: Date | null;
+  deleted_by?: number | null;
+  merged_into?: string | null;
 }
 
+// Keys the UI sends back with a record it loaded that are not client columns
+const NON_COLUMN_FIELDS = ['policies'];
+
 export class Client {
+  /**
+   * Check a request body or CSV row against the column registry. Returns the cleaned
+   * values and one error per bad field. Policy fields must be split off first.
+   * role is the caller's role, or undefined for API keys; search mode ignores it.
+   */
+  static fromInput(
+    input: Record<string, any>,
+    options: { mode: ValidationMode; role: string | undefined; unknownFields?: 'reject' | 'ignore' }
+  ): { data: Partial<ClientData>; errors: FieldError[] } {
+    const { mode, role, unknownFields = 'reject' } = options;
+    const accepted: Record<string, any> = {};
+    const accessErrors: FieldError[] = [];
+
+    Object.entries(input).forEach(([field, value]) => {
+      if (value === undefined || !isClientColumn(field)) {
+        // validate() reports unknown keys
+        accepted[field] = value;
+        return;
+      }
+
+      const column = CLIENT_COLUMNS[field];
+      if (mode === 'search') {
+        // Empty filters are ignored
+        if (!isBlank(value) && !column.searchable) {
+          accessErrors.push({ field, message: 'cannot be searched' });
+          return;
+        }
+      } else if (!column.spec) {
+        // Server-maintained columns echoed back by the UI are dropped
+        return;
+      } else if (mode === 'create' && isBlank(value)) {
+        // A blank value on create is the same as leaving the field out
+      } else if (!canWriteColumn(field, role) && !(column.spec.createOnly && mode === 'update')) {
+        accessErrors.push({ field, message: 'cannot be set by your role' });
+        return;
+      }
+
+      accepted[field] = value;
+    });
+
+    const { data, errors } = validate(CLIENT_SCHEMA, accepted, { mode, unknownFields, ignoredFields: NON_COLUMN_FIELDS });
+    return { data: data as Partial<ClientData>, errors: [...accessErrors, ...errors] };
+  }
+
   // Create a new client
   static async create(data: ClientData): Promise<string> {
     try {
@@ -85,27 +119,6 @@ export class Client {
       const pool = await db.ensureConnection();
       const clientId = data.id || `C${uuidv4().substring(0, 8)}`;
       
-      // Create a clean copy of data without undefined values and remove the id field
-      const cleanData: any = {};
-      Object.entries(data).forEach(([key, value]) => {
-        if (value !== undefined && key !== 'id') {
-          cleanData[key] = value;
-        }
-      });
-      
-      // Generate fields for the SQL query
-      const fields = Object.keys(cleanData).join(', ');
-      
-      // Generate parameter placeholders for SQL Server (@p1, @p2, etc.)
-      const paramNames = Object.keys(cleanData).map((_, i) => `@p${i + 2}`).join(', ');
-      const paramMap = Object.keys(cleanData).reduce((acc, key, i) => {
-        acc[`p${i + 2}`] = cleanData[key];
-        return acc;
-      }, {} as Record<string, any>);
-      
-      // Add clientId parameter
-      paramMap.p1 = clientId;
-      
       // Create a new request with retry logic
       let retries = 3;
       let lastError: Error | null = null;
@@ -113,15 +126,11 @@ export class Client {
       while (retries > 0) {
         try {
           const request = pool.request();
-          
-          // Add all parameters to the request
-          Object.entries(paramMap).forEach(([key, value]) => {
-            request.input(key, value);
-          });
+          const { columns, placeholders } = new ClientQuery(request).insert({ ...data, id: clientId });
           
           const query = `
-            INSERT INTO clients (id, ${fields}) 
-            VALUES (@p1, ${paramNames})
+            INSERT INTO clients (${columns}) 
+            VALUES (${placeholders})
           `;
           
           await request.query(query);
@@ -170,15 +179,18 @@ export class Client {
     }
   }
   
-  // Get a client by ID
-  static async getById(id: string): Promise<ClientData | null> {
+  // Get a client by ID. Clients in the trash are only returned when includeDeleted is set.
+  static async getById(id: string, options: { includeDeleted?: boolean } = {}): Promise<ClientData | null> {
     try {
       // Get a database connection with retry mechanism
       const pool = await db.getConnection();
       const request = pool.request();
       request.input('id', id);
       
-      const result = await request.query('SELECT * FROM clients WHERE id = @id');
+      const result = await request.query(`
+        SELECT * FROM clients WHERE id = @id
+        ${options.includeDeleted ? '' : 'AND deleted_at IS NULL'}
+      `);
       
       if (result.recordset.length === 0) {
         return null;
@@ -192,7 +204,7 @@ export class Client {
   }
   
   // Get all clients
-  static async getAll(limit: number = 100, offset: number = 0): Promise<ClientData[]> {
+  static async getAll(limit: number = 100, offset: number = 0, sort: ClientSort = DEFAULT_CLIENT_SORT): Promise<ClientData[]> {
     try {
       // Get a database connection with retry mechanism
       const pool = await db.getConnection();
@@ -203,7 +215,8 @@ export class Client {
       // T-SQL doesn't support LIMIT/OFFSET directly, we need to use ORDER BY with OFFSET-FETCH
       const result = await request.query(`
         SELECT * FROM clients 
-        ORDER BY created_at DESC 
+        WHERE deleted_at IS NULL
+        ${new ClientQuery(request).orderBy(sort)}
         OFFSET @offset ROWS 
         FETCH NEXT @limit ROWS ONLY
       `);
@@ -222,7 +235,7 @@ export class Client {
       const pool = await db.getConnection();
       const request = pool.request();
       
-      const result = await request.query('SELECT COUNT(*) as count FROM clients');
+      const result = await request.query('SELECT COUNT(*) as count FROM clients WHERE deleted_at IS NULL');
       
       return result.recordset[0].count;
     } catch (error) {
@@ -231,200 +244,407 @@ export class Client {
     }
   }
   
-  // Search clients with pagination support
-  static async searchWithPagination(searchTerm: string, limit: number = 100, offset: number = 0): Promise<ClientData[]> {
+  /**
+   * Update a client. With expectedUpdatedAt the update only applies if the row has not
+   * changed since that version was read, and returns false otherwise.
+   */
+  static async update(
+    id: string,
+    data: Partial<ClientData>,
+    options: { expectedUpdatedAt?: Date | null } = {}
+  ): Promise<boolean> {
     try {
-      // Get a database connection
-      const pool = await db.getConnection();
+      // Get a database connection with retry mechanism
+      const pool = await db.ensureConnection();
       const request = pool.request();
       
-      // Sanitize the search term
-      const searchPattern = `%${searchTerm.replace(/[%_[\]]/g, '\\$&')}%`;
+      // Only writable registry columns make it into the SET clause
+      const assignments = new ClientQuery(request).set(data);
+      if (assignments.length === 0) {
+        // No fields to update
+        return true;
+      }
       
-      request.input('searchPattern', searchPattern);
-      request.input('limit', limit);
-      request.input('offset', offset);
+      // Add id parameter
+      request.input('id', id);
       
-      const result = await request.query(`
-        SELECT * FROM clients 
-        WHERE client_name LIKE @searchPattern 
-        OR mobile_no LIKE @searchPattern
-        ORDER BY created_at DESC 
-        OFFSET @offset ROWS 
-        FETCH NEXT @limit ROWS ONLY
-      `);
+      let versionClause = '';
+      if (options.expectedUpdatedAt !== undefined) {
+        request.input('expectedUpdatedAt', options.expectedUpdatedAt);
+        versionClause = options.expectedUpdatedAt === null
+          ? ' AND updated_at IS NULL'
+          : ' AND updated_at = @expectedUpdatedAt';
+      }
       
-      return result.recordset;
+      // Don't add updated_at in the SET clause as it's specified manually
+      // Values are not logged; changes are recorded in the client audit log instead
+      const query = `UPDATE clients SET ${assignments.join(', ')}, updated_at = GETDATE() WHERE id = @id${versionClause}`;
+      const result = await request.query(query);
+      
+      return result.rowsAffected[0] > 0;
     } catch (error) {
-      console.error('Error searching clients with pagination:', error);
+      console.error('Error updating client:', error);
+      // Show more details about the error
+      if (error instanceof Error) {
+        console.error('Error details:', error.message);
+        if ('code' in error) {
+          console.error('SQL error code:', (error as any).code);
+        }
+        if ('number' in error) {
+          console.error('SQL error number:', (error as any).number);
+        }
+      }
       throw error;
     }
   }
   
-  // Get the total count of search results
-  static async getSearchResultCount(searchTerm: string): Promise<number> {
+  // Move a client to the trash. Returns false if it does not exist or is already there.
+  static async moveToTrash(id: string, deletedBy: number | null): Promise<boolean> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .input('deletedBy', deletedBy)
+        .query(`
+          UPDATE clients SET deleted_at = GETDATE(), deleted_by = @deletedBy, updated_at = GETDATE()
+          WHERE id = @id AND deleted_at IS NULL
+        `);
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error moving client to trash:', error);
+      throw error;
+    }
+  }
+
+  // Take a client out of the trash. Returns false if it is not in the trash.
+  static async restore(id: string): Promise<boolean> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query(`
+          UPDATE clients SET deleted_at = NULL, deleted_by = NULL, updated_at = GETDATE()
+          WHERE id = @id AND deleted_at IS NOT NULL
+        `);
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error restoring client:', error);
+      throw error;
+    }
+  }
+
+  // List clients in the trash, most recently deleted first unless sorted otherwise
+  static async getTrash(limit: number = 100, offset: number = 0, sort: ClientSort = DEFAULT_TRASH_SORT): Promise<ClientData[]> {
+    try {
+      const pool = await db.getConnection();
+      const request = pool.request()
+        .input('limit', limit)
+        .input('offset', offset);
+
+      const result = await request.query(`
+          SELECT * FROM clients
+          WHERE deleted_at IS NOT NULL
+          ${new ClientQuery(request).orderBy(sort)}
+          OFFSET @offset ROWS
+          FETCH NEXT @limit ROWS ONLY
+        `);
+
+      return result.recordset;
+    } catch (error) {
+      console.error('Error getting trashed clients:', error);
+      throw error;
+    }
+  }
+
+  static async getTrashCount(): Promise<number> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .query('SELECT COUNT(*) as count FROM clients WHERE deleted_at IS NOT NULL');
+
+      return result.recordset[0].count;
+    } catch (error) {
+      console.error('Error getting trashed client count:', error);
+      throw error;
+    }
+  }
+
+  // Permanently delete a client in the trash. Its policies go with it.
+  static async purge(id: string): Promise<boolean> {
     try {
-      // Get a database connection
       const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query('DELETE FROM clients WHERE id = @id AND deleted_at IS NOT NULL');
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error purging client:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Merge a duplicate into a surviving client in one transaction: save the survivor's
+   * merged values, move the duplicate's policies to it and move the duplicate to the
+   * trash marked with merged_into. Changes nothing and returns false if the survivor
+   * changed since expectedUpdatedAt or either client is no longer live.
+   */
+  static async merge(
+    survivorId: string,
+    duplicateId: string,
+    data: Partial<ClientData>,
+    options: { expectedUpdatedAt: Date | null; mergedBy: number | null }
+  ): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
       const request = pool.request();
+      const assignments = [...new ClientQuery(request).set(data), 'updated_at = GETDATE()'];
       
-      // Sanitize the search term
-      const searchPattern = `%${searchTerm.replace(/[%_[\]]/g, '\\$&')}%`;
-      
-      request.input('searchPattern', searchPattern);
+      request.input('survivorId', survivorId);
+      request.input('duplicateId', duplicateId);
+      request.input('mergedBy', options.mergedBy);
+      request.input('expectedUpdatedAt', options.expectedUpdatedAt);
+      const versionClause = options.expectedUpdatedAt === null
+        ? 'updated_at IS NULL'
+        : 'updated_at = @expectedUpdatedAt';
       
       const result = await request.query(`
-        SELECT COUNT(*) as count FROM clients 
-        WHERE client_name LIKE @searchPattern 
-        OR mobile_no LIKE @searchPattern
+        SET XACT_ABORT ON;
+        BEGIN TRANSACTION;
+        
+        UPDATE clients SET ${assignments.join(', ')}
+        WHERE id = @survivorId AND deleted_at IS NULL AND ${versionClause};
+        IF @@ROWCOUNT = 0
+        BEGIN
+          ROLLBACK TRANSACTION;
+          SELECT CAST(0 AS BIT) AS merged;
+          RETURN;
+        END
+        
+        UPDATE clients
+        SET deleted_at = GETDATE(), deleted_by = @mergedBy, merged_into = @survivorId, updated_at = GETDATE()
+        WHERE id = @duplicateId AND deleted_at IS NULL;
+        IF @@ROWCOUNT = 0
+        BEGIN
+          ROLLBACK TRANSACTION;
+          SELECT CAST(0 AS BIT) AS merged;
+          RETURN;
+        END
+        
+        UPDATE policies SET client_id = @survivorId, updated_at = GETDATE() WHERE client_id = @duplicateId;
+        
+        COMMIT TRANSACTION;
+        SELECT CAST(1 AS BIT) AS merged;
       `);
       
-      return result.recordset[0].count;
+      return result.recordset[0]?.merged === true;
     } catch (error) {
-      console.error('Error getting search result count:', error);
+      console.error('Error merging clients:', error);
       throw error;
     }
   }
   
-  // Update a client
-  static async update(id: string, data: Partial<ClientData>): Promise<boolean> {
+  // Search clients by various criteria. Policy fields match clients with at least one matching policy.
+  static async search(
+    criteria: Record<string, any>,
+    sort: ClientSort = DEFAULT_CLIENT_SORT,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<ClientData[]> {
     try {
-      console.log('Client.update called with ID:', id);
-      
-      // Create a clean copy of data without undefined values
-      const cleanData: any = {};
-      Object.entries(data).forEach(([key, value]) => {
-        if (value !== undefined) {
-          cleanData[key] = value;
-        }
-      });
-      
-      if (Object.keys(cleanData).length === 0) {
-        // No fields to update
-        console.log('No fields to update for client:', id);
-        return true;
-      }
-      
-      // Remove updated_at if it exists in the input data
-      // We will set it ourselves in the query
-      if ('updated_at' in cleanData) {
-        delete cleanData.updated_at;
-        console.log('Removed updated_at from input data, it will be set by the query');
-      }
-      
-      console.log('Getting database connection...');
       // Get a database connection with retry mechanism
-      const pool = await db.ensureConnection();
-      console.log('Database connection acquired successfully');
+      const pool = await db.getConnection();
       const request = pool.request();
+      const query = new ClientQuery(request);
+      request.input('limit', limit);
+      request.input('offset', offset);
       
-      // Create SET clause for SQL and add parameters
-      const setClause = Object.keys(cleanData)
-        .map((key, index) => {
-          const paramName = `p${index}`;
-          // Check for invalid column names or reserved SQL keywords
-          const safeKey = key.replace(/[^a-zA-Z0-9_]/g, '');
-          
-          // Add better error handling for parameter input
-          try {
-            request.input(paramName, cleanData[key]);
-          } catch (err) {
-            console.error(`Error adding parameter ${paramName} with value:`, cleanData[key]);
-            console.error('Parameter error:', err);
-            // Use a fallback empty string for problematic values
-            request.input(paramName, '');
-          }
-          
-          return `${safeKey} = @${paramName}`;
-        })
-        .join(', ');
+      // Only searchable registry columns and policy fields make it into the WHERE clause
+      const whereClauses = [...query.where(criteria), 'clients.deleted_at IS NULL'];
       
-      // Add id parameter
-      request.input('id', id);
+      const sql = `
+        SELECT * FROM clients 
+        WHERE ${whereClauses.join(' AND ')}
+        ${query.orderBy(sort)}
+        OFFSET @offset ROWS 
+        FETCH NEXT @limit ROWS ONLY
+      `;
       
-      // Don't add updated_at in the SET clause as it's specified manually
-      const query = `UPDATE clients SET ${setClause}, updated_at = GETDATE() WHERE id = @id`;
-      console.log('Update query:', query);
-      console.log('Update parameters:', JSON.stringify(cleanData, null, 2));
+      const result = await request.query(sql);
+      return result.recordset;
+    } catch (error) {
+      console.error('Error searching clients:', error);
+      throw error;
+    }
+  }
+  
+  // Get the total count of clients matching search criteria
+  static async getSearchCount(criteria: Record<string, any>): Promise<number> {
+    try {
+      const pool = await db.getConnection();
+      const request = pool.request();
+      const whereClauses = [...new ClientQuery(request).where(criteria), 'clients.deleted_at IS NULL'];
       
-      const result = await request.query(query);
-      console.log('Update result:', JSON.stringify(result, null, 2));
+      const result = await request.query(`
+        SELECT COUNT(*) as count FROM clients 
+        WHERE ${whereClauses.join(' AND ')}
+      `);
       
-      return result.rowsAffected[0] > 0;
+      return result.recordset[0].count;
     } catch (error) {
-      console.error('Error updating client:', error);
-      // Show more details about the error
-      if (error instanceof Error) {
-        console.error('Error details:', error.message);
-        if ('code' in error) {
-          console.error('SQL error code:', (error as any).code);
-        }
-        if ('number' in error) {
-          console.error('SQL error number:', (error as any).number);
-        }
-      }
+      console.error('Error counting client search results:', error);
       throw error;
     }
   }
   
-  // Delete a client
-  static async delete(id: string): Promise<boolean> {
+  /**
+   * Structured search with filters, sorting, field selection and paging. With policyFields
+   * each client is returned with the policies that matched the policy filters.
+   */
+  static async query(
+    filterQuery: ClientFilterQuery
+  ): Promise<{ clients: Array<Partial<ClientData> & { policies?: Partial<PolicyData>[] }>; totalCount: number }> {
     try {
-      // Get a database connection with retry mechanism
       const pool = await db.getConnection();
-      const request = pool.request();
-      request.input('id', id);
+      const pageRequest = pool.request();
+      const countRequest = pool.request();
+      const page = new ClientQuery(pageRequest);
+      
+      const whereClause = (query: ClientQuery) => {
+        return [
+          ...query.filter(filterQuery.filters),
+          ...query.listSearch(filterQuery.search),
+          'clients.deleted_at IS NULL'
+        ].join(' AND ');
+      };
+      
+      pageRequest.input('limit', filterQuery.limit);
+      pageRequest.input('offset', filterQuery.offset);
+      
+      const [pageResult, countResult] = await Promise.all([
+        pageRequest.query(`
+          SELECT ${page.select(filterQuery.fields)} FROM clients 
+          WHERE ${whereClause(page)}
+          ${page.orderBy(filterQuery.sort)}
+          OFFSET @offset ROWS 
+          FETCH NEXT @limit ROWS ONLY
+        `),
+        countRequest.query(`
+          SELECT COUNT(*) as count FROM clients 
+          WHERE ${whereClause(new ClientQuery(countRequest))}
+        `)
+      ]);
+      
+      const clients: Array<Partial<ClientData> & { policies?: Partial<PolicyData>[] }> = pageResult.recordset;
+      
+      if (filterQuery.policyFields && clients.length > 0) {
+        const policyRequest = pool.request();
+        const query = new ClientQuery(policyRequest);
+        const conditions = [
+          `p.client_id IN (${clients.map(client => query.param(client.id)).join(', ')})`,
+          ...query.policyConditions(filterQuery.filters)
+        ];
+        
+        const policyResult = await policyRequest.query(`
+          SELECT ${query.selectPolicies(filterQuery.policyFields)} FROM policies p 
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY p.id
+        `);
+        
+        const byClient = new Map<string, Partial<PolicyData>[]>();
+        policyResult.recordset.forEach(({ client_id, ...policy }: PolicyData) => {
+          byClient.set(client_id!, [...(byClient.get(client_id!) || []), policy]);
+        });
+        clients.forEach(client => {
+          client.policies = byClient.get(client.id!) || [];
+        });
+      }
       
-      const result = await request.query('DELETE FROM clients WHERE id = @id');
-      return result.rowsAffected[0] > 0;
+      return { clients, totalCount: countResult.recordset[0].count };
     } catch (error) {
-      console.error('Error deleting client:', error);
+      console.error('Error querying clients:', error);
       throw error;
     }
   }
   
-  // Search clients by various criteria
-  static async search(criteria: Partial<ClientData>): Promise<ClientData[]> {
+  /**
+   * Stream the clients matching a structured query, without paging or holding them in
+   * memory. Rows hold the chosen client columns and, with policy fields, the policy
+   * columns named by policyColumnName(): one row per policy that matched the policy
+   * filters, or a single row without policy values for a client that has none. When
+   * onRow returns a promise the query pauses until it settles. Resolves with the
+   * number of rows.
+   */
+  static async stream(
+    filterQuery: Omit<ClientFilterQuery, 'limit' | 'offset'> & { fields: ClientColumnName[] },
+    onRow: (row: Record<string, unknown>) => void | Promise<void>
+  ): Promise<number> {
     try {
-      // Get a database connection with retry mechanism
       const pool = await db.getConnection();
       const request = pool.request();
-      
-      // Build WHERE clauses
-      const whereClauses: string[] = [];
-      let paramIndex = 0;
-      
-      Object.entries(criteria).forEach(([key, value]) => {
-        if (value !== undefined && value !== null && value !== '') {
-          const paramName = `p${paramIndex++}`;
-          const safeKey = key.replace(/[^a-zA-Z0-9_]/g, '');
-          
-          if (typeof value === 'string') {
-            // For string values, use LIKE for partial matching
-            whereClauses.push(`${safeKey} LIKE @${paramName}`);
-            request.input(paramName, `%${value}%`);
-          } else {
-            // For other types (number, boolean), use exact matching
-            whereClauses.push(`${safeKey} = @${paramName}`);
-            request.input(paramName, value);
-          }
-        }
-      });
-      
-      const whereClause = whereClauses.length > 0 
-        ? `WHERE ${whereClauses.join(' AND ')}`
+      const query = new ClientQuery(request);
+      const policyFields = filterQuery.policyFields || [];
+      
+      const conditions = [
+        ...query.filter(filterQuery.filters),
+        ...query.listSearch(filterQuery.search),
+        'clients.deleted_at IS NULL'
+      ];
+      const policyJoin = policyFields.length > 0
+        ? `LEFT JOIN policies p ON ${['p.client_id = clients.id', ...query.policyConditions(filterQuery.filters)].join(' AND ')}`
         : '';
-      
-      const query = `
-        SELECT * FROM clients 
-        ${whereClause}
-        ORDER BY created_at DESC
+      const select = policyFields.length > 0
+        ? `${query.select(filterQuery.fields)}, ${query.selectPolicyColumns(policyFields)}`
+        : query.select(filterQuery.fields);
+      
+      const sql = `
+        SELECT ${select} FROM clients
+        ${policyJoin}
+        WHERE ${conditions.join(' AND ')}
+        ${query.orderBy(filterQuery.sort)}${policyFields.length > 0 ? ', p.id' : ''}
       `;
       
-      const result = await request.query(query);
-      return result.recordset;
+      request.stream = true;
+      return await new Promise<number>((resolve, reject) => {
+        let count = 0;
+        let failed = false;
+        const fail = (error: unknown) => {
+          if (!failed) {
+            failed = true;
+            request.cancel();
+            reject(error);
+          }
+        };
+        
+        request.on('row', (row: Record<string, unknown>) => {
+          if (failed) {
+            return;
+          }
+          count++;
+          let pending: void | Promise<void>;
+          try {
+            pending = onRow(row);
+          } catch (error) {
+            return fail(error);
+          }
+          if (pending) {
+            request.pause();
+            pending.then(() => request.resume(), fail);
+          }
+        });
+        request.on('error', fail);
+        request.on('done', () => {
+          if (!failed) {
+            resolve(count);
+          }
+        });
+        request.query(sql);
+      });
     } catch (error) {
-      console.error('Error searching clients:', error);
+      console.error('Error streaming clients:', error);
       throw error;
     }
   }
@@ -439,7 +659,7 @@ export class Client {
       
       const result = await request.query(`
         SELECT * FROM clients 
-        WHERE sales_rep_id = @salesRepId
+        WHERE sales_rep_id = @salesRepId AND deleted_at IS NULL
         ORDER BY created_at DESC
       `);
       
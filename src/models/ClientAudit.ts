@@ -0,0 +1,245 @@
+import db from '../config/database';
+
+export type AuditEntity = 'client' | 'policy';
+// delete moves a client to the trash; purge removes it for good; merge folds a duplicate into another client
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'merge';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'purge', 'merge'];
+
+// Who made a change. Exactly one of userId and apiKeyId is set for requests.
+export interface AuditActor {
+  userId: number | null;
+  apiKeyId: number | null;
+  impersonatorId: number | null;
+  ipAddress: string | null;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ClientAuditEntry {
+  id: number;
+  client_id: string;
+  entity: AuditEntity;
+  entity_id: string;
+  action: AuditAction;
+  user_id: number | null;
+  api_key_id: number | null;
+  impersonator_id: number | null;
+  ip_address: string | null;
+  created_at: Date;
+  changes: FieldChange[];
+}
+
+export interface ClientAuditFilters {
+  clientId?: string;
+  userId?: number;
+  field?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// A stored field change, its values as JSON
+interface AuditChangeRecord {
+  audit_id: number;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+// Bookkeeping columns that change on every write and are not worth recording
+const IGNORED_FIELDS = ['id', 'client_id', 'created_at', 'updated_at'];
+
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value;
+};
+
+const parseValue = (value: string | null): unknown => {
+  if (value === null) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export class ClientAudit {
+  /**
+   * Field-level differences between two versions of a row. Pass null for the
+   * missing side when a row was created or deleted.
+   */
+  static diff(before: Record<string, any> | null, after: Record<string, any> | null): FieldChange[] {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    return Array.from(fields)
+      .filter(field => !IGNORED_FIELDS.includes(field))
+      .sort()
+      .map(field => ({
+        field,
+        before: normalizeValue(before?.[field]),
+        after: normalizeValue(after?.[field])
+      }))
+      .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+  }
+
+  // Store an audit entry with its field changes. Updates that changed nothing are not stored.
+  static async record(entry: {
+    clientId: string;
+    entity: AuditEntity;
+    entityId: string | number;
+    action: AuditAction;
+    actor: AuditActor;
+    changes: FieldChange[];
+  }): Promise<void> {
+    if (entry.action === 'update' && entry.changes.length === 0) {
+      return;
+    }
+
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request()
+        .input('clientId', entry.clientId)
+        .input('entity', entry.entity)
+        .input('entityId', String(entry.entityId))
+        .input('action', entry.action)
+        .input('userId', entry.actor.userId)
+        .input('apiKeyId', entry.actor.apiKeyId)
+        .input('impersonatorId', entry.actor.impersonatorId)
+        .input('ipAddress', entry.actor.ipAddress?.substring(0, 64) || null);
+
+      const values = entry.changes.map((change, index) => {
+        request.input(`field${index}`, change.field);
+        request.input(`before${index}`, change.before === null ? null : JSON.stringify(change.before));
+        request.input(`after${index}`, change.after === null ? null : JSON.stringify(change.after));
+        return `(@auditId, @field${index}, @before${index}, @after${index})`;
+      });
+
+      await request.query(`
+        SET XACT_ABORT ON;
+        BEGIN TRANSACTION;
+        INSERT INTO client_audit_log (client_id, entity, entity_id, action, user_id, api_key_id, impersonator_id, ip_address)
+        VALUES (@clientId, @entity, @entityId, @action, @userId, @apiKeyId, @impersonatorId, @ipAddress);
+        DECLARE @auditId BIGINT = SCOPE_IDENTITY();
+        ${values.length > 0 ? `INSERT INTO client_audit_changes (audit_id, field, old_value, new_value) VALUES ${values.join(', ')};` : ''}
+        COMMIT TRANSACTION;
+      `);
+    } catch (error) {
+      console.error('Error recording client audit entry:', error);
+      throw error;
+    }
+  }
+
+  // Search the audit log, newest first, with the total count for pagination
+  static async search(filters: ClientAuditFilters = {}): Promise<{ entries: ClientAuditEntry[]; totalCount: number }> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request();
+      const whereClauses: string[] = [];
+
+      if (filters.clientId) {
+        whereClauses.push('a.client_id = @clientId');
+        request.input('clientId', filters.clientId);
+      }
+
+      if (filters.userId !== undefined) {
+        whereClauses.push('a.user_id = @userId');
+        request.input('userId', filters.userId);
+      }
+
+      if (filters.action) {
+        whereClauses.push('a.action = @action');
+        request.input('action', filters.action);
+      }
+
+      if (filters.field) {
+        whereClauses.push('EXISTS (SELECT 1 FROM client_audit_changes c WHERE c.audit_id = a.id AND c.field = @field)');
+        request.input('field', filters.field);
+      }
+
+      if (filters.from) {
+        whereClauses.push('a.created_at >= @from');
+        request.input('from', filters.from);
+      }
+
+      if (filters.to) {
+        whereClauses.push('a.created_at <= @to');
+        request.input('to', filters.to);
+      }
+
+      request.input('limit', filters.limit ?? 100);
+      request.input('offset', filters.offset ?? 0);
+
+      const whereClause = whereClauses.length > 0
+        ? `WHERE ${whereClauses.join(' AND ')}`
+        : '';
+
+      const result = await request.query<[Omit<ClientAuditEntry, 'changes'>, AuditChangeRecord, { count: number }]>(`
+        SELECT a.id, a.client_id, a.entity, a.entity_id, a.action, a.user_id, a.api_key_id,
+               a.impersonator_id, a.ip_address, a.created_at
+        INTO #page
+        FROM client_audit_log a
+        ${whereClause}
+        ORDER BY a.created_at DESC, a.id DESC
+        OFFSET @offset ROWS
+        FETCH NEXT @limit ROWS ONLY;
+
+        SELECT * FROM #page ORDER BY created_at DESC, id DESC;
+        SELECT c.audit_id, c.field, c.old_value, c.new_value
+        FROM client_audit_changes c
+        INNER JOIN #page p ON p.id = c.audit_id
+        ORDER BY c.audit_id, c.field;
+        SELECT COUNT(*) AS count FROM client_audit_log a ${whereClause};
+
+        DROP TABLE #page;
+      `);
+
+      const [entries, changes, count] = result.recordsets;
+      const changesByEntry = new Map<string, FieldChange[]>();
+      for (const row of changes) {
+        const key = String(row.audit_id);
+        const entryChanges = changesByEntry.get(key) || [];
+        entryChanges.push({ field: row.field, before: parseValue(row.old_value), after: parseValue(row.new_value) });
+        changesByEntry.set(key, entryChanges);
+      }
+
+      return {
+        entries: entries.map(entry => ({ ...entry, changes: changesByEntry.get(String(entry.id)) || [] })),
+        totalCount: count[0].count
+      };
+    } catch (error) {
+      console.error('Error searching client audit log:', error);
+      throw error;
+    }
+  }
+
+  // Shape an audit entry for API responses
+  static toResponse(entry: ClientAuditEntry) {
+    return {
+      id: Number(entry.id),
+      clientId: entry.client_id,
+      entity: entry.entity,
+      entityId: entry.entity_id,
+      action: entry.action,
+      userId: entry.user_id,
+      apiKeyId: entry.api_key_id,
+      impersonatorId: entry.impersonator_id,
+      ipAddress: entry.ip_address,
+      createdAt: entry.created_at,
+      changes: entry.changes
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { DuplicateClientSummary, scoreDuplicate } from './ClientDuplicates';
+
+// The pool connects as soon as it is imported
+jest.mock('../config/database', () => ({ __esModule: true, default: {} }));
+
+const client = (values: Partial<DuplicateClientSummary>): DuplicateClientSummary => ({
+  id: 'C1',
+  client_name: 'Jane Perera',
+  customer_type: 'Individual',
+  mobile_no: '',
+  ...values
+});
+
+describe('scoreDuplicate', () => {
+  it('adds up shared NIC, mobile, email and name', () => {
+    const candidate = scoreDuplicate(
+      client({ nic_br_text: '901234567V', mobile_no: '+94 77 123 4567', email: 'Jane@Example.com' }),
+      client({ id: 'C2', nic_br_text: '90123-4567v', mobile_no: '0771234567', email: 'jane@example.com ' })
+    );
+    expect(candidate.matches).toEqual({ nic: 'same', mobile: true, email: true, name: 1 });
+    expect(candidate.score).toBe(100);
+  });
+
+  it('counts a different NIC against the pair', () => {
+    const candidate = scoreDuplicate(
+      client({ nic_br_text: '901234567V', mobile_no: '0771234567' }),
+      client({ id: 'C2', nic_br_text: '851234567V', mobile_no: '0771234567' })
+    );
+    expect(candidate.matches.nic).toBe('different');
+    expect(candidate.score).toBe(25 - 30 + 30);
+  });
+
+  it('ignores names that are not alike and missing values', () => {
+    const candidate = scoreDuplicate(client({ client_name: 'Jane Perera' }), client({ id: 'C2', client_name: 'Nimal Silva' }));
+    expect(candidate.matches).toEqual({ nic: null, mobile: false, email: false, name: expect.any(Number) });
+    expect(candidate.score).toBe(0);
+  });
+
+  it('tolerates typos in names', () => {
+    const candidate = scoreDuplicate(client({ client_name: 'Jane Perera' }), client({ id: 'C2', client_name: 'Jane Pereira' }));
+    expect(candidate.matches.name).toBeGreaterThan(0.6);
+    expect(candidate.score).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,238 @@
+import db from '../config/database';
+import type { ClientData } from './Client';
+import { normalizedTerm } from './ClientSearch';
+import { compactPhone, compactText, nameSimilarity } from '../utils/searchText';
+
+// Points each kind of evidence adds to a pair's score, which is capped at 100
+const NIC_MATCH = 50;
+const NIC_MISMATCH = -30;
+const MOBILE_MATCH = 25;
+const EMAIL_MATCH = 20;
+const NAME_WEIGHT = 30;
+// Names less alike than this add nothing
+const MIN_NAME_SIMILARITY = 0.6;
+
+// Candidate pairs looked at per request, so a phone number shared by hundreds of clients cannot stall it
+const MAX_CANDIDATE_PAIRS = 5000;
+
+// Existing clients reported per new client
+const MAX_MATCHES_PER_CLIENT = 5;
+
+// Search document fields two clients must share a value in to be compared
+const BLOCKING_FIELDS = ['nic_br_text', 'mobile_no', 'email', 'client_name'] as const;
+
+// Points a shared value of each blocking field is worth, for ranking pairs before they are scored
+const BLOCKING_POINTS: Record<typeof BLOCKING_FIELDS[number], number> = {
+  nic_br_text: NIC_MATCH,
+  mobile_no: MOBILE_MATCH,
+  email: EMAIL_MATCH,
+  client_name: NAME_WEIGHT
+};
+
+export const DEFAULT_MIN_DUPLICATE_SCORE = 50;
+
+const SUMMARY_COLUMNS = [
+  'id', 'client_name', 'customer_type', 'nic_br_text', 'mobile_no', 'email', 'created_at', 'updated_at'
+] as const;
+
+export type DuplicateClientSummary = Pick<ClientData, typeof SUMMARY_COLUMNS[number]>;
+
+export interface DuplicateCandidate {
+  clients: [DuplicateClientSummary, DuplicateClientSummary];
+  score: number;
+  matches: {
+    nic: 'same' | 'different' | null;
+    mobile: boolean;
+    email: boolean;
+    // 0 to 1
+    name: number;
+  };
+}
+
+const same = (first: string | undefined, second: string | undefined, normalize: (value: string) => string): boolean | null => {
+  const a = first ? normalize(first) : '';
+  const b = second ? normalize(second) : '';
+  return a === '' || b === '' ? null : a === b;
+};
+
+// Score how likely two clients are the same customer
+export const scoreDuplicate = (first: DuplicateClientSummary, second: DuplicateClientSummary): DuplicateCandidate => {
+  const nic = same(first.nic_br_text, second.nic_br_text, value => compactText(value).text);
+  const mobile = same(first.mobile_no, second.mobile_no, value => compactPhone(value).text) === true;
+  const email = same(first.email, second.email, value => value.trim().toLowerCase()) === true;
+  const name = nameSimilarity(first.client_name || '', second.client_name || '');
+
+  let score = 0;
+  if (nic !== null) {
+    score += nic ? NIC_MATCH : NIC_MISMATCH;
+  }
+  if (mobile) {
+    score += MOBILE_MATCH;
+  }
+  if (email) {
+    score += EMAIL_MATCH;
+  }
+  if (name >= MIN_NAME_SIMILARITY) {
+    score += Math.round(NAME_WEIGHT * name);
+  }
+
+  return {
+    clients: [first, second],
+    score: Math.max(0, Math.min(100, score)),
+    matches: {
+      nic: nic === null ? null : nic ? 'same' : 'different',
+      mobile,
+      email,
+      name: Math.round(name * 100) / 100
+    }
+  };
+};
+
+export class ClientDuplicates {
+  /**
+   * Pairs of live clients that are probably the same customer, best first. Only clients
+   * sharing a normalized NIC, mobile number, email or name in their search documents are
+   * compared, then scored on all four. With clientId only pairs including it are returned.
+   * At most MAX_CANDIDATE_PAIRS pairs are scored, those sharing the strongest evidence
+   * first; truncated says some were left out, and totalCount then counts only those scored.
+   */
+  static async find(options: {
+    clientId?: string;
+    minScore?: number;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<{ candidates: DuplicateCandidate[]; totalCount: number; truncated: boolean }> {
+    const { clientId, minScore = DEFAULT_MIN_DUPLICATE_SCORE, limit = 50, offset = 0 } = options;
+
+    try {
+      const pool = await db.getConnection();
+      const pairRequest = pool.request().input('maxPairs', MAX_CANDIDATE_PAIRS);
+      if (clientId) {
+        pairRequest.input('clientId', clientId);
+      }
+
+      // One pair more than is scored tells whether any were left out
+      const pairResult = await pairRequest.query(`
+        SELECT TOP (@maxPairs + 1) a.client_id AS first_id, b.client_id AS second_id
+        FROM client_search_terms a
+        INNER JOIN client_search_terms b
+          ON b.field = a.field AND b.normalized = a.normalized AND b.client_id > a.client_id AND b.policy_id IS NULL
+        INNER JOIN clients ca ON ca.id = a.client_id AND ca.deleted_at IS NULL
+        INNER JOIN clients cb ON cb.id = b.client_id AND cb.deleted_at IS NULL
+        WHERE a.policy_id IS NULL
+        AND a.field IN (${BLOCKING_FIELDS.map(field => `'${field}'`).join(', ')})
+        ${clientId ? 'AND (a.client_id = @clientId OR b.client_id = @clientId)' : ''}
+        GROUP BY a.client_id, b.client_id
+        ORDER BY SUM(CASE a.field ${BLOCKING_FIELDS.map(field => `WHEN '${field}' THEN ${BLOCKING_POINTS[field]}`).join(' ')} END) DESC,
+          a.client_id, b.client_id
+      `);
+
+      const truncated = pairResult.recordset.length > MAX_CANDIDATE_PAIRS;
+      const pairs: Array<{ first_id: string; second_id: string }> = pairResult.recordset.slice(0, MAX_CANDIDATE_PAIRS);
+      const clients = await ClientDuplicates.summaries(pairs.flatMap(pair => [pair.first_id, pair.second_id]));
+
+      const candidates = pairs
+        .filter(pair => clients.has(pair.first_id) && clients.has(pair.second_id))
+        .map(pair => scoreDuplicate(clients.get(pair.first_id)!, clients.get(pair.second_id)!))
+        .filter(candidate => candidate.score >= minScore)
+        .sort((a, b) => b.score - a.score);
+
+      return { candidates: candidates.slice(offset, offset + limit), totalCount: candidates.length, truncated };
+    } catch (error) {
+      console.error('Error finding duplicate clients:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Live clients that are probably the same customer as each of the given clients, which
+   * need not be saved yet, best first. Blocked and scored as in find(). Keys of the result
+   * are indexes into clients; clients without matches are left out.
+   */
+  static async findMatches(
+    clients: DuplicateClientSummary[],
+    minScore: number = DEFAULT_MIN_DUPLICATE_SCORE
+  ): Promise<Map<number, DuplicateCandidate[]>> {
+    try {
+      const pool = await db.getConnection();
+      // Normalized value of each blocking field, to the indexes of the clients that have it
+      const keys = new Map<string, Map<string, number[]>>();
+      clients.forEach((client, index) => {
+        BLOCKING_FIELDS.forEach(field => {
+          const normalized = normalizedTerm(field, client[field]);
+          if (normalized) {
+            const values = keys.get(field) || new Map<string, number[]>();
+            values.set(normalized, [...(values.get(normalized) || []), index]);
+            keys.set(field, values);
+          }
+        });
+      });
+
+      const candidateIds = new Map<number, Set<string>>();
+      for (const [field, values] of keys) {
+        const normalizedValues = Array.from(values.keys());
+        for (let i = 0; i < normalizedValues.length; i += 1000) {
+          const request = pool.request().input('field', field);
+          const placeholders = normalizedValues.slice(i, i + 1000).map((value, index) => {
+            request.input(`value${index}`, value);
+            return `@value${index}`;
+          });
+
+          const result = await request.query(`
+            SELECT DISTINCT t.client_id, t.normalized
+            FROM client_search_terms t
+            INNER JOIN clients c ON c.id = t.client_id AND c.deleted_at IS NULL
+            WHERE t.policy_id IS NULL AND t.field = @field AND t.normalized IN (${placeholders.join(', ')})
+          `);
+
+          result.recordset.forEach((term: { client_id: string; normalized: string }) => {
+            (values.get(term.normalized) || []).forEach(index => {
+              candidateIds.set(index, (candidateIds.get(index) || new Set<string>()).add(term.client_id));
+            });
+          });
+        }
+      }
+
+      const existing = await ClientDuplicates.summaries(Array.from(candidateIds.values()).flatMap(ids => Array.from(ids)));
+      const matches = new Map<number, DuplicateCandidate[]>();
+      candidateIds.forEach((ids, index) => {
+        const candidates = Array.from(ids)
+          .filter(id => existing.has(id))
+          .map(id => scoreDuplicate(clients[index], existing.get(id)!))
+          .filter(candidate => candidate.score >= minScore)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_MATCHES_PER_CLIENT);
+        if (candidates.length > 0) {
+          matches.set(index, candidates);
+        }
+      });
+
+      return matches;
+    } catch (error) {
+      console.error('Error matching clients against existing clients:', error);
+      throw error;
+    }
+  }
+
+  private static async summaries(ids: string[]): Promise<Map<string, DuplicateClientSummary>> {
+    const summaries = new Map<string, DuplicateClientSummary>();
+    const unique = Array.from(new Set(ids));
+    const pool = await db.getConnection();
+
+    // Stay well under the 2100 parameters SQL Server allows per request
+    for (let i = 0; i < unique.length; i += 1000) {
+      const request = pool.request();
+      const placeholders = unique.slice(i, i + 1000).map((id, index) => {
+        request.input(`id${index}`, id);
+        return `@id${index}`;
+      });
+
+      const result = await request.query(`
+        SELECT ${SUMMARY_COLUMNS.join(', ')} FROM clients WHERE id IN (${placeholders.join(', ')})
+      `);
+      result.recordset.forEach((client: DuplicateClientSummary) => summaries.set(client.id!, client));
+    }
+
+    return summaries;
+  }
+}
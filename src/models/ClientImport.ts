@@ -0,0 +1,238 @@
+import db from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import type { ClientData } from './Client';
+import type { PolicyData } from './Policy';
+
+export const CLIENT_IMPORT_TTL_HOURS = Number(process.env.CLIENT_IMPORT_TTL_HOURS) || 24;
+
+// A commit that has saved no progress for this long is taken to have died, and can be claimed again
+export const CLIENT_IMPORT_STALE_MINUTES = Number(process.env.CLIENT_IMPORT_STALE_MINUTES) || 10;
+
+// What rows are matched on to find the client they update; nic is nic_br_text
+export const IMPORT_MATCH_KEYS = ['policy_no', 'ceilao_ib_file_no', 'nic'] as const;
+export type ImportMatchKey = typeof IMPORT_MATCH_KEYS[number];
+
+// Field holding each match key
+export const IMPORT_MATCH_FIELDS: Record<ImportMatchKey, 'policy_no' | 'ceilao_ib_file_no' | 'nic_br_text'> = {
+  policy_no: 'policy_no',
+  ceilao_ib_file_no: 'ceilao_ib_file_no',
+  nic: 'nic_br_text'
+};
+
+/**
+ * insert - create rows that match no client and skip the rest
+ * update - update the clients rows match and skip the rest
+ * upsert - update the clients rows match and create the rest
+ */
+export const IMPORT_MODES = ['insert', 'update', 'upsert'] as const;
+export type ImportMode = typeof IMPORT_MODES[number];
+
+export interface ImportOptions {
+  // Without a key every row is created
+  matchOn: ImportMatchKey | null;
+  mode: ImportMode;
+}
+
+// How many rows of an import were written each way
+export interface ImportCounts {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+// A CSV row that passed validation, as it will be inserted
+export interface ImportRow {
+  // Line in the file; line 1 is the header
+  row: number;
+  client: ClientData;
+  policy: Partial<PolicyData>;
+}
+
+// Who uploaded an import. Only they can commit it.
+export interface ImportOwner {
+  userId: number | null;
+  apiKeyId: number | null;
+}
+
+export type ClaimImportResult =
+  // rows leaves out those an earlier attempt wrote; counts are what it wrote
+  | { status: 'claimed'; rows: ImportRow[]; options: ImportOptions; processedRows: number; counts: ImportCounts }
+  | { status: 'not_found' }
+  // The import updates clients and the caller may not
+  | { status: 'update_not_allowed' }
+  | { status: 'expired' }
+  // Another request is committing it
+  | { status: 'in_progress' }
+  | { status: 'already_committed' };
+
+// Row OUTPUT by a successful claim
+interface ClaimedImportRecord {
+  row_data: string;
+  match_on: ImportMatchKey | null;
+  mode: ImportMode;
+  processed_rows: number;
+  created_count: number | null;
+  updated_count: number | null;
+  skipped_count: number | null;
+  failed_count: number | null;
+}
+
+// State of the import, read to say why it could not be claimed
+interface ImportStateRecord {
+  status: string;
+  mode: ImportMode;
+  expired: 0 | 1;
+}
+
+const ownerCondition = 'ISNULL(user_id, -1) = ISNULL(@userId, -1) AND ISNULL(api_key_id, -1) = ISNULL(@apiKeyId, -1)';
+
+export class ClientImport {
+  // Keep the valid rows of a dry run until they are committed or expire
+  static async create(
+    owner: ImportOwner,
+    details: { fileName: string | null; totalRows: number; rows: ImportRow[]; options: ImportOptions }
+  ): Promise<{ id: string; expiresAt: Date }> {
+    try {
+      const pool = await db.ensureConnection();
+      const id = uuidv4();
+      const expiresAt = new Date(Date.now() + CLIENT_IMPORT_TTL_HOURS * 60 * 60 * 1000);
+
+      await pool.request()
+        .input('id', id)
+        .input('userId', owner.userId)
+        .input('apiKeyId', owner.apiKeyId)
+        .input('fileName', details.fileName ? details.fileName.substring(0, 255) : null)
+        .input('totalRows', details.totalRows)
+        .input('validRows', details.rows.length)
+        .input('rowData', JSON.stringify(details.rows))
+        .input('expiresAt', expiresAt)
+        .input('matchOn', details.options.matchOn)
+        .input('mode', details.options.mode)
+        .query(`
+          DELETE FROM client_imports WHERE expires_at < GETDATE();
+          INSERT INTO client_imports (id, user_id, api_key_id, file_name, total_rows, valid_rows, row_data, expires_at, match_on, mode)
+          VALUES (@id, @userId, @apiKeyId, @fileName, @totalRows, @validRows, @rowData, @expiresAt, @matchOn, @mode);
+        `);
+
+      return { id, expiresAt };
+    } catch (error) {
+      console.error('Error saving client import:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a pending import of the owner for committing, or one whose commit stopped saving
+   * progress CLIENT_IMPORT_STALE_MINUTES ago. Claiming is atomic, so an import is never
+   * committed twice, even by two requests at once. Without allowUpdates only imports that
+   * create clients alone can be claimed.
+   */
+  static async claim(id: string, owner: ImportOwner, options: { allowUpdates: boolean }): Promise<ClaimImportResult> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .input('userId', owner.userId)
+        .input('apiKeyId', owner.apiKeyId)
+        .input('allowUpdates', options.allowUpdates)
+        .input('staleMinutes', CLIENT_IMPORT_STALE_MINUTES)
+        .query<[ClaimedImportRecord, ImportStateRecord]>(`
+          UPDATE client_imports SET status = 'committing', progress_at = GETDATE()
+          OUTPUT inserted.row_data, inserted.match_on, inserted.mode, inserted.processed_rows,
+            inserted.created_count, inserted.updated_count, inserted.skipped_count, inserted.failed_count
+          WHERE id = @id AND ${ownerCondition} AND expires_at > GETDATE()
+            AND (status = 'pending' OR (status = 'committing' AND progress_at < DATEADD(MINUTE, -@staleMinutes, GETDATE())))
+            AND (@allowUpdates = 1 OR mode = 'insert');
+
+          SELECT status, mode, CASE WHEN expires_at > GETDATE() THEN 0 ELSE 1 END AS expired
+          FROM client_imports
+          WHERE id = @id AND ${ownerCondition};
+        `);
+
+      const claimed: ClaimedImportRecord | undefined = result.recordsets[0][0];
+      if (claimed) {
+        const rows: ImportRow[] = JSON.parse(claimed.row_data);
+        return {
+          status: 'claimed',
+          rows: rows.slice(claimed.processed_rows),
+          options: { matchOn: claimed.match_on, mode: claimed.mode },
+          processedRows: claimed.processed_rows,
+          counts: {
+            inserted: claimed.created_count ?? 0,
+            updated: claimed.updated_count ?? 0,
+            skipped: claimed.skipped_count ?? 0,
+            failed: claimed.failed_count ?? 0
+          }
+        };
+      }
+
+      const existing: ImportStateRecord | undefined = result.recordsets[1][0];
+      if (!existing) {
+        return { status: 'not_found' };
+      }
+      if (existing.status === 'committed') {
+        return { status: 'already_committed' };
+      }
+      if (existing.status === 'committing') {
+        return { status: 'in_progress' };
+      }
+      if (existing.expired) {
+        return { status: 'expired' };
+      }
+      return { status: 'update_not_allowed' };
+    } catch (error) {
+      console.error('Error claiming client import:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save how many rows of a claimed import have been written and how they went. With
+   * release the import is handed back as pending, to be committed again from there.
+   */
+  static async saveProgress(id: string, processedRows: number, counts: ImportCounts, options: { release?: boolean } = {}): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('id', id)
+        .input('processedRows', processedRows)
+        .input('createdCount', counts.inserted)
+        .input('updatedCount', counts.updated)
+        .input('skippedCount', counts.skipped)
+        .input('failedCount', counts.failed)
+        .input('status', options.release ? 'pending' : 'committing')
+        .query(`
+          UPDATE client_imports
+          SET status = @status, progress_at = GETDATE(), processed_rows = @processedRows, created_count = @createdCount,
+            updated_count = @updatedCount, skipped_count = @skippedCount, failed_count = @failedCount
+          WHERE id = @id AND status = 'committing'
+        `);
+    } catch (error) {
+      console.error('Error saving client import progress:', error);
+      throw error;
+    }
+  }
+
+  // Record how a claimed import went. Its rows are no longer needed.
+  static async finish(id: string, counts: ImportCounts): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('id', id)
+        .input('createdCount', counts.inserted)
+        .input('updatedCount', counts.updated)
+        .input('skippedCount', counts.skipped)
+        .input('failedCount', counts.failed)
+        .query(`
+          UPDATE client_imports
+          SET status = 'committed', committed_at = GETDATE(), processed_rows = valid_rows, created_count = @createdCount,
+            updated_count = @updatedCount, skipped_count = @skippedCount, failed_count = @failedCount, row_data = '[]'
+          WHERE id = @id
+        `);
+    } catch (error) {
+      console.error('Error finishing client import:', error);
+      throw error;
+    }
+  }
+}
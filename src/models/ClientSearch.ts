@@ -0,0 +1,330 @@
+import { ConnectionPool, Request as SqlRequest } from 'mssql';
+import db from '../config/database';
+import type { ClientData } from './Client';
+import type { PolicyData } from './Policy';
+import { SearchTextKind, compactAs, highlightMatch, searchKeys } from '../utils/searchText';
+
+interface SearchField {
+  // How much a match on the field counts towards a client's rank
+  weight: number;
+  kind: SearchTextKind;
+}
+
+// Client columns a client can be found by
+const CLIENT_SEARCH_FIELDS: Partial<Record<keyof ClientData, SearchField>> = {
+  id: { weight: 10, kind: 'text' },
+  nic_br_text: { weight: 9, kind: 'text' },
+  vehicle_number_text: { weight: 9, kind: 'text' },
+  ceilao_ib_file_no: { weight: 9, kind: 'text' },
+  mobile_no: { weight: 7, kind: 'phone' },
+  telephone: { weight: 6, kind: 'phone' },
+  client_name: { weight: 6, kind: 'text' },
+  email: { weight: 5, kind: 'text' },
+  contact_person: { weight: 4, kind: 'text' },
+  policyholder_text: { weight: 3, kind: 'text' }
+};
+
+// Policy columns a client can be found by
+const POLICY_SEARCH_FIELDS: Partial<Record<keyof PolicyData, SearchField>> = {
+  policy_no: { weight: 9, kind: 'text' }
+};
+
+const MAX_NORMALIZED_LENGTH = 400;
+
+// Queries shorter than this (in letters and digits) would match almost everything
+export const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Fill client_search_suffixes from the client's terms: one row for every suffix a query
+ * can match (at least MIN_QUERY_LENGTH long) plus the whole value at position 0. The
+ * numbers come from sys.all_columns, which always has more rows than MAX_NORMALIZED_LENGTH.
+ */
+const INSERT_SUFFIXES = `
+  INSERT INTO client_search_suffixes (client_id, field, weight, position, suffix)
+  SELECT t.client_id, t.field, t.weight, n.position, SUBSTRING(t.normalized, n.position + 1, ${MAX_NORMALIZED_LENGTH})
+  FROM client_search_terms t
+  INNER JOIN (
+    SELECT TOP ${MAX_NORMALIZED_LENGTH} CAST(ROW_NUMBER() OVER (ORDER BY (SELECT NULL)) - 1 AS SMALLINT) AS position
+    FROM sys.all_columns
+  ) n ON n.position = 0 OR n.position <= LEN(t.normalized) - ${MIN_QUERY_LENGTH}
+  WHERE t.client_id = @clientId;
+`;
+
+export interface QuickSearchMatch {
+  field: string;
+  // Set when the match is on one of the client's policies
+  policy_id: number | null;
+  value: string;
+  // Part of value that matched, as start and end (exclusive) offsets
+  start: number;
+  end: number;
+}
+
+export interface QuickSearchResult {
+  client: ClientData;
+  score: number;
+  matches: QuickSearchMatch[];
+}
+
+interface SearchTerm {
+  field: string;
+  policyId: number | null;
+  value: string;
+  normalized: string;
+  weight: number;
+}
+
+const termFor = (field: string, spec: SearchField, value: unknown, policyId: number | null): SearchTerm | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const text = String(value).trim().substring(0, 500);
+  const normalized = compactAs(spec.kind, text).text.substring(0, MAX_NORMALIZED_LENGTH);
+  return normalized === '' ? null : { field, policyId, value: text, normalized, weight: spec.weight };
+};
+
+// The search document of a client: one term per searchable value
+const termsFor = (client: ClientData, policies: PolicyData[]): SearchTerm[] => {
+  const terms: Array<SearchTerm | null> = [];
+
+  Object.entries(CLIENT_SEARCH_FIELDS).forEach(([field, spec]) => {
+    terms.push(termFor(field, spec!, client[field as keyof ClientData], null));
+  });
+
+  policies.forEach(policy => {
+    Object.entries(POLICY_SEARCH_FIELDS).forEach(([field, spec]) => {
+      terms.push(termFor(field, spec!, policy[field as keyof PolicyData], policy.id!));
+    });
+  });
+
+  return terms.filter((term): term is SearchTerm => term !== null);
+};
+
+// The normalized form a client value is indexed under; null for blank values and fields that are not indexed
+export const normalizedTerm = (field: keyof ClientData, value: unknown): string | null => {
+  const spec = CLIENT_SEARCH_FIELDS[field];
+  return spec ? termFor(field, spec, value, null)?.normalized ?? null : null;
+};
+
+const searchFieldSpec = (field: string, policyId: number | null): SearchField | undefined => {
+  return policyId === null
+    ? CLIENT_SEARCH_FIELDS[field as keyof ClientData]
+    : POLICY_SEARCH_FIELDS[field as keyof PolicyData];
+};
+
+export class ClientSearch {
+  /**
+   * Rewrite the search document of a client from its current row and policies.
+   * Removes it when the client no longer exists.
+   */
+  static async reindex(clientId: string): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await ClientSearch.reindexOn(pool, clientId);
+    } catch (error) {
+      console.error(`Error indexing client ${clientId} for search:`, error);
+      throw error;
+    }
+  }
+
+  private static async reindexOn(pool: ConnectionPool, clientId: string): Promise<void> {
+    const [clientResult, policyResult] = await Promise.all([
+      pool.request().input('clientId', clientId).query('SELECT * FROM clients WHERE id = @clientId'),
+      pool.request().input('clientId', clientId).query('SELECT * FROM policies WHERE client_id = @clientId')
+    ]);
+
+    const client: ClientData | undefined = clientResult.recordset[0];
+    const terms = client ? termsFor(client, policyResult.recordset) : [];
+
+    // The terms go in as one JSON parameter; bound one by one, a client with many policies would pass SQL Server's 2,100 parameter limit
+    await pool.request()
+      .input('clientId', clientId)
+      .input('terms', JSON.stringify(terms))
+      .query(`
+        SET XACT_ABORT ON;
+        BEGIN TRANSACTION;
+        DELETE FROM client_search_suffixes WHERE client_id = @clientId;
+        DELETE FROM client_search_terms WHERE client_id = @clientId;
+        INSERT INTO client_search_terms (client_id, field, policy_id, value, normalized, weight)
+        SELECT @clientId, field, policyId, value, normalized, weight
+        FROM OPENJSON(@terms) WITH (
+          field VARCHAR(50), policyId INT, value NVARCHAR(500), normalized NVARCHAR(400), weight INT
+        );
+        ${INSERT_SUFFIXES}
+        COMMIT TRANSACTION;
+      `);
+  }
+
+  // Rebuild the search documents of every client, including those in the trash
+  static async rebuildAll(onProgress?: (done: number, total: number) => void): Promise<number> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request().query('SELECT id FROM clients ORDER BY id');
+      const ids: string[] = result.recordset.map((row: { id: string }) => row.id);
+
+      for (let i = 0; i < ids.length; i++) {
+        await ClientSearch.reindexOn(pool, ids[i]);
+        onProgress?.(i + 1, ids.length);
+      }
+
+      return ids.length;
+    } catch (error) {
+      console.error('Error rebuilding client search index:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find clients whose search document contains the query, ignoring case, spacing and
+   * punctuation. Each field counts once with its weight, times 3 when the query is the
+   * whole value and 2 when the value starts with it. Clients in the trash are left out.
+   */
+  static async search(query: string, limit: number = 20, offset: number = 0): Promise<{ results: QuickSearchResult[]; totalCount: number }> {
+    const keys = searchKeys(query).filter(key => key.length >= MIN_QUERY_LENGTH);
+    if (keys.length === 0) {
+      return { results: [], totalCount: 0 };
+    }
+
+    try {
+      const pool = await db.getConnection();
+
+      // Normalized keys are letters and digits only, so they need no LIKE escaping. A value
+      // contains a key when one of its suffixes starts with it, which the suffix index seeks.
+      const matchesFor = (request: SqlRequest) => {
+        keys.forEach((key, index) => {
+          request.input(`key${index}`, key);
+          request.input(`prefix${index}`, `${key}%`);
+        });
+        const any = (template: (index: number) => string) => keys.map((_, index) => template(index)).join(' OR ');
+
+        return `
+          WITH field_scores AS (
+            SELECT s.client_id, s.field,
+              MAX(s.weight * CASE
+                WHEN s.position = 0 AND (${any(index => `s.suffix = @key${index}`)}) THEN 3
+                WHEN s.position = 0 THEN 2
+                ELSE 1
+              END) AS score
+            FROM client_search_suffixes s
+            WHERE ${any(index => `s.suffix LIKE @prefix${index}`)}
+            GROUP BY s.client_id, s.field
+          ),
+          client_scores AS (
+            SELECT client_id, SUM(score) AS score FROM field_scores GROUP BY client_id
+          )
+        `;
+      };
+
+      const pageRequest = pool.request();
+      const countRequest = pool.request();
+      pageRequest.input('limit', limit);
+      pageRequest.input('offset', offset);
+
+      const [pageResult, countResult] = await Promise.all([
+        pageRequest.query(`
+          ${matchesFor(pageRequest)}
+          SELECT c.*, s.score AS search_score
+          FROM client_scores s
+          INNER JOIN clients c ON c.id = s.client_id
+          WHERE c.deleted_at IS NULL
+          ORDER BY s.score DESC, c.client_name ASC, c.id ASC
+          OFFSET @offset ROWS
+          FETCH NEXT @limit ROWS ONLY
+        `),
+        countRequest.query(`
+          ${matchesFor(countRequest)}
+          SELECT COUNT(*) as count
+          FROM client_scores s
+          INNER JOIN clients c ON c.id = s.client_id
+          WHERE c.deleted_at IS NULL
+        `)
+      ]);
+
+      const rows: Array<ClientData & { search_score: number }> = pageResult.recordset;
+      const matches = await ClientSearch.matchesFor(pool, rows.map(row => row.id!), keys);
+
+      const results = rows.map(({ search_score, ...client }) => ({
+        client,
+        score: search_score,
+        matches: matches.get(client.id!) || []
+      }));
+
+      return { results, totalCount: countResult.recordset[0].count };
+    } catch (error) {
+      console.error('Error running client quick search:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Live clients whose field has one of the given normalized values (see normalizedTerm),
+   * keyed by value. Used to find the clients an import row refers to.
+   */
+  static async clientsWithValues(field: keyof ClientData, normalizedValues: string[]): Promise<Map<string, string[]>> {
+    try {
+      const pool = await db.getConnection();
+      const unique = Array.from(new Set(normalizedValues));
+      const clients = new Map<string, string[]>();
+
+      // Stay well under the 2100 parameters SQL Server allows per request
+      for (let i = 0; i < unique.length; i += 1000) {
+        const request = pool.request().input('field', field);
+        const placeholders = unique.slice(i, i + 1000).map((value, index) => {
+          request.input(`value${index}`, value);
+          return `@value${index}`;
+        });
+
+        const result = await request.query(`
+          SELECT DISTINCT t.client_id, t.normalized
+          FROM client_search_terms t
+          INNER JOIN clients c ON c.id = t.client_id AND c.deleted_at IS NULL
+          WHERE t.policy_id IS NULL AND t.field = @field AND t.normalized IN (${placeholders.join(', ')})
+        `);
+
+        result.recordset.forEach((term: { client_id: string; normalized: string }) => {
+          clients.set(term.normalized, [...(clients.get(term.normalized) || []), term.client_id]);
+        });
+      }
+
+      return clients;
+    } catch (error) {
+      console.error('Error finding clients by value:', error);
+      throw error;
+    }
+  }
+
+  // The terms of each client that matched, strongest field first, with the matched part
+  private static async matchesFor(pool: ConnectionPool, clientIds: string[], keys: string[]): Promise<Map<string, QuickSearchMatch[]>> {
+    const byClient = new Map<string, QuickSearchMatch[]>();
+    if (clientIds.length === 0) {
+      return byClient;
+    }
+
+    const request = pool.request();
+    const placeholders = clientIds.map((id, index) => {
+      request.input(`client${index}`, id);
+      return `@client${index}`;
+    });
+    const result = await request.query(`
+      SELECT client_id, field, policy_id, value, normalized, weight
+      FROM client_search_terms
+      WHERE client_id IN (${placeholders.join(', ')})
+      ORDER BY weight DESC, field, policy_id
+    `);
+
+    result.recordset.forEach((term: { client_id: string; field: string; policy_id: number | null; value: string; normalized: string }) => {
+      const key = keys.find(candidate => term.normalized.includes(candidate));
+      const spec = searchFieldSpec(term.field, term.policy_id);
+      if (!key || !spec) {
+        return;
+      }
+
+      const span = highlightMatch(spec.kind, term.value, key) || { start: 0, end: term.value.length };
+      const clientMatches = byClient.get(term.client_id) || [];
+      clientMatches.push({ field: term.field, policy_id: term.policy_id, value: term.value, ...span });
+      byClient.set(term.client_id, clientMatches);
+    });
+
+    return byClient;
+  }
+}
@@ -0,0 +1,139 @@
+import db from '../config/database';
+
+export interface ImpersonationLogData {
+  id: number;
+  session_id: string;
+  admin_id: number;
+  user_id: number;
+  event: 'start' | 'request';
+  reason: string | null;
+  method: string | null;
+  path: string | null;
+  status_code: number | null;
+  ip_address: string | null;
+  created_at: Date;
+}
+
+export interface ImpersonationLogFilters {
+  adminId?: number;
+  userId?: number;
+  sessionId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class ImpersonationLog {
+  // Record that an admin started impersonating a user
+  static async recordStart(sessionId: string, adminId: number, userId: number, reason: string, ipAddress?: string): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('sessionId', sessionId)
+        .input('adminId', adminId)
+        .input('userId', userId)
+        .input('reason', reason.substring(0, 500))
+        .input('ipAddress', ipAddress?.substring(0, 64) || null)
+        .query(`
+          INSERT INTO impersonation_log (session_id, admin_id, user_id, event, reason, ip_address)
+          VALUES (@sessionId, @adminId, @userId, 'start', @reason, @ipAddress)
+        `);
+    } catch (error) {
+      console.error('Error recording impersonation start:', error);
+      throw error;
+    }
+  }
+
+  // Record one request made while impersonating
+  static async recordRequest(
+    sessionId: string,
+    adminId: number,
+    userId: number,
+    request: { method: string; path: string; statusCode: number; ipAddress?: string }
+  ): Promise<void> {
+    try {
+      const pool = await db.getConnection();
+      await pool.request()
+        .input('sessionId', sessionId)
+        .input('adminId', adminId)
+        .input('userId', userId)
+        .input('method', request.method.substring(0, 10))
+        .input('path', request.path.substring(0, 500))
+        .input('statusCode', request.statusCode)
+        .input('ipAddress', request.ipAddress?.substring(0, 64) || null)
+        .query(`
+          INSERT INTO impersonation_log (session_id, admin_id, user_id, event, method, path, status_code, ip_address)
+          VALUES (@sessionId, @adminId, @userId, 'request', @method, @path, @statusCode, @ipAddress)
+        `);
+    } catch (error) {
+      console.error('Error recording impersonated request:', error);
+      throw error;
+    }
+  }
+
+  // Search the audit trail, newest first, with the total count for pagination
+  static async list(filters: ImpersonationLogFilters = {}): Promise<{ entries: ImpersonationLogData[]; totalCount: number }> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request();
+      const whereClauses: string[] = [];
+
+      if (filters.adminId !== undefined) {
+        whereClauses.push('admin_id = @adminId');
+        request.input('adminId', filters.adminId);
+      }
+
+      if (filters.userId !== undefined) {
+        whereClauses.push('user_id = @userId');
+        request.input('userId', filters.userId);
+      }
+
+      if (filters.sessionId) {
+        whereClauses.push('session_id = @sessionId');
+        request.input('sessionId', filters.sessionId);
+      }
+
+      request.input('limit', filters.limit ?? 100);
+      request.input('offset', filters.offset ?? 0);
+
+      const whereClause = whereClauses.length > 0
+        ? `WHERE ${whereClauses.join(' AND ')}`
+        : '';
+
+      const result = await request.query<[ImpersonationLogData, { count: number }]>(`
+        SELECT id, session_id, admin_id, user_id, event, reason, method, path, status_code, ip_address, created_at
+        FROM impersonation_log
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        OFFSET @offset ROWS
+        FETCH NEXT @limit ROWS ONLY;
+        SELECT COUNT(*) AS count FROM impersonation_log ${whereClause};
+      `);
+
+      const [entries, count] = result.recordsets;
+      return {
+        entries,
+        totalCount: count[0].count
+      };
+    } catch (error) {
+      console.error('Error listing impersonation log:', error);
+      throw error;
+    }
+  }
+
+  // Shape a log entry for API responses
+  static toResponse(entry: ImpersonationLogData) {
+    return {
+      id: entry.id,
+      sessionId: entry.session_id,
+      adminId: entry.admin_id,
+      userId: entry.user_id,
+      event: entry.event,
+      reason: entry.reason,
+      method: entry.method,
+      path: entry.path,
+      statusCode: entry.status_code,
+      ipAddress: entry.ip_address,
+      createdAt: entry.created_at
+    };
+  }
+}
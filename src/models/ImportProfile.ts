@@ -0,0 +1,240 @@
+import db from '../config/database';
+import { FieldError, FieldSpec, checkValue, isBlank } from '../utils/validation';
+import { ImportTransform, parseTransform } from '../utils/importTransforms';
+import { CLIENT_SCHEMA } from './clientColumns';
+import { POLICY_SCHEMA, PolicyField } from './Policy';
+
+const MAX_COLUMNS = 200;
+const MAX_TRANSFORMS = 10;
+
+// One source column and the field it fills
+export interface ImportColumnMapping {
+  // Header in the file, matched ignoring case and surrounding spaces
+  source: string;
+  field: string;
+  // Applied in order before the value is validated
+  transforms: ImportTransform[];
+}
+
+export interface ImportProfileDefinition {
+  columns: ImportColumnMapping[];
+  // Values for fields the file leaves blank or does not have, e.g. the insurer of a whole file
+  defaults: Record<string, string | number>;
+}
+
+export interface ImportProfileData extends ImportProfileDefinition {
+  id: number;
+  name: string;
+  description: string | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ImportProfileInput = Pick<ImportProfileData, 'name' | 'description' | 'columns' | 'defaults'>;
+
+// Spec of a field a file can fill: a client field users write, or a policy field
+export const importFieldSpec = (field: string): FieldSpec | undefined => {
+  if (Object.prototype.hasOwnProperty.call(CLIENT_SCHEMA, field)) {
+    return CLIENT_SCHEMA[field];
+  }
+  return Object.prototype.hasOwnProperty.call(POLICY_SCHEMA, field) ? POLICY_SCHEMA[field as PolicyField] : undefined;
+};
+
+const parseColumn = (raw: any, path: string): { column: ImportColumnMapping } | { errors: FieldError[] } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: [{ field: path, message: 'must be an object with source, field and transforms' }] };
+  }
+
+  const errors: FieldError[] = [];
+  if (typeof raw.source !== 'string' || raw.source.trim() === '' || raw.source.length > 255) {
+    errors.push({ field: `${path}.source`, message: 'must be a header of at most 255 characters' });
+  }
+  if (typeof raw.field !== 'string' || !importFieldSpec(raw.field)) {
+    errors.push({ field: `${path}.field`, message: 'must be a client or policy field' });
+  }
+
+  const transforms: ImportTransform[] = [];
+  const rawTransforms = raw.transforms ?? [];
+  if (!Array.isArray(rawTransforms) || rawTransforms.length > MAX_TRANSFORMS) {
+    errors.push({ field: `${path}.transforms`, message: `must be a list of at most ${MAX_TRANSFORMS} transforms` });
+  } else {
+    rawTransforms.forEach((rawTransform, index) => {
+      const result = parseTransform(rawTransform);
+      if ('error' in result) {
+        errors.push({ field: `${path}.transforms[${index}]`, message: result.error });
+      } else {
+        transforms.push(result.transform);
+      }
+    });
+  }
+
+  return errors.length > 0 ? { errors } : { column: { source: raw.source.trim(), field: raw.field, transforms } };
+};
+
+/**
+ * Read the body of a profile create or update. Returns every problem at once, with paths
+ * such as `columns[3].transforms[0]`.
+ */
+export const parseImportProfile = (body: Record<string, any>): { profile: ImportProfileInput } | { errors: FieldError[] } => {
+  const { name, description, columns, defaults = {}, ...rest } = body;
+  const errors: FieldError[] = Object.keys(rest).map(field => ({ field, message: 'is not a known field' }));
+  const profile: ImportProfileInput = { name: '', description: null, columns: [], defaults: {} };
+
+  if (typeof name !== 'string' || name.trim() === '' || name.trim().length > 100) {
+    errors.push({ field: 'name', message: 'is required and must be at most 100 characters' });
+  } else {
+    profile.name = name.trim();
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== 'string' || description.length > 500) {
+      errors.push({ field: 'description', message: 'must be text of at most 500 characters' });
+    } else {
+      profile.description = description.trim() || null;
+    }
+  }
+
+  if (!Array.isArray(columns) || columns.length === 0 || columns.length > MAX_COLUMNS) {
+    errors.push({ field: 'columns', message: `must be a list of 1 to ${MAX_COLUMNS} column mappings` });
+  } else {
+    columns.forEach((raw, index) => {
+      const result = parseColumn(raw, `columns[${index}]`);
+      if ('errors' in result) {
+        errors.push(...result.errors);
+      } else if (profile.columns.some(column => column.field === result.column.field)) {
+        errors.push({ field: `columns[${index}].field`, message: `${result.column.field} is already mapped` });
+      } else {
+        profile.columns.push(result.column);
+      }
+    });
+  }
+
+  if (!defaults || typeof defaults !== 'object' || Array.isArray(defaults)) {
+    errors.push({ field: 'defaults', message: 'must map fields to values' });
+  } else {
+    Object.entries(defaults).forEach(([field, value]) => {
+      const spec = importFieldSpec(field);
+      if (!spec) {
+        errors.push({ field: `defaults.${field}`, message: 'is not a client or policy field' });
+        return;
+      }
+      if ((typeof value !== 'string' && typeof value !== 'number') || isBlank(value)) {
+        errors.push({ field: `defaults.${field}`, message: 'must be text or a number' });
+        return;
+      }
+      const checked = checkValue(spec, value, 'create');
+      if ('error' in checked) {
+        errors.push({ field: `defaults.${field}`, message: checked.error });
+      } else {
+        profile.defaults[field] = value;
+      }
+    });
+  }
+
+  return errors.length > 0 ? { errors } : { profile };
+};
+
+const fromRow = (row: any): ImportProfileData => {
+  const { definition, ...profile } = row;
+  const { columns, defaults }: ImportProfileDefinition = JSON.parse(definition);
+  return { ...profile, columns, defaults };
+};
+
+export class ImportProfile {
+  // All profiles, by name
+  static async list(): Promise<ImportProfileData[]> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request().query('SELECT * FROM import_profiles ORDER BY name');
+      return result.recordset.map(fromRow);
+    } catch (error) {
+      console.error('Error listing import profiles:', error);
+      throw error;
+    }
+  }
+
+  static async getById(id: number): Promise<ImportProfileData | null> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query('SELECT * FROM import_profiles WHERE id = @id');
+
+      return result.recordset[0] ? fromRow(result.recordset[0]) : null;
+    } catch (error) {
+      console.error('Error getting import profile:', error);
+      throw error;
+    }
+  }
+
+  // Save a new profile. Returns null if another profile has the name.
+  static async create(profile: ImportProfileInput, createdBy: number | null): Promise<number | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('name', profile.name)
+        .input('description', profile.description)
+        .input('definition', JSON.stringify({ columns: profile.columns, defaults: profile.defaults }))
+        .input('createdBy', createdBy)
+        .query(`
+          IF EXISTS (SELECT 1 FROM import_profiles WHERE name = @name)
+            SELECT CAST(NULL AS INT) AS id;
+          ELSE
+          BEGIN
+            INSERT INTO import_profiles (name, description, definition, created_by)
+            VALUES (@name, @description, @definition, @createdBy);
+            SELECT SCOPE_IDENTITY() AS id;
+          END
+        `);
+
+      const id = result.recordset[0].id;
+      return id === null ? null : Number(id);
+    } catch (error) {
+      console.error('Error creating import profile:', error);
+      throw error;
+    }
+  }
+
+  // Replace a profile
+  static async update(id: number, profile: ImportProfileInput): Promise<'updated' | 'not_found' | 'name_taken'> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .input('name', profile.name)
+        .input('description', profile.description)
+        .input('definition', JSON.stringify({ columns: profile.columns, defaults: profile.defaults }))
+        .query(`
+          IF EXISTS (SELECT 1 FROM import_profiles WHERE name = @name AND id <> @id)
+            SELECT 'name_taken' AS status;
+          ELSE
+          BEGIN
+            UPDATE import_profiles
+            SET name = @name, description = @description, definition = @definition, updated_at = GETDATE()
+            WHERE id = @id;
+            SELECT CASE WHEN @@ROWCOUNT > 0 THEN 'updated' ELSE 'not_found' END AS status;
+          END
+        `);
+
+      return result.recordset[0].status;
+    } catch (error) {
+      console.error('Error updating import profile:', error);
+      throw error;
+    }
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query('DELETE FROM import_profiles WHERE id = @id');
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error deleting import profile:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import db from '../config/database';
+
+export type LoginOutcome =
+  | 'success'
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'account_inactive'
+  | 'locked_out'
+  | 'two_factor_required'
+  | 'two_factor_setup_required'
+  | 'two_factor_failed';
+
+export const LOGIN_OUTCOMES: LoginOutcome[] = [
+  'success',
+  'unknown_email',
+  'invalid_password',
+  'account_inactive',
+  'locked_out',
+  'two_factor_required',
+  'two_factor_setup_required',
+  'two_factor_failed'
+];
+
+export interface LoginAttemptData {
+  id: number;
+  user_id: number | null;
+  email: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  outcome: LoginOutcome;
+  session_id: string | null;
+  created_at: Date;
+}
+
+export interface NewLoginAttempt {
+  userId?: number | null;
+  email?: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+  outcome: LoginOutcome;
+  sessionId?: string | null;
+}
+
+export interface LoginAttemptFilters {
+  outcome?: LoginOutcome;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export class LoginAttempt {
+  // Persist one login attempt
+  static async record(attempt: NewLoginAttempt): Promise<void> {
+    try {
+      const pool = await db.getConnection();
+      await pool.request()
+        .input('userId', attempt.userId ?? null)
+        .input('email', attempt.email ? attempt.email.toLowerCase().substring(0, 255) : null)
+        .input('ipAddress', attempt.ipAddress?.substring(0, 64) || null)
+        .input('userAgent', attempt.userAgent?.substring(0, 500) || null)
+        .input('outcome', attempt.outcome)
+        .input('sessionId', attempt.sessionId ?? null)
+        .query(`
+          INSERT INTO login_attempts (user_id, email, ip_address, user_agent, outcome, session_id)
+          VALUES (@userId, @email, @ipAddress, @userAgent, @outcome, @sessionId)
+        `);
+    } catch (error) {
+      console.error('Error recording login attempt:', error);
+      throw error;
+    }
+  }
+
+  // Login history of a user, newest first, with the total count for pagination
+  static async listForUser(userId: number, filters: LoginAttemptFilters = {}): Promise<{ attempts: LoginAttemptData[]; totalCount: number }> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request().input('userId', userId);
+      const whereClauses = ['user_id = @userId'];
+
+      if (filters.outcome) {
+        whereClauses.push('outcome = @outcome');
+        request.input('outcome', filters.outcome);
+      }
+
+      if (filters.from) {
+        whereClauses.push('created_at >= @from');
+        request.input('from', filters.from);
+      }
+
+      if (filters.to) {
+        whereClauses.push('created_at < @to');
+        request.input('to', filters.to);
+      }
+
+      request.input('limit', filters.limit ?? 100);
+      request.input('offset', filters.offset ?? 0);
+
+      const whereClause = `WHERE ${whereClauses.join(' AND ')}`;
+      const result = await request.query<[LoginAttemptData, { count: number }]>(`
+        SELECT id, user_id, email, ip_address, user_agent, outcome, session_id, created_at
+        FROM login_attempts
+        ${whereClause}
+        ORDER BY created_at DESC, id DESC
+        OFFSET @offset ROWS
+        FETCH NEXT @limit ROWS ONLY;
+        SELECT COUNT(*) AS count FROM login_attempts ${whereClause};
+      `);
+
+      const [attempts, count] = result.recordsets;
+      return {
+        attempts,
+        totalCount: count[0].count
+      };
+    } catch (error) {
+      console.error('Error listing login attempts:', error);
+      throw error;
+    }
+  }
+
+  // Shape a login attempt row for API responses
+  static toResponse(attempt: LoginAttemptData) {
+    return {
+      id: attempt.id,
+      email: attempt.email,
+      ipAddress: attempt.ip_address,
+      userAgent: attempt.user_agent,
+      outcome: attempt.outcome,
+      sessionId: attempt.session_id,
+      createdAt: attempt.created_at
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import db from '../config/database';
+
+export type ThrottleKeyType = 'email' | 'ip';
+
+// Failures allowed before a lockout. IPs get more room since offices share one address.
+const MAX_FAILED_ATTEMPTS: Record<ThrottleKeyType, number> = {
+  email: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5,
+  ip: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP) || 20
+};
+
+// Failures older than this no longer count towards a lockout
+const FAILURE_WINDOW_MINUTES = 15;
+
+// Lockouts double with every repeat: 1, 2, 4, 8 ... minutes, capped at one day
+const BASE_LOCK_MINUTES = 1;
+const MAX_LOCK_MINUTES = 24 * 60;
+
+const normalizeKey = (keyType: ThrottleKeyType, value: string): string => {
+  const trimmed = value.trim();
+  return (keyType === 'email' ? trimmed.toLowerCase() : trimmed).substring(0, 255);
+};
+
+export class LoginThrottle {
+  // Return when the email or IP lock expires, or null if neither is locked
+  static async getLockedUntil(email: string, ip: string): Promise<Date | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('email', normalizeKey('email', email))
+        .input('ip', normalizeKey('ip', ip))
+        .query(`
+          SELECT MAX(locked_until) AS locked_until FROM login_throttle
+          WHERE ((key_type = 'email' AND key_value = @email) OR (key_type = 'ip' AND key_value = @ip))
+          AND locked_until > GETDATE()
+        `);
+
+      return result.recordset[0]?.locked_until || null;
+    } catch (error) {
+      console.error('Error checking login lock:', error);
+      throw error;
+    }
+  }
+
+  // Count a failed login for both the email and the IP, locking either if it crossed the limit
+  static async recordFailure(email: string, ip: string): Promise<Date | null> {
+    const [emailLock, ipLock] = await Promise.all([
+      LoginThrottle.recordKeyFailure('email', email),
+      LoginThrottle.recordKeyFailure('ip', ip)
+    ]);
+
+    if (emailLock && ipLock) {
+      return emailLock > ipLock ? emailLock : ipLock;
+    }
+    return emailLock || ipLock;
+  }
+
+  // Clear the counter and lockout history for one key, e.g. after a successful login or an admin unlock
+  static async reset(keyType: ThrottleKeyType, value: string): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('keyType', keyType)
+        .input('keyValue', normalizeKey(keyType, value))
+        .query('DELETE FROM login_throttle WHERE key_type = @keyType AND key_value = @keyValue');
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error resetting login throttle:', error);
+      throw error;
+    }
+  }
+
+  private static async recordKeyFailure(keyType: ThrottleKeyType, value: string): Promise<Date | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('keyType', keyType)
+        .input('keyValue', normalizeKey(keyType, value))
+        .input('window', FAILURE_WINDOW_MINUTES)
+        .input('maxAttempts', MAX_FAILED_ATTEMPTS[keyType])
+        .input('baseLock', BASE_LOCK_MINUTES)
+        .input('maxLock', MAX_LOCK_MINUTES)
+        .query(`
+          MERGE login_throttle WITH (HOLDLOCK) AS t
+          USING (SELECT @keyType AS key_type, @keyValue AS key_value) AS s
+          ON t.key_type = s.key_type AND t.key_value = s.key_value
+          WHEN MATCHED THEN UPDATE SET
+            failed_count = CASE
+              WHEN t.last_failed_at < DATEADD(MINUTE, -@window, GETDATE()) THEN 1
+              ELSE t.failed_count + 1
+            END,
+            last_failed_at = GETDATE()
+          WHEN NOT MATCHED THEN
+            INSERT (key_type, key_value, failed_count, last_failed_at)
+            VALUES (s.key_type, s.key_value, 1, GETDATE());
+
+          UPDATE login_throttle SET
+            locked_until = DATEADD(MINUTE, CASE
+              WHEN @baseLock * POWER(2, CASE WHEN lock_count > 20 THEN 20 ELSE lock_count END) > @maxLock THEN @maxLock
+              ELSE @baseLock * POWER(2, CASE WHEN lock_count > 20 THEN 20 ELSE lock_count END)
+            END, GETDATE()),
+            lock_count = lock_count + 1,
+            failed_count = 0
+          OUTPUT inserted.locked_until
+          WHERE key_type = @keyType AND key_value = @keyValue AND failed_count >= @maxAttempts;
+        `);
+
+      const locked = result.recordset?.[0]?.locked_until || null;
+      if (locked) {
+        console.warn(`Login locked for ${keyType} until ${new Date(locked).toISOString()}`);
+      }
+      return locked;
+    } catch (error) {
+      console.error('Error recording failed login:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import db from '../config/database';
+
+export class PasswordHistory {
+  // Get a user's most recent password hashes, newest first
+  static async getRecentHashes(userId: number, count: number): Promise<string[]> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .input('count', count)
+        .query(`
+          SELECT TOP (@count) password_hash FROM password_history
+          WHERE user_id = @userId
+          ORDER BY created_at DESC, id DESC
+        `);
+
+      return result.recordset.map(row => row.password_hash);
+    } catch (error) {
+      console.error('Error getting password history:', error);
+      throw error;
+    }
+  }
+
+  // Remember a new password hash and drop everything older than the newest `keep` entries
+  static async add(userId: number, passwordHash: string, keep: number): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('userId', userId)
+        .input('passwordHash', passwordHash)
+        .input('keep', keep)
+        .query(`
+          INSERT INTO password_history (user_id, password_hash) VALUES (@userId, @passwordHash);
+          DELETE FROM password_history
+          WHERE user_id = @userId AND id NOT IN (
+            SELECT TOP (@keep) id FROM password_history
+            WHERE user_id = @userId
+            ORDER BY created_at DESC, id DESC
+          );
+        `);
+    } catch (error) {
+      console.error('Error recording password history:', error);
+      throw error;
+    }
+  }
+}
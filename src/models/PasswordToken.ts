@@ -0,0 +1,84 @@
+import db from '../config/database';
+import { generateOpaqueToken, hashToken } from '../utils/auth';
+
+export type PasswordTokenPurpose = 'reset' | 'invite';
+
+export const RESET_TOKEN_TTL_HOURS = Number(process.env.RESET_TOKEN_TTL_HOURS) || 1;
+export const INVITE_TOKEN_TTL_HOURS = Number(process.env.INVITE_TOKEN_TTL_HOURS) || 72;
+
+export class PasswordToken {
+  // Issue a new token, invalidating any outstanding token of the same purpose for the user
+  static async create(userId: number, purpose: PasswordTokenPurpose): Promise<string> {
+    try {
+      const pool = await db.ensureConnection();
+      const token = generateOpaqueToken();
+      const ttlHours = purpose === 'invite' ? INVITE_TOKEN_TTL_HOURS : RESET_TOKEN_TTL_HOURS;
+
+      await pool.request()
+        .input('userId', userId)
+        .input('purpose', purpose)
+        .input('tokenHash', hashToken(token))
+        .input('expiresAt', new Date(Date.now() + ttlHours * 60 * 60 * 1000))
+        .query(`
+          UPDATE password_tokens SET used_at = GETDATE()
+          WHERE user_id = @userId AND purpose = @purpose AND used_at IS NULL;
+          INSERT INTO password_tokens (user_id, token_hash, purpose, expires_at)
+          VALUES (@userId, @tokenHash, @purpose, @expiresAt);
+        `);
+
+      return token;
+    } catch (error) {
+      console.error('Error creating password token:', error);
+      throw error;
+    }
+  }
+
+  // Look up a usable token without consuming it, e.g. to validate a new password first
+  static async find(token: string): Promise<{ userId: number; purpose: PasswordTokenPurpose } | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('tokenHash', hashToken(token))
+        .query(`
+          SELECT user_id, purpose FROM password_tokens
+          WHERE token_hash = @tokenHash AND used_at IS NULL AND expires_at > GETDATE()
+        `);
+
+      const row = result.recordset[0];
+      return row ? { userId: row.user_id, purpose: row.purpose } : null;
+    } catch (error) {
+      console.error('Error finding password token:', error);
+      throw error;
+    }
+  }
+
+  // Mark a token as used. Returns null if it does not exist, has expired or was already used.
+  static async consume(token: string): Promise<{ userId: number; purpose: PasswordTokenPurpose } | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('tokenHash', hashToken(token))
+        .query(`
+          UPDATE password_tokens
+          SET used_at = GETDATE()
+          OUTPUT inserted.user_id, inserted.purpose
+          WHERE token_hash = @tokenHash AND used_at IS NULL AND expires_at > GETDATE()
+        `);
+
+      const row = result.recordset[0];
+      if (!row) {
+        return null;
+      }
+
+      // Any other outstanding tokens for this user are no longer needed
+      await pool.request()
+        .input('userId', row.user_id)
+        .query('UPDATE password_tokens SET used_at = GETDATE() WHERE user_id = @userId AND used_at IS NULL');
+
+      return { userId: row.user_id, purpose: row.purpose };
+    } catch (error) {
+      console.error('Error consuming password token:', error);
+      throw error;
+    }
+  }
+}
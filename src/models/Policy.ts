@@ -0,0 +1,256 @@
+import db from '../config/database';
+import { COMMISSION_TYPES } from '../config/clientOptions';
+import { validate, FieldError, FieldSpec, ValidationMode } from '../utils/validation';
+
+export interface PolicyData {
+  id?: number;
+  client_id?: string;
+  product?: string;
+  insurance_provider?: string;
+  main_class?: string;
+  insurer?: string;
+  policy_type?: string;
+  policy_no?: string;
+  policy_period_from?: string;
+  policy_period_to?: string;
+  coverage?: string;
+  sum_insured?: number;
+  basic_premium?: number;
+  srcc_premium?: number;
+  tc_premium?: number;
+  net_premium?: number;
+  stamp_duty?: number;
+  admin_fees?: number;
+  road_safety_fee?: number;
+  policy_fee?: number;
+  vat_fee?: number;
+  total_invoice?: number;
+  debit_note?: string;
+  payment_receipt?: string;
+  commission_type?: string;
+  commission_basic?: number;
+  commission_srcc?: number;
+  commission_tc?: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const POLICY_NUMERIC_FIELDS = [
+  'sum_insured', 'basic_premium', 'srcc_premium', 'tc_premium',
+  'net_premium', 'stamp_duty', 'admin_fees', 'road_safety_fee',
+  'policy_fee', 'vat_fee', 'total_invoice', 'commission_basic',
+  'commission_srcc', 'commission_tc'
+] as const;
+
+// Only shown to callers who may see commission, see clientExport.ts
+export const POLICY_COMMISSION_FIELDS = [
+  'commission_type', 'commission_basic', 'commission_srcc', 'commission_tc'
+] as const;
+
+export const POLICY_DATE_FIELDS = ['policy_period_from', 'policy_period_to'] as const;
+
+// Every field that can be set on a policy
+export const POLICY_FIELDS = [
+  'product', 'insurance_provider', 'main_class', 'insurer', 'policy_type', 'policy_no',
+  ...POLICY_DATE_FIELDS, 'coverage', ...POLICY_NUMERIC_FIELDS,
+  'debit_note', 'payment_receipt', 'commission_type'
+] as const;
+
+export type PolicyField = typeof POLICY_FIELDS[number];
+
+// Fields that moved off the clients table. Clients keep their own product and insurance provider.
+export const POLICY_ONLY_FIELDS = POLICY_FIELDS.filter(field => field !== 'product' && field !== 'insurance_provider');
+
+const isPolicyField = (key: string): key is PolicyField => {
+  return (POLICY_FIELDS as readonly string[]).includes(key);
+};
+
+// Types and limits of every policy column, matching add-policies.sql
+export const POLICY_SCHEMA: Record<PolicyField, FieldSpec> = {
+  product: { type: 'string', maxLength: 50 },
+  insurance_provider: { type: 'string', maxLength: 100 },
+  main_class: { type: 'string', maxLength: 100 },
+  insurer: { type: 'string', maxLength: 100 },
+  policy_type: { type: 'string', maxLength: 100 },
+  policy_no: { type: 'string', maxLength: 100 },
+  policy_period_from: { type: 'date' },
+  policy_period_to: { type: 'date' },
+  coverage: { type: 'string', maxLength: 255 },
+  sum_insured: { type: 'money' },
+  basic_premium: { type: 'money' },
+  srcc_premium: { type: 'money' },
+  tc_premium: { type: 'money' },
+  net_premium: { type: 'money' },
+  stamp_duty: { type: 'money' },
+  admin_fees: { type: 'money' },
+  road_safety_fee: { type: 'money' },
+  policy_fee: { type: 'money' },
+  vat_fee: { type: 'money' },
+  total_invoice: { type: 'money' },
+  debit_note: { type: 'string', maxLength: 100 },
+  payment_receipt: { type: 'string', maxLength: 100 },
+  commission_type: { type: 'string', maxLength: 50, enum: COMMISSION_TYPES },
+  commission_basic: { type: 'money' },
+  commission_srcc: { type: 'money' },
+  commission_tc: { type: 'money' }
+};
+
+export class Policy {
+  /**
+   * Pick the policy fields out of a request body or CSV row and check them against
+   * POLICY_SCHEMA. Other keys are ignored. Returns one error per bad field instead of throwing.
+   */
+  static fromInput(input: Record<string, any>, mode: ValidationMode = 'create'): { data: Partial<PolicyData>; errors: FieldError[] } {
+    const picked: Record<string, any> = {};
+    Object.entries(input).forEach(([key, value]) => {
+      if (isPolicyField(key)) {
+        picked[key] = value;
+      }
+    });
+
+    const { data, errors } = validate(POLICY_SCHEMA, picked, { mode });
+    const policy = data as Partial<PolicyData>;
+
+    if (mode !== 'search' && policy.policy_period_from && policy.policy_period_to
+      && policy.policy_period_to < policy.policy_period_from) {
+      errors.push({ field: 'policy_period_to', message: 'must not be before policy_period_from' });
+    }
+
+    return { data: policy, errors };
+  }
+
+  // True if the input carries any policy details worth storing
+  static hasDetails(data: Partial<PolicyData>): boolean {
+    return POLICY_ONLY_FIELDS.some(field => data[field] !== undefined && data[field] !== null && data[field] !== 0);
+  }
+
+  // List a client's policies, newest first
+  static async listForClient(clientId: string): Promise<PolicyData[]> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('clientId', clientId)
+        .query('SELECT * FROM policies WHERE client_id = @clientId ORDER BY created_at DESC, id DESC');
+
+      return result.recordset;
+    } catch (error) {
+      console.error('Error listing policies:', error);
+      throw error;
+    }
+  }
+
+  // Get one policy of a client. Policies of clients in the trash are not returned.
+  static async getById(clientId: string, id: number): Promise<PolicyData | null> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('clientId', clientId)
+        .input('id', id)
+        .query(`
+          SELECT p.* FROM policies p
+          INNER JOIN clients c ON c.id = p.client_id
+          WHERE p.id = @id AND p.client_id = @clientId AND c.deleted_at IS NULL
+        `);
+
+      return result.recordset[0] || null;
+    } catch (error) {
+      console.error('Error getting policy by ID:', error);
+      throw error;
+    }
+  }
+
+  // Policies with any of the given numbers, on clients that are not in the trash
+  static async findByNumbers(policyNumbers: string[]): Promise<Array<Pick<PolicyData, 'id' | 'client_id' | 'policy_no'>>> {
+    try {
+      const pool = await db.getConnection();
+      const unique = Array.from(new Set(policyNumbers.filter(policyNo => policyNo !== '')));
+      const policies: Array<Pick<PolicyData, 'id' | 'client_id' | 'policy_no'>> = [];
+
+      // Stay well under the 2100 parameters SQL Server allows per request
+      for (let i = 0; i < unique.length; i += 1000) {
+        const request = pool.request();
+        const placeholders = unique.slice(i, i + 1000).map((policyNo, index) => {
+          request.input(`policyNo${index}`, policyNo);
+          return `@policyNo${index}`;
+        });
+
+        const result = await request.query(`
+          SELECT p.id, p.client_id, p.policy_no FROM policies p
+          INNER JOIN clients c ON c.id = p.client_id
+          WHERE p.policy_no IN (${placeholders.join(', ')}) AND c.deleted_at IS NULL
+        `);
+        policies.push(...result.recordset);
+      }
+
+      return policies;
+    } catch (error) {
+      console.error('Error finding policies by number:', error);
+      throw error;
+    }
+  }
+
+  // Add a policy to a client
+  static async create(clientId: string, data: Partial<PolicyData>): Promise<number> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request().input('clientId', clientId);
+
+      const fields = POLICY_FIELDS.filter(field => data[field] !== undefined);
+      fields.forEach(field => request.input(field, data[field]));
+
+      const result = await request.query(`
+        INSERT INTO policies (client_id${fields.map(field => `, ${field}`).join('')})
+        VALUES (@clientId${fields.map(field => `, @${field}`).join('')});
+        SELECT SCOPE_IDENTITY() AS id;
+      `);
+
+      return Number(result.recordset[0].id);
+    } catch (error) {
+      console.error('Error creating policy:', error);
+      throw error;
+    }
+  }
+
+  // Update the given fields of a client's policy
+  static async update(clientId: string, id: number, data: Partial<PolicyData>): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request()
+        .input('clientId', clientId)
+        .input('id', id);
+
+      const setClauses = POLICY_FIELDS
+        .filter(field => data[field] !== undefined)
+        .map(field => {
+          request.input(field, data[field]);
+          return `${field} = @${field}`;
+        });
+
+      const result = await request.query(`
+        UPDATE policies SET ${[...setClauses, 'updated_at = GETDATE()'].join(', ')}
+        WHERE id = @id AND client_id = @clientId
+      `);
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error updating policy:', error);
+      throw error;
+    }
+  }
+
+  // Remove a policy from a client
+  static async delete(clientId: string, id: number): Promise<boolean> {
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('clientId', clientId)
+        .input('id', id)
+        .query('DELETE FROM policies WHERE id = @id AND client_id = @clientId');
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error deleting policy:', error);
+      throw error;
+    }
+  }
+}
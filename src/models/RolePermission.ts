@@ -0,0 +1,70 @@
+import db from '../config/database';
+import { Permission, PERMISSION_NAMES, SUPERUSER_ROLE, isValidPermission } from '../config/permissions';
+
+// How long requirePermission() may trust a cached role mapping before asking the database again
+const PERMISSION_CACHE_TTL_MS = 30 * 1000;
+const permissionCache = new Map<string, { permissions: Permission[]; loadedAt: number }>();
+
+export class RolePermission {
+  // Get the permissions granted to a role, with a short in-memory cache
+  static async getForRole(role: string): Promise<Permission[]> {
+    if (role === SUPERUSER_ROLE) {
+      return [...PERMISSION_NAMES];
+    }
+
+    const cached = permissionCache.get(role);
+    if (cached && Date.now() - cached.loadedAt < PERMISSION_CACHE_TTL_MS) {
+      return cached.permissions;
+    }
+
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('role', role)
+        .query('SELECT permission FROM role_permissions WHERE role = @role');
+
+      // Ignore rows for permissions that no longer exist in code
+      const permissions = result.recordset
+        .map(row => row.permission)
+        .filter(isValidPermission);
+
+      permissionCache.set(role, { permissions, loadedAt: Date.now() });
+      return permissions;
+    } catch (error) {
+      console.error('Error getting role permissions:', error);
+      throw error;
+    }
+  }
+
+  // Check whether a role holds every one of the given permissions
+  static async hasPermissions(role: string, required: Permission[]): Promise<boolean> {
+    const granted = await RolePermission.getForRole(role);
+    return required.every(permission => granted.includes(permission));
+  }
+
+  // Replace the full permission set of a role
+  static async setForRole(role: string, permissions: Permission[]): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request().input('role', role);
+      const unique = Array.from(new Set(permissions));
+
+      const values = unique.map((permission, index) => {
+        request.input(`permission${index}`, permission);
+        return `(@role, @permission${index})`;
+      });
+
+      await request.query(`
+        BEGIN TRANSACTION;
+        DELETE FROM role_permissions WHERE role = @role;
+        ${values.length > 0 ? `INSERT INTO role_permissions (role, permission) VALUES ${values.join(', ')};` : ''}
+        COMMIT TRANSACTION;
+      `);
+
+      permissionCache.set(role, { permissions: unique, loadedAt: Date.now() });
+    } catch (error) {
+      console.error('Error updating role permissions:', error);
+      throw error;
+    }
+  }
+}
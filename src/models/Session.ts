@@ -0,0 +1,298 @@
+import db from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { generateOpaqueToken, hashToken, REFRESH_TOKEN_TTL_DAYS } from '../utils/auth';
+
+export interface SessionData {
+  id: string;
+  user_id: number;
+  ip_address?: string;
+  user_agent?: string;
+  created_at?: Date;
+  last_used_at?: Date;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  revoked_reason?: string | null;
+  impersonator_id?: number | null;
+}
+
+export interface SessionMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type RotateResult =
+  | { status: 'ok'; sessionId: string; userId: number; refreshToken: string }
+  | { status: 'invalid' | 'expired' | 'reused' };
+
+// How long authenticate() may trust a cached session lookup before asking the database again
+const SESSION_CACHE_TTL_MS = 30 * 1000;
+const SESSION_CACHE_MAX_ENTRIES = 10000;
+const sessionCache = new Map<string, { active: boolean; checkedAt: number }>();
+
+const cacheSession = (sessionId: string, active: boolean) => {
+  if (sessionCache.size >= SESSION_CACHE_MAX_ENTRIES) {
+    sessionCache.clear();
+  }
+  sessionCache.set(sessionId, { active, checkedAt: Date.now() });
+};
+
+const refreshTokenExpiry = (): Date => {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+};
+
+export class Session {
+  // Start a new session and issue its first refresh token
+  static async create(userId: number, metadata: SessionMetadata = {}): Promise<{ sessionId: string; refreshToken: string }> {
+    try {
+      const pool = await db.ensureConnection();
+      const sessionId = uuidv4();
+      const refreshToken = generateOpaqueToken();
+      const expiresAt = refreshTokenExpiry();
+
+      await pool.request()
+        .input('id', sessionId)
+        .input('userId', userId)
+        .input('ipAddress', metadata.ipAddress?.substring(0, 64) || null)
+        .input('userAgent', metadata.userAgent?.substring(0, 500) || null)
+        .input('expiresAt', expiresAt)
+        .input('tokenHash', hashToken(refreshToken))
+        .query(`
+          INSERT INTO auth_sessions (id, user_id, ip_address, user_agent, expires_at)
+          VALUES (@id, @userId, @ipAddress, @userAgent, @expiresAt);
+          INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+          VALUES (@id, @tokenHash, @expiresAt);
+        `);
+
+      return { sessionId, refreshToken };
+    } catch (error) {
+      console.error('Error creating session:', error);
+      throw error;
+    }
+  }
+
+  // Start a session for an admin acting as another user. It has no refresh token and ends at expiresAt.
+  static async createImpersonation(userId: number, impersonatorId: number, expiresAt: Date, metadata: SessionMetadata = {}): Promise<string> {
+    try {
+      const pool = await db.ensureConnection();
+      const sessionId = uuidv4();
+
+      await pool.request()
+        .input('id', sessionId)
+        .input('userId', userId)
+        .input('impersonatorId', impersonatorId)
+        .input('ipAddress', metadata.ipAddress?.substring(0, 64) || null)
+        .input('userAgent', metadata.userAgent?.substring(0, 500) || null)
+        .input('expiresAt', expiresAt)
+        .query(`
+          INSERT INTO auth_sessions (id, user_id, impersonator_id, ip_address, user_agent, expires_at)
+          VALUES (@id, @userId, @impersonatorId, @ipAddress, @userAgent, @expiresAt)
+        `);
+
+      return sessionId;
+    } catch (error) {
+      console.error('Error creating impersonation session:', error);
+      throw error;
+    }
+  }
+
+  // Exchange a refresh token for a new one in the same session.
+  // Presenting a token that was already used revokes the whole session (token family).
+  static async rotate(refreshToken: string): Promise<RotateResult> {
+    try {
+      const pool = await db.ensureConnection();
+      const tokenHash = hashToken(refreshToken);
+
+      // Atomically consume the token so two concurrent refreshes cannot both succeed
+      const consumed = await pool.request()
+        .input('tokenHash', tokenHash)
+        .query(`
+          UPDATE refresh_tokens
+          SET used_at = GETDATE()
+          OUTPUT inserted.session_id
+          WHERE token_hash = @tokenHash AND used_at IS NULL AND expires_at > GETDATE()
+        `);
+
+      if (consumed.recordset.length === 0) {
+        const existing = await pool.request()
+          .input('tokenHash', tokenHash)
+          .query('SELECT session_id, used_at FROM refresh_tokens WHERE token_hash = @tokenHash');
+
+        const token = existing.recordset[0];
+        if (!token) {
+          return { status: 'invalid' };
+        }
+
+        if (token.used_at) {
+          console.warn(`Refresh token reuse detected, revoking session ${token.session_id}`);
+          await Session.revoke(token.session_id, 'token_reuse');
+          return { status: 'reused' };
+        }
+
+        return { status: 'expired' };
+      }
+
+      const sessionId: string = consumed.recordset[0].session_id;
+      const sessionResult = await pool.request()
+        .input('id', sessionId)
+        .query(`
+          SELECT user_id FROM auth_sessions
+          WHERE id = @id AND revoked_at IS NULL AND expires_at > GETDATE()
+        `);
+
+      const session = sessionResult.recordset[0];
+      if (!session) {
+        return { status: 'invalid' };
+      }
+
+      const newRefreshToken = generateOpaqueToken();
+      const expiresAt = refreshTokenExpiry();
+
+      await pool.request()
+        .input('id', sessionId)
+        .input('tokenHash', hashToken(newRefreshToken))
+        .input('expiresAt', expiresAt)
+        .query(`
+          INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+          VALUES (@id, @tokenHash, @expiresAt);
+          UPDATE auth_sessions SET last_used_at = GETDATE(), expires_at = @expiresAt WHERE id = @id;
+        `);
+
+      return { status: 'ok', sessionId, userId: session.user_id, refreshToken: newRefreshToken };
+    } catch (error) {
+      console.error('Error rotating refresh token:', error);
+      throw error;
+    }
+  }
+
+  // Revoke a session; access tokens carrying its ID are rejected from now on
+  static async revoke(sessionId: string, reason: string = 'logout'): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', sessionId)
+        .input('reason', reason)
+        .query(`
+          UPDATE auth_sessions
+          SET revoked_at = GETDATE(), revoked_reason = @reason
+          WHERE id = @id AND revoked_at IS NULL
+        `);
+
+      cacheSession(sessionId, false);
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      throw error;
+    }
+  }
+
+  // Revoke one session of a specific user; sessions of other users are left alone
+  static async revokeForUser(userId: number, sessionId: string, reason: string): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', sessionId)
+        .input('userId', userId)
+        .input('reason', reason)
+        .query(`
+          UPDATE auth_sessions
+          SET revoked_at = GETDATE(), revoked_reason = @reason
+          WHERE id = @id AND user_id = @userId AND revoked_at IS NULL
+        `);
+
+      const revoked = result.rowsAffected[0] > 0;
+      if (revoked) {
+        cacheSession(sessionId, false);
+      }
+      return revoked;
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      throw error;
+    }
+  }
+
+  // Revoke every active session of a user, e.g. after deactivation or a password reset.
+  // Pass exceptSessionId to keep the caller's own session alive.
+  static async revokeAllForUser(userId: number, reason: string, exceptSessionId?: string): Promise<number> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .input('reason', reason)
+        .input('exceptId', exceptSessionId || null)
+        .query(`
+          UPDATE auth_sessions
+          SET revoked_at = GETDATE(), revoked_reason = @reason
+          OUTPUT inserted.id
+          WHERE user_id = @userId AND revoked_at IS NULL
+            AND (@exceptId IS NULL OR id <> @exceptId)
+        `);
+
+      result.recordset.forEach(row => cacheSession(row.id, false));
+      return result.recordset.length;
+    } catch (error) {
+      console.error('Error revoking user sessions:', error);
+      throw error;
+    }
+  }
+
+  // List the sessions of a user that have not been revoked or expired, most recently used first
+  static async listActiveForUser(userId: number): Promise<SessionData[]> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .query(`
+          SELECT id, user_id, impersonator_id, ip_address, user_agent, created_at, last_used_at, expires_at
+          FROM auth_sessions
+          WHERE user_id = @userId AND revoked_at IS NULL AND expires_at > GETDATE()
+          ORDER BY last_used_at DESC
+        `);
+
+      return result.recordset;
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+      throw error;
+    }
+  }
+
+  // Check whether a session is still usable and its user is active, with a short in-memory cache
+  static async isActive(sessionId: string): Promise<boolean> {
+    const cached = sessionCache.get(sessionId);
+    if (cached && Date.now() - cached.checkedAt < SESSION_CACHE_TTL_MS) {
+      return cached.active;
+    }
+
+    try {
+      const pool = await db.getConnection();
+      const result = await pool.request()
+        .input('id', sessionId)
+        .query(`
+          SELECT s.id FROM auth_sessions s
+          INNER JOIN users u ON u.id = s.user_id
+          WHERE s.id = @id AND s.revoked_at IS NULL AND s.expires_at > GETDATE() AND u.status = 'active'
+        `);
+
+      const active = result.recordset.length > 0;
+      cacheSession(sessionId, active);
+      return active;
+    } catch (error) {
+      console.error('Error checking session:', error);
+      throw error;
+    }
+  }
+
+  // Shape a session row for API responses
+  static toResponse(session: SessionData, currentSessionId?: string) {
+    return {
+      id: session.id,
+      ipAddress: session.ip_address || null,
+      userAgent: session.user_agent || null,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at,
+      expiresAt: session.expires_at,
+      // Shown to the user so sessions opened by an admin acting as them are visible
+      impersonatedBy: session.impersonator_id || null,
+      current: session.id === currentSessionId
+    };
+  }
+}
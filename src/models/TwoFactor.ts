@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import { hashToken } from '../utils/auth';
+
+export interface TwoFactorState {
+  secret: string | null;
+  enabled: boolean;
+  lastStep: number | null;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are compared case-insensitively and without the dash
+const normalizeRecoveryCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+};
+
+export class TwoFactor {
+  // Get a user's TOTP secret and status
+  static async getState(userId: number): Promise<TwoFactorState | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .query('SELECT totp_secret, totp_enabled, totp_last_step FROM users WHERE id = @userId');
+
+      const row = result.recordset[0];
+      if (!row) {
+        return null;
+      }
+
+      return {
+        secret: row.totp_secret,
+        enabled: !!row.totp_enabled,
+        lastStep: row.totp_last_step !== null ? Number(row.totp_last_step) : null
+      };
+    } catch (error) {
+      console.error('Error getting two-factor state:', error);
+      throw error;
+    }
+  }
+
+  // Store a new secret that is not active until the user confirms a code from it
+  static async setPendingSecret(userId: number, secret: string): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('userId', userId)
+        .input('secret', secret)
+        .query('UPDATE users SET totp_secret = @secret, totp_enabled = 0, totp_last_step = NULL WHERE id = @userId');
+    } catch (error) {
+      console.error('Error storing two-factor secret:', error);
+      throw error;
+    }
+  }
+
+  // Record an accepted code. Fails if the step was already used, which means a replay.
+  static async acceptStep(userId: number, step: number, enable: boolean = false): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .input('step', step)
+        .input('enable', enable ? 1 : 0)
+        .query(`
+          UPDATE users
+          SET totp_last_step = @step,
+              totp_enabled = CASE WHEN @enable = 1 THEN 1 ELSE totp_enabled END
+          WHERE id = @userId AND (totp_last_step IS NULL OR totp_last_step < @step)
+        `);
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error accepting two-factor code:', error);
+      throw error;
+    }
+  }
+
+  // Turn two-factor authentication off and discard the secret and recovery codes
+  static async disable(userId: number): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('userId', userId)
+        .query(`
+          UPDATE users SET totp_secret = NULL, totp_enabled = 0, totp_last_step = NULL WHERE id = @userId;
+          DELETE FROM user_recovery_codes WHERE user_id = @userId;
+        `);
+    } catch (error) {
+      console.error('Error disabling two-factor authentication:', error);
+      throw error;
+    }
+  }
+
+  // Replace a user's recovery codes and return the new codes in plain text (shown once)
+  static async generateRecoveryCodes(userId: number): Promise<string[]> {
+    try {
+      const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+      });
+
+      const pool = await db.ensureConnection();
+      const request = pool.request().input('userId', userId);
+      const values = codes.map((code, i) => {
+        request.input(`code${i}`, hashToken(normalizeRecoveryCode(code)));
+        return `(@userId, @code${i})`;
+      });
+
+      await request.query(`
+        DELETE FROM user_recovery_codes WHERE user_id = @userId;
+        INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ${values.join(', ')};
+      `);
+
+      return codes;
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      throw error;
+    }
+  }
+
+  // Use up a recovery code. Returns false if it is wrong or was already used.
+  static async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .input('codeHash', hashToken(normalizeRecoveryCode(code)))
+        .query(`
+          UPDATE user_recovery_codes SET used_at = GETDATE()
+          WHERE user_id = @userId AND code_hash = @codeHash AND used_at IS NULL
+        `);
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error using recovery code:', error);
+      throw error;
+    }
+  }
+
+  // Count how many recovery codes a user has left
+  static async remainingRecoveryCodes(userId: number): Promise<number> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', userId)
+        .query('SELECT COUNT(*) AS count FROM user_recovery_codes WHERE user_id = @userId AND used_at IS NULL');
+
+      return result.recordset[0].count;
+    } catch (error) {
+      console.error('Error counting recovery codes:', error);
+      throw error;
+    }
+  }
+
+  // Whether users with this role must have two-factor authentication enabled
+  static async isRequiredForRole(role: string): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('role', role)
+        .query('SELECT require_2fa FROM role_settings WHERE role = @role');
+
+      return !!result.recordset[0]?.require_2fa;
+    } catch (error) {
+      console.error('Error checking two-factor policy:', error);
+      throw error;
+    }
+  }
+
+  // Get the roles that require two-factor authentication
+  static async getRequiredRoles(): Promise<string[]> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .query('SELECT role FROM role_settings WHERE require_2fa = 1');
+
+      return result.recordset.map(row => row.role);
+    } catch (error) {
+      console.error('Error getting two-factor policy:', error);
+      throw error;
+    }
+  }
+
+  // Require or stop requiring two-factor authentication for a role
+  static async setRequiredForRole(role: string, required: boolean): Promise<void> {
+    try {
+      const pool = await db.ensureConnection();
+      await pool.request()
+        .input('role', role)
+        .input('required', required ? 1 : 0)
+        .query(`
+          MERGE role_settings AS t
+          USING (SELECT @role AS role) AS s
+          ON t.role = s.role
+          WHEN MATCHED THEN UPDATE SET require_2fa = @required, updated_at = GETDATE()
+          WHEN NOT MATCHED THEN INSERT (role, require_2fa) VALUES (@role, @required);
+        `);
+    } catch (error) {
+      console.error('Error updating two-factor policy:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import db from '../config/database';
+import { Role } from '../config/roles';
+import { UserStatus, canTransition } from '../config/userStatus';
+
+export interface UserData {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: Role;
+  phone_number?: string | null;
+  status: UserStatus;
+  // Legacy mirror of status = 'active'
+  is_active: boolean;
+  status_changed_at?: Date | null;
+  status_changed_by?: number | null;
+  last_login?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface UserFilters {
+  role?: string;
+  status?: UserStatus;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface UserUpdate {
+  first_name?: string;
+  last_name?: string;
+  phone_number?: string | null;
+  role?: Role;
+}
+
+export interface UserStatusChange {
+  id: number;
+  user_id: number;
+  from_status: UserStatus | null;
+  to_status: UserStatus;
+  changed_by: number | null;
+  reason: string | null;
+  changed_at: Date;
+}
+
+export type StatusChangeResult =
+  | { ok: true; from: UserStatus; changed: boolean }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'invalid_transition'; from: UserStatus };
+
+// Never select the password hash for admin listings
+const USER_COLUMNS = 'id, email, first_name, last_name, role, phone_number, status, is_active, status_changed_at, status_changed_by, last_login, created_at, updated_at';
+
+export class User {
+  // List users matching the given filters, with the total count for pagination
+  static async list(filters: UserFilters = {}): Promise<{ users: UserData[]; totalCount: number }> {
+    try {
+      const pool = await db.ensureConnection();
+      const request = pool.request();
+      const whereClauses: string[] = [];
+
+      if (filters.role) {
+        whereClauses.push('role = @role');
+        request.input('role', filters.role);
+      }
+
+      if (filters.status) {
+        whereClauses.push('status = @status');
+        request.input('status', filters.status);
+      }
+
+      if (filters.search) {
+        whereClauses.push('(email LIKE @search OR first_name LIKE @search OR last_name LIKE @search)');
+        request.input('search', `%${filters.search.replace(/[%_[\]]/g, '[$&]')}%`);
+      }
+
+      request.input('limit', filters.limit ?? 100);
+      request.input('offset', filters.offset ?? 0);
+
+      const whereClause = whereClauses.length > 0
+        ? `WHERE ${whereClauses.join(' AND ')}`
+        : '';
+
+      const result = await request.query<[UserData, { count: number }]>(`
+        SELECT ${USER_COLUMNS} FROM users
+        ${whereClause}
+        ORDER BY created_at DESC
+        OFFSET @offset ROWS
+        FETCH NEXT @limit ROWS ONLY;
+        SELECT COUNT(*) AS count FROM users ${whereClause};
+      `);
+
+      const [users, count] = result.recordsets;
+      return {
+        users,
+        totalCount: count[0].count
+      };
+    } catch (error) {
+      console.error('Error listing users:', error);
+      throw error;
+    }
+  }
+
+  // Get a user by ID
+  static async getById(id: number): Promise<UserData | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query(`SELECT ${USER_COLUMNS} FROM users WHERE id = @id`);
+
+      return result.recordset[0] || null;
+    } catch (error) {
+      console.error('Error getting user by ID:', error);
+      throw error;
+    }
+  }
+
+  // Get a user by email
+  static async getByEmail(email: string): Promise<UserData | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('email', email)
+        .query(`SELECT ${USER_COLUMNS} FROM users WHERE email = @email`);
+
+      return result.recordset[0] || null;
+    } catch (error) {
+      console.error('Error getting user by email:', error);
+      throw error;
+    }
+  }
+
+  // Update profile fields and role
+  static async update(id: number, data: UserUpdate): Promise<boolean> {
+    try {
+      const allowedFields: (keyof UserUpdate)[] = ['first_name', 'last_name', 'phone_number', 'role'];
+      const pool = await db.ensureConnection();
+      const request = pool.request();
+
+      const setClauses = allowedFields
+        .filter(field => data[field] !== undefined)
+        .map(field => {
+          request.input(field, data[field]);
+          return `${field} = @${field}`;
+        });
+
+      if (setClauses.length === 0) {
+        return true;
+      }
+
+      request.input('id', id);
+      const result = await request.query(`
+        UPDATE users SET ${setClauses.join(', ')}, updated_at = GETDATE() WHERE id = @id
+      `);
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error updating user:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a user to another lifecycle state if the transition is allowed,
+   * recording when it happened and who did it. actorId is null for system changes.
+   */
+  static async changeStatus(
+    id: number,
+    to: UserStatus,
+    change: { actorId: number | null; reason?: string }
+  ): Promise<StatusChangeResult> {
+    try {
+      const pool = await db.ensureConnection();
+      const current = await pool.request()
+        .input('id', id)
+        .query('SELECT status FROM users WHERE id = @id');
+
+      const from: UserStatus | undefined = current.recordset[0]?.status;
+      if (!from) {
+        return { ok: false, reason: 'not_found' };
+      }
+
+      if (from === to) {
+        return { ok: true, from, changed: false };
+      }
+
+      if (!canTransition(from, to)) {
+        return { ok: false, reason: 'invalid_transition', from };
+      }
+
+      // The status guard makes a concurrent change lose instead of skipping the transition check
+      const result = await pool.request()
+        .input('id', id)
+        .input('from', from)
+        .input('to', to)
+        .input('isActive', to === 'active' ? 1 : 0)
+        .input('actorId', change.actorId)
+        .input('reason', change.reason?.substring(0, 500) || null)
+        .query(`
+          SET XACT_ABORT ON;
+          BEGIN TRANSACTION;
+          UPDATE users
+          SET status = @to, is_active = @isActive, status_changed_at = GETDATE(), status_changed_by = @actorId, updated_at = GETDATE()
+          WHERE id = @id AND status = @from;
+          IF @@ROWCOUNT = 1
+            INSERT INTO user_status_history (user_id, from_status, to_status, changed_by, reason)
+            VALUES (@id, @from, @to, @actorId, @reason);
+          SELECT status FROM users WHERE id = @id;
+          COMMIT TRANSACTION;
+        `);
+
+      const now: UserStatus | undefined = result.recordset[0]?.status;
+      if (now !== to) {
+        return now ? { ok: false, reason: 'invalid_transition', from: now } : { ok: false, reason: 'not_found' };
+      }
+
+      return { ok: true, from, changed: true };
+    } catch (error) {
+      console.error('Error changing user status:', error);
+      throw error;
+    }
+  }
+
+  // Status changes of a user, newest first
+  static async getStatusHistory(id: number): Promise<UserStatusChange[]> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query(`
+          SELECT id, user_id, from_status, to_status, changed_by, reason, changed_at
+          FROM user_status_history
+          WHERE user_id = @id
+          ORDER BY changed_at DESC, id DESC
+        `);
+
+      return result.recordset;
+    } catch (error) {
+      console.error('Error getting user status history:', error);
+      throw error;
+    }
+  }
+
+  // Get the stored password hash, for password checks only - never return it to clients
+  static async getPasswordHash(id: number): Promise<string | null> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .query('SELECT password FROM users WHERE id = @id');
+
+      return result.recordset[0]?.password || null;
+    } catch (error) {
+      console.error('Error getting user password hash:', error);
+      throw error;
+    }
+  }
+
+  // Replace the password hash
+  static async setPassword(id: number, hashedPassword: string): Promise<boolean> {
+    try {
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('id', id)
+        .input('password', hashedPassword)
+        .query('UPDATE users SET password = @password, updated_at = GETDATE() WHERE id = @id');
+
+      return result.rowsAffected[0] > 0;
+    } catch (error) {
+      console.error('Error setting user password:', error);
+      throw error;
+    }
+  }
+
+  // Shape a user row for API responses
+  static toResponse(user: UserData) {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      role: user.role,
+      phoneNumber: user.phone_number || null,
+      status: user.status,
+      statusChangedAt: user.status_changed_at || null,
+      statusChangedBy: user.status_changed_by || null,
+      lastLogin: user.last_login || null,
+      createdAt: user.created_at,
+      updatedAt: user.updated_at
+    };
+  }
+
+  // Shape a status history row for API responses
+  static toStatusChangeResponse(change: UserStatusChange) {
+    return {
+      id: change.id,
+      fromStatus: change.from_status,
+      toStatus: change.to_status,
+      changedBy: change.changed_by,
+      reason: change.reason,
+      changedAt: change.changed_at
+    };
+  }
+}
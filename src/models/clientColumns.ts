@@ -0,0 +1,353 @@
+import { Request as SqlRequest } from 'mssql';
+import type { ClientData } from './Client';
+import type { ClientFilter } from './clientFilters';
+import { POLICY_FIELDS, POLICY_ONLY_FIELDS, PolicyField } from './Policy';
+import { Role } from '../config/roles';
+import { CUSTOMER_TYPES } from '../config/clientOptions';
+import { FieldSpec, Schema } from '../utils/validation';
+
+export interface ClientColumn {
+  // Type and limits of values users may write. Columns without one are maintained by the server.
+  spec?: FieldSpec;
+  // Roles that may write the column; every role when unset. API keys can only write columns open to every role.
+  writableBy?: readonly Role[];
+  searchable?: boolean;
+  sortable?: boolean;
+}
+
+export type ClientColumnName = keyof ClientData;
+
+const text = (maxLength: number, extra: Partial<Extract<FieldSpec, { type: 'string' }>> = {}): FieldSpec => ({
+  type: 'string',
+  maxLength,
+  ...extra
+});
+
+/**
+ * Every column of the clients table, keyed by the ClientData fields so the compiler
+ * flags a field that is added to one but not the other. Sizes match schema.sql and
+ * alter-clients.sql, and sortable columns are indexed (add-client-search-indexes.sql). All SQL that Client builds from caller-supplied keys goes through
+ * this registry; anything not listed here never reaches a query.
+ */
+export const CLIENT_COLUMNS: Record<ClientColumnName, ClientColumn> = {
+  id: { spec: text(50, { createOnly: true }), writableBy: ['admin', 'manager'], searchable: true, sortable: true },
+  introducer_code: { spec: text(50), searchable: true, sortable: true },
+  customer_type: { spec: text(50, { required: true, enum: CUSTOMER_TYPES }), searchable: true, sortable: true },
+  product: { spec: text(50, { required: true }), searchable: true, sortable: true },
+  policy_: { spec: text(100), searchable: true },
+  insurance_provider: { spec: text(100, { required: true }), searchable: true, sortable: true },
+  branch: { spec: text(100), searchable: true, sortable: true },
+  client_name: { spec: text(255, { required: true }), searchable: true, sortable: true },
+  street1: { spec: text(255), searchable: true },
+  street2: { spec: text(255), searchable: true },
+  city: { spec: text(100), searchable: true, sortable: true },
+  district: { spec: text(100), searchable: true, sortable: true },
+  province: { spec: text(100), searchable: true, sortable: true },
+  telephone: { spec: text(50, { format: 'phone' }), searchable: true },
+  mobile_no: { spec: text(50, { required: true, format: 'phone' }), searchable: true },
+  contact_person: { spec: text(255), searchable: true },
+  email: { spec: text(255, { format: 'email' }), searchable: true, sortable: true },
+  social_media: { spec: text(255), searchable: true },
+  // Document references are written by the UI after upload but are not useful to search
+  nic_proof: { spec: text(255) },
+  dob_proof: { spec: text(255) },
+  business_registration: { spec: text(255) },
+  svat_proof: { spec: text(255) },
+  vat_proof: { spec: text(255) },
+  coverage_proof: { spec: text(255) },
+  sum_insured_proof: { spec: text(255) },
+  policy_fee_invoice: { spec: text(255) },
+  vat_fee_debit_note: { spec: text(255) },
+  payment_receipt_proof: { spec: text(255) },
+  ceilao_ib_file_no: { spec: text(100), searchable: true, sortable: true },
+  policyholder_doc: { spec: text(255) },
+  policyholder_text: { spec: text(500), searchable: true },
+  vehicle_number_doc: { spec: text(255) },
+  vehicle_number_text: { spec: text(100), searchable: true },
+  proposal_form_doc: { spec: text(255) },
+  proposal_form_text: { spec: text(500), searchable: true },
+  quotation_doc: { spec: text(255) },
+  quotation_text: { spec: text(500), searchable: true },
+  cr_copy_doc: { spec: text(255) },
+  cr_copy_text: { spec: text(500), searchable: true },
+  schedule_doc: { spec: text(255) },
+  schedule_text: { spec: text(500), searchable: true },
+  invoice_debit_note_doc: { spec: text(255) },
+  invoice_debit_note_text: { spec: text(500), searchable: true },
+  payment_receipt_doc: { spec: text(255) },
+  payment_receipt_text: { spec: text(500), searchable: true },
+  nic_br_doc: { spec: text(255) },
+  nic_br_text: { spec: text(500), searchable: true },
+  // No longer assigned through the API; every user can see every client
+  sales_rep_id: {},
+  created_at: { sortable: true },
+  updated_at: { sortable: true },
+  // Trash state only changes through moveToTrash, restore and purge
+  deleted_at: { sortable: true },
+  deleted_by: {},
+  // Set when the client was merged into another one and moved to the trash
+  merged_into: {}
+};
+
+const columnNames = Object.keys(CLIENT_COLUMNS) as ClientColumnName[];
+
+export const isClientColumn = (name: string): name is ClientColumnName => {
+  return Object.prototype.hasOwnProperty.call(CLIENT_COLUMNS, name);
+};
+
+export const SEARCHABLE_COLUMNS = columnNames.filter(name => CLIENT_COLUMNS[name].searchable);
+export const SORTABLE_COLUMNS = columnNames.filter(name => CLIENT_COLUMNS[name].sortable);
+
+// Validation schema of the writable columns, used by Client.fromInput()
+export const CLIENT_SCHEMA: Schema = columnNames.reduce((schema, name) => {
+  const spec = CLIENT_COLUMNS[name].spec;
+  if (spec) {
+    schema[name] = spec;
+  }
+  return schema;
+}, {} as Schema);
+
+/**
+ * Whether a caller may write a column. role is undefined for API keys.
+ */
+export const canWriteColumn = (name: ClientColumnName, role: string | undefined): boolean => {
+  const column = CLIENT_COLUMNS[name];
+  if (!column.spec) {
+    return false;
+  }
+  if (!column.writableBy) {
+    return true;
+  }
+  return role !== undefined && (column.writableBy as readonly string[]).includes(role);
+};
+
+/**
+ * Name of a policy field in rows that also hold client columns. Fields clients have too,
+ * such as product, get a policy_ prefix.
+ */
+export const policyColumnName = (field: PolicyField): string => {
+  return isClientColumn(field) ? `policy_${field}` : field;
+};
+
+export interface ClientSort {
+  column: ClientColumnName;
+  direction: 'ASC' | 'DESC';
+}
+
+export const DEFAULT_CLIENT_SORT: ClientSort = { column: 'created_at', direction: 'DESC' };
+export const DEFAULT_TRASH_SORT: ClientSort = { column: 'deleted_at', direction: 'DESC' };
+
+/**
+ * Read `sort` and `order` query parameters. Only sortable columns are accepted.
+ */
+export const parseClientSort = (
+  sort: unknown,
+  order: unknown,
+  fallback: ClientSort
+): { sort: ClientSort } | { error: string } => {
+  if (sort === undefined || sort === '') {
+    return { sort: fallback };
+  }
+  if (typeof sort !== 'string' || !isClientColumn(sort) || !CLIENT_COLUMNS[sort].sortable) {
+    return { error: `Invalid sort. Allowed values: ${SORTABLE_COLUMNS.join(', ')}` };
+  }
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return { error: 'Invalid order. Allowed values: asc, desc' };
+  }
+  return { sort: { column: sort, direction: order === 'desc' ? 'DESC' : 'ASC' } };
+};
+
+/**
+ * Builds the dynamic parts of client queries on one mssql request. Column names
+ * only ever come from CLIENT_COLUMNS and POLICY_ONLY_FIELDS, and every value is bound
+ * as a parameter. Asking for a column the registry does not allow for that use
+ * throws, since routes validate input before it gets here.
+ */
+export class ClientQuery {
+  private paramCount = 0;
+
+  constructor(private readonly request: SqlRequest) {}
+
+  // Bind a value and return its placeholder
+  param(value: unknown): string {
+    const name = `q${this.paramCount++}`;
+    this.request.input(name, value);
+    return `@${name}`;
+  }
+
+  private writable(name: string, onUpdate: boolean): ClientColumnName {
+    const spec = isClientColumn(name) ? CLIENT_COLUMNS[name].spec : undefined;
+    if (!spec || (onUpdate && spec.createOnly)) {
+      throw new Error(`Client column ${name} cannot be written`);
+    }
+    return name as ClientColumnName;
+  }
+
+  // Column list and placeholders for an INSERT. Undefined values are left out.
+  insert(values: Record<string, unknown>): { columns: string; placeholders: string } {
+    const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+    return {
+      columns: entries.map(([name]) => this.writable(name, false)).join(', '),
+      placeholders: entries.map(([, value]) => this.param(value)).join(', ')
+    };
+  }
+
+  // Assignments for an UPDATE. Undefined values are left out.
+  set(values: Record<string, unknown>): string[] {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${this.writable(name, true)} = ${this.param(value)}`);
+  }
+
+  /**
+   * Conditions for search criteria. Text matches partially, other values exactly.
+   * Policy fields match clients with at least one matching policy.
+   */
+  where(criteria: Record<string, unknown>): string[] {
+    return Object.entries(criteria)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([name, value]) => {
+        const isPolicyColumn = (POLICY_ONLY_FIELDS as string[]).includes(name);
+        if (!isPolicyColumn && !(isClientColumn(name) && CLIENT_COLUMNS[name].searchable)) {
+          throw new Error(`Client column ${name} cannot be searched`);
+        }
+
+        const condition = typeof value === 'string'
+          ? `${name} LIKE ${this.param(`%${value}%`)}`
+          : `${name} = ${this.param(value)}`;
+
+        return isPolicyColumn
+          ? `EXISTS (SELECT 1 FROM policies p WHERE p.client_id = clients.id AND p.${condition})`
+          : `clients.${condition}`;
+      });
+  }
+
+  /**
+   * Conditions for structured filters. Each client filter adds a condition; policy filters
+   * are combined into one EXISTS, so they must all hold for the same policy.
+   */
+  filter(filters: readonly ClientFilter[]): string[] {
+    const conditions = filters
+      .filter(filter => filter.table === 'clients')
+      .map(filter => this.condition('clients', filter));
+
+    const policyConditions = this.policyConditions(filters);
+    if (policyConditions.length > 0) {
+      conditions.push(`EXISTS (SELECT 1 FROM policies p WHERE p.client_id = clients.id AND ${policyConditions.join(' AND ')})`);
+    }
+    return conditions;
+  }
+
+  // The client list's search box: the name or mobile number contains the text
+  listSearch(term: string | undefined): string[] {
+    if (!term) {
+      return [];
+    }
+    const pattern = this.param(`%${term.replace(/[%_[]/g, '[$&]')}%`);
+    return [`(clients.client_name LIKE ${pattern} OR clients.mobile_no LIKE ${pattern})`];
+  }
+
+  // Conditions of the policy filters, on policies aliased as p
+  policyConditions(filters: readonly ClientFilter[]): string[] {
+    return filters
+      .filter(filter => filter.table === 'policies')
+      .map(filter => this.condition('p', filter));
+  }
+
+  private condition(alias: 'clients' | 'p', filter: ClientFilter): string {
+    const allowed = filter.table === 'clients'
+      ? isClientColumn(filter.field) && CLIENT_COLUMNS[filter.field].searchable
+      : (POLICY_ONLY_FIELDS as string[]).includes(filter.field);
+    if (!allowed) {
+      throw new Error(`Column ${filter.field} cannot be filtered on`);
+    }
+
+    // Policy periods are stored as text; rows that do not hold a date never match a range
+    const column = filter.type === 'date'
+      ? `TRY_CONVERT(DATE, ${alias}.${filter.field})`
+      : `${alias}.${filter.field}`;
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+    // Empty text counts as no value, since older rows store '' instead of NULL
+    const blank = filter.type === 'string' ? `NULLIF(${column}, '')` : column;
+
+    switch (filter.op) {
+      case 'eq':
+        return `${column} = ${this.param(filter.value)}`;
+      case 'ne':
+        return `(${column} <> ${this.param(filter.value)} OR ${column} IS NULL)`;
+      case 'in':
+        return `${column} IN (${values.map(value => this.param(value)).join(', ')})`;
+      case 'contains':
+        return `${column} LIKE ${this.param(`%${String(filter.value).replace(/[%_[]/g, '[$&]')}%`)}`;
+      case 'gt':
+        return `${column} > ${this.param(filter.value)}`;
+      case 'gte':
+        return `${column} >= ${this.param(filter.value)}`;
+      case 'lt':
+        return `${column} < ${this.param(filter.value)}`;
+      case 'lte':
+        return `${column} <= ${this.param(filter.value)}`;
+      case 'between':
+        return `${column} BETWEEN ${this.param(values[0])} AND ${this.param(values[1])}`;
+      case 'is_null':
+        return `${blank} IS NULL`;
+      case 'not_null':
+        return `${blank} IS NOT NULL`;
+    }
+  }
+
+  // Select list of client columns, or every column
+  select(fields?: readonly ClientColumnName[]): string {
+    if (!fields) {
+      return 'clients.*';
+    }
+    return fields
+      .map(name => {
+        if (!isClientColumn(name)) {
+          throw new Error(`Unknown client column ${name}`);
+        }
+        return `clients.${name}`;
+      })
+      .join(', ');
+  }
+
+  // Select list of policy fields, on policies aliased as p, with the policy and client IDs
+  selectPolicies(fields: readonly PolicyField[]): string {
+    return ['id', 'client_id', ...fields]
+      .map(name => {
+        if (name !== 'id' && name !== 'client_id' && !(POLICY_FIELDS as readonly string[]).includes(name)) {
+          throw new Error(`Unknown policy column ${name}`);
+        }
+        return `p.${name}`;
+      })
+      .join(', ');
+  }
+
+  // Select list of policy fields on policies aliased as p, named by policyColumnName()
+  selectPolicyColumns(fields: readonly PolicyField[]): string {
+    return fields
+      .map(name => {
+        if (!(POLICY_FIELDS as readonly string[]).includes(name)) {
+          throw new Error(`Unknown policy column ${name}`);
+        }
+        return `p.${name} AS ${policyColumnName(name)}`;
+      })
+      .join(', ');
+  }
+
+  // ORDER BY clause, with the ID as a tiebreaker so pages do not overlap
+  orderBy(sort: ClientSort | readonly ClientSort[]): string {
+    const keys = 'column' in sort ? [sort] : sort;
+    const terms = keys.map(key => {
+      if (!CLIENT_COLUMNS[key.column]?.sortable) {
+        throw new Error(`Client column ${key.column} cannot be sorted on`);
+      }
+      return `clients.${key.column} ${key.direction === 'DESC' ? 'DESC' : 'ASC'}`;
+    });
+
+    if (!keys.some(key => key.column === 'id')) {
+      terms.push('clients.id ASC');
+    }
+    return `ORDER BY ${terms.join(', ')}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { commissionFieldErrors, visibleAuditChanges, visiblePolicy } from './clientExport';
+
+// The pool connects as soon as it is imported
+jest.mock('../config/database', () => ({ __esModule: true, default: {} }));
+
+const policy = {
+  id: 10,
+  policy_no: 'MC-1',
+  net_premium: 18500,
+  commission_type: 'Percentage',
+  commission_basic: 10,
+  commission_srcc: 1,
+  commission_tc: 0.5
+};
+
+describe('visiblePolicy', () => {
+  it('leaves out commission for callers who may not see it', () => {
+    expect(visiblePolicy(policy, false)).toEqual({ id: 10, policy_no: 'MC-1', net_premium: 18500 });
+    expect(policy.commission_basic).toBe(10);
+  });
+
+  it('keeps it for callers who may', () => {
+    expect(visiblePolicy(policy, true)).toBe(policy);
+  });
+});
+
+describe('visibleAuditChanges', () => {
+  const entry = {
+    id: 1,
+    changes: [
+      { field: 'commission_basic', before: 10, after: 12 },
+      { field: 'net_premium', before: 18000, after: 18500 }
+    ]
+  };
+
+  it('leaves out changes to commission for callers who may not see it', () => {
+    expect(visibleAuditChanges(entry, false)).toEqual({ id: 1, changes: [{ field: 'net_premium', before: 18000, after: 18500 }] });
+    expect(visibleAuditChanges(entry, true)).toBe(entry);
+  });
+});
+
+describe('commissionFieldErrors', () => {
+  it('reports the commission fields asked for', () => {
+    expect(commissionFieldErrors(['policy_no', 'commission_basic', 'commission_type'], false)).toEqual([
+      { field: 'policyFields', message: 'commission_basic, commission_type cannot be shown to your role' }
+    ]);
+    expect(commissionFieldErrors(['commission_basic'], true)).toEqual([]);
+    expect(commissionFieldErrors(undefined, false)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Permission } from '../config/permissions';
+import type { FieldChange } from './ClientAudit';
+import { FieldError } from '../utils/validation';
+import { CellValue } from '../utils/tableExport';
+import { CLIENT_COLUMNS, ClientColumnName, policyColumnName } from './clientColumns';
+import type { ClientFilterQuery } from './clientFilters';
+import { POLICY_COMMISSION_FIELDS, POLICY_ONLY_FIELDS, PolicyField } from './Policy';
+
+// Commission is report data, so callers who may view reports may see it
+export const COMMISSION_PERMISSION: Permission = 'reports.view';
+
+// Client columns exported when none are chosen: everything users enter, and when the client was added and last changed
+export const DEFAULT_EXPORT_FIELDS = (Object.keys(CLIENT_COLUMNS) as ClientColumnName[])
+  .filter(name => CLIENT_COLUMNS[name].spec || name === 'created_at' || name === 'updated_at');
+
+const isCommissionField = (field: string): boolean => {
+  return (POLICY_COMMISSION_FIELDS as readonly string[]).includes(field);
+};
+
+// A policy without the commission fields unless the caller may see them
+export const visiblePolicy = <T extends object>(policy: T, canSeeCommission: boolean): T => {
+  if (canSeeCommission) {
+    return policy;
+  }
+  return Object.fromEntries(Object.entries(policy).filter(([field]) => !isCommissionField(field))) as T;
+};
+
+// An audit entry without changes to commission fields unless the caller may see them
+export const visibleAuditChanges = <T extends { changes: FieldChange[] }>(entry: T, canSeeCommission: boolean): T => {
+  return canSeeCommission ? entry : { ...entry, changes: entry.changes.filter(change => !isCommissionField(change.field)) };
+};
+
+// An error for the commission fields among policyFields when the caller may not see them
+export const commissionFieldErrors = (policyFields: readonly PolicyField[] | undefined, canSeeCommission: boolean): FieldError[] => {
+  const hidden = (policyFields || []).filter(isCommissionField);
+  if (canSeeCommission || hidden.length === 0) {
+    return [];
+  }
+  return [{ field: 'policyFields', message: `${hidden.join(', ')} cannot be shown to your role` }];
+};
+
+export interface ClientExportColumns {
+  fields: ClientColumnName[];
+  policyFields: PolicyField[];
+  // Column names in the file, in order
+  headers: string[];
+}
+
+/**
+ * Columns of an export. Without fields the client columns are DEFAULT_EXPORT_FIELDS.
+ * Without policyFields every policy field the caller may see is added, apart from the
+ * product and insurance provider that policies take from their client; pass an empty
+ * list for one row per client.
+ */
+export const exportColumns = (query: ClientFilterQuery, canSeeCommission: boolean): ClientExportColumns => {
+  const fields = query.fields || DEFAULT_EXPORT_FIELDS;
+  const policyFields = query.policyFields || POLICY_ONLY_FIELDS.filter(field => canSeeCommission || !isCommissionField(field));
+  return { fields, policyFields, headers: [...fields, ...policyFields.map(policyColumnName)] };
+};
+
+// Cells of a streamed row in header order, with times in ISO 8601
+export const exportCells = (row: Record<string, unknown>, headers: readonly string[]): CellValue[] => {
+  return headers.map(header => {
+    const value = row[header];
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return typeof value === 'number' ? value : String(value);
+  });
+};
@@ -0,0 +1,242 @@
+import { FieldError, FieldSpec, checkValue, isBlank } from '../utils/validation';
+import {
+  CLIENT_COLUMNS, ClientColumnName, ClientSort, DEFAULT_CLIENT_SORT, SORTABLE_COLUMNS, isClientColumn
+} from './clientColumns';
+import { POLICY_FIELDS, POLICY_ONLY_FIELDS, POLICY_SCHEMA, PolicyField } from './Policy';
+
+export const FILTER_OPERATORS = [
+  'eq', 'ne', 'in', 'contains', 'gt', 'gte', 'lt', 'lte', 'between', 'is_null', 'not_null'
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+const RANGE_OPERATORS: readonly FilterOperator[] = ['gt', 'gte', 'lt', 'lte', 'between'];
+const NULL_OPERATORS: readonly FilterOperator[] = ['is_null', 'not_null'];
+
+const MAX_FILTERS = 50;
+const MAX_IN_VALUES = 100;
+const MAX_SORT_KEYS = 3;
+const MAX_LIMIT = 500;
+const MAX_SEARCH_LENGTH = 255;
+
+export interface ClientFilter {
+  // Policy filters match clients with at least one policy that satisfies all of them
+  table: 'clients' | 'policies';
+  field: string;
+  op: FilterOperator;
+  type: FieldSpec['type'];
+  // One value, a list for in, [from, to] for between, unset for null checks
+  value?: unknown;
+}
+
+export interface ClientFilterQuery {
+  filters: ClientFilter[];
+  // Text the client name or mobile number must contain, as in the client list
+  search?: string;
+  sort: ClientSort[];
+  // Client columns to return, always including id; every column when unset
+  fields?: ClientColumnName[];
+  // Policy fields to return with the policies that matched; no policies when unset
+  policyFields?: PolicyField[];
+  limit: number;
+  offset: number;
+}
+
+// Where a filterable field lives and the spec its values are checked against
+const filterTarget = (field: string): { table: ClientFilter['table']; spec: FieldSpec } | { error: string } => {
+  if (isClientColumn(field)) {
+    const { spec, searchable } = CLIENT_COLUMNS[field];
+    return spec && searchable ? { table: 'clients', spec } : { error: 'cannot be searched' };
+  }
+  if ((POLICY_ONLY_FIELDS as string[]).includes(field)) {
+    return { table: 'policies', spec: POLICY_SCHEMA[field as PolicyField] };
+  }
+  return { error: 'is not a known field' };
+};
+
+const checkFilterValue = (spec: FieldSpec, value: unknown): { value: unknown } | { error: string } => {
+  if (value === undefined || isBlank(value)) {
+    return { error: 'needs a value' };
+  }
+  if (typeof value === 'object') {
+    return { error: 'must be a single value' };
+  }
+  return checkValue(spec, value, 'search');
+};
+
+const parseFilter = (raw: any, path: string): { filter: ClientFilter } | { error: FieldError } => {
+  const fail = (field: string, message: string) => ({ error: { field: `${path}.${field}`, message } });
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: { field: path, message: 'must be an object with field, op and value' } };
+  }
+  if (typeof raw.field !== 'string') {
+    return fail('field', 'is required');
+  }
+
+  const target = filterTarget(raw.field);
+  if ('error' in target) {
+    return fail('field', `${raw.field} ${target.error}`);
+  }
+
+  const op = raw.op ?? 'eq';
+  if (!FILTER_OPERATORS.includes(op)) {
+    return fail('op', `must be one of: ${FILTER_OPERATORS.join(', ')}`);
+  }
+  if (op === 'contains' && target.spec.type !== 'string') {
+    return fail('op', 'contains can only be used on text fields');
+  }
+  if (RANGE_OPERATORS.includes(op) && target.spec.type === 'string') {
+    return fail('op', `${op} can only be used on amounts and dates`);
+  }
+
+  const filter: ClientFilter = { table: target.table, field: raw.field, op, type: target.spec.type };
+
+  if (NULL_OPERATORS.includes(op)) {
+    return { filter };
+  }
+
+  if (op === 'in' || op === 'between') {
+    const values = raw.value;
+    if (!Array.isArray(values) || values.length === 0) {
+      return fail('value', op === 'in' ? 'must be a list of values' : 'must be [from, to]');
+    }
+    if (op === 'between' && values.length !== 2) {
+      return fail('value', 'must be [from, to]');
+    }
+    if (values.length > MAX_IN_VALUES) {
+      return fail('value', `must have at most ${MAX_IN_VALUES} values`);
+    }
+
+    const checked: unknown[] = [];
+    for (const value of values) {
+      const result = checkFilterValue(target.spec, value);
+      if ('error' in result) {
+        return fail('value', result.error);
+      }
+      checked.push(result.value);
+    }
+    return { filter: { ...filter, value: checked } };
+  }
+
+  const result = checkFilterValue(target.spec, raw.value);
+  if ('error' in result) {
+    return fail('value', result.error);
+  }
+  return { filter: { ...filter, value: result.value } };
+};
+
+const parseSortKey = (raw: any, path: string): { sort: ClientSort } | { error: FieldError } => {
+  if (!raw || typeof raw !== 'object' || typeof raw.field !== 'string') {
+    return { error: { field: path, message: 'must be an object with field and order' } };
+  }
+  const field: string = raw.field;
+  if (!isClientColumn(field) || !CLIENT_COLUMNS[field].sortable) {
+    return { error: { field: `${path}.field`, message: `must be one of: ${SORTABLE_COLUMNS.join(', ')}` } };
+  }
+  if (raw.order !== undefined && raw.order !== 'asc' && raw.order !== 'desc') {
+    return { error: { field: `${path}.order`, message: 'must be one of: asc, desc' } };
+  }
+  return { sort: { column: field, direction: raw.order === 'desc' ? 'DESC' : 'ASC' } };
+};
+
+const parsePaging = (value: unknown, fallback: number, min: number, max: number): number | null => {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+};
+
+/**
+ * Read the body of a structured client search. Returns every problem at once, in the
+ * same shape as validation errors, with paths such as `filters[2].value`.
+ */
+export const parseClientFilterQuery = (
+  body: Record<string, any>
+): { query: ClientFilterQuery } | { errors: FieldError[] } => {
+  const { filters = [], search, sort, fields, policyFields, limit, offset, ...rest } = body;
+  const errors: FieldError[] = Object.keys(rest).map(field => ({ field, message: 'is not a known field' }));
+  const query: ClientFilterQuery = { filters: [], sort: [DEFAULT_CLIENT_SORT], limit: 100, offset: 0 };
+
+  if (!Array.isArray(filters)) {
+    errors.push({ field: 'filters', message: 'must be a list' });
+  } else if (filters.length > MAX_FILTERS) {
+    errors.push({ field: 'filters', message: `must have at most ${MAX_FILTERS} entries` });
+  } else {
+    filters.forEach((raw, index) => {
+      const result = parseFilter(raw, `filters[${index}]`);
+      if ('error' in result) {
+        errors.push(result.error);
+      } else {
+        query.filters.push(result.filter);
+      }
+    });
+  }
+
+  if (search !== undefined) {
+    if (typeof search !== 'string' || search.length > MAX_SEARCH_LENGTH) {
+      errors.push({ field: 'search', message: `must be text of at most ${MAX_SEARCH_LENGTH} characters` });
+    } else if (search.trim() !== '') {
+      query.search = search.trim();
+    }
+  }
+
+  if (sort !== undefined) {
+    if (!Array.isArray(sort) || sort.length === 0 || sort.length > MAX_SORT_KEYS) {
+      errors.push({ field: 'sort', message: `must be a list of 1 to ${MAX_SORT_KEYS} entries` });
+    } else {
+      query.sort = [];
+      sort.forEach((raw, index) => {
+        const result = parseSortKey(raw, `sort[${index}]`);
+        if ('error' in result) {
+          errors.push(result.error);
+        } else {
+          query.sort.push(result.sort);
+        }
+      });
+    }
+  }
+
+  if (fields !== undefined) {
+    if (!Array.isArray(fields) || fields.length === 0) {
+      errors.push({ field: 'fields', message: 'must be a list of client fields' });
+    } else {
+      const unknown = fields.filter(field => typeof field !== 'string' || !isClientColumn(field));
+      if (unknown.length > 0) {
+        errors.push({ field: 'fields', message: `unknown client fields: ${unknown.join(', ')}` });
+      } else {
+        query.fields = Array.from(new Set<ClientColumnName>(['id', ...fields]));
+      }
+    }
+  }
+
+  if (policyFields !== undefined) {
+    if (!Array.isArray(policyFields)) {
+      errors.push({ field: 'policyFields', message: 'must be a list of policy fields' });
+    } else {
+      const unknown = policyFields.filter(field => !(POLICY_FIELDS as readonly unknown[]).includes(field));
+      if (unknown.length > 0) {
+        errors.push({ field: 'policyFields', message: `unknown policy fields: ${unknown.join(', ')}` });
+      } else {
+        query.policyFields = Array.from(new Set<PolicyField>(policyFields));
+      }
+    }
+  }
+
+  const parsedLimit = parsePaging(limit, 100, 1, MAX_LIMIT);
+  if (parsedLimit === null) {
+    errors.push({ field: 'limit', message: `must be a whole number from 1 to ${MAX_LIMIT}` });
+  } else {
+    query.limit = parsedLimit;
+  }
+
+  const parsedOffset = parsePaging(offset, 0, 0, Number.MAX_SAFE_INTEGER);
+  if (parsedOffset === null) {
+    errors.push({ field: 'offset', message: 'must be a whole number of at least 0' });
+  } else {
+    query.offset = parsedOffset;
+  }
+
+  return errors.length > 0 ? { errors } : { query };
+};
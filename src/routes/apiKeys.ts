@@ -0,0 +1,100 @@
+import { Router, Response } from 'express';
+import { authenticateUser, requirePermission, AuthRequest } from '../middleware/auth';
+import { isValidPermission, USER_ONLY_PERMISSIONS } from '../config/permissions';
+import { isValidIpRule } from '../utils/ip';
+import { ApiKey } from '../models/ApiKey';
+import { userAdminLimiter } from '../middleware/rateLimit';
+
+const router = Router();
+
+router.use(userAdminLimiter, authenticateUser, requirePermission('api_keys.manage'));
+
+// List all API keys; the key values themselves are never returned
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKeys = await ApiKey.list();
+    res.json({ apiKeys: apiKeys.map(ApiKey.toResponse) });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Create an API key for another service
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, permissions, allowedIps, expiresAt } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length > 100) {
+      return res.status(400).json({ message: 'Name is required and must be at most 100 characters' });
+    }
+
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      return res.status(400).json({ message: 'permissions must be a non-empty array of permission names' });
+    }
+
+    const unknown = permissions.filter(permission => !isValidPermission(permission));
+    if (unknown.length > 0) {
+      return res.status(400).json({ message: `Unknown permissions: ${unknown.join(', ')}` });
+    }
+
+    const userOnly = permissions.filter(permission => USER_ONLY_PERMISSIONS.includes(permission));
+    if (userOnly.length > 0) {
+      return res.status(400).json({ message: `API keys cannot be granted: ${userOnly.join(', ')}` });
+    }
+
+    if (allowedIps !== undefined && (!Array.isArray(allowedIps) || !allowedIps.every(rule => typeof rule === 'string' && isValidIpRule(rule)))) {
+      return res.status(400).json({ message: 'allowedIps must be an array of IP addresses or IPv4 CIDR ranges' });
+    }
+
+    let expiryDate: Date | null = null;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiryDate = new Date(expiresAt);
+      if (isNaN(expiryDate.getTime()) || expiryDate.getTime() <= Date.now()) {
+        return res.status(400).json({ message: 'expiresAt must be a date in the future' });
+      }
+    }
+
+    const { apiKey, key } = await ApiKey.create({
+      name: name.trim(),
+      permissions,
+      allowedIps: allowedIps ? allowedIps.map((rule: string) => rule.trim()) : undefined,
+      expiresAt: expiryDate,
+      createdBy: req.user!.userId
+    });
+
+    console.log(`API key ${apiKey.prefix} (${apiKey.name}) created by user ${req.user!.userId}`);
+
+    res.status(201).json({
+      message: 'API key created. Store the key now - it cannot be shown again.',
+      key,
+      apiKey: ApiKey.toResponse(apiKey)
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Revoke an API key
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid API key ID' });
+    }
+
+    const revoked = await ApiKey.revoke(id, req.user!.userId);
+    if (!revoked) {
+      return res.status(404).json({ message: 'API key not found or already revoked' });
+    }
+
+    console.log(`API key ${id} revoked by user ${req.user!.userId}`);
+    res.json({ message: 'API key revoked successfully' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+export default router;
@@ -1,13 +1,35 @@
 import { Router, Request, Response } from 'express';
 import db from '../config/database';
-import { hashPassword, comparePassword, generateToken } from '../utils/auth';
-import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { comparePassword, generateToken, generateChallengeToken, verifyChallengeToken, JWT_EXPIRES_IN } from '../utils/auth';
+import { authenticate, authenticateUser, denyWhileImpersonating, resolveUserToken, AuthRequest } from '../middleware/auth';
 import { logPerformance } from '../middleware/logging';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+import { PasswordToken, RESET_TOKEN_TTL_HOURS } from '../models/PasswordToken';
+import { sendMail, frontendLink, passwordResetEmail } from '../services/mail';
+import { LoginThrottle } from '../models/LoginThrottle';
+import { TwoFactor } from '../models/TwoFactor';
+import { RolePermission } from '../models/RolePermission';
+import { USER_ONLY_PERMISSIONS } from '../config/permissions';
+import { startLoginSession, recordLoginAttempt } from '../services/auth';
+import { verifyTotpCode } from '../utils/totp';
+import { checkNewPassword, storeUserPassword, setUserPassword, getPasswordPolicy, POLICY_ERROR_MESSAGE } from '../services/password';
+import { loginLimiter, refreshLimiter, passwordResetLimiter, validateTokenLimiter } from '../middleware/rateLimit';
 
 const router = Router();
 
+// Tell the client when it may try logging in again
+const sendLockedResponse = (res: Response, lockedUntil: Date) => {
+  const retryAfterSeconds = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000));
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({
+    message: 'Too many failed login attempts. Please try again later.',
+    lockedUntil: new Date(lockedUntil).toISOString()
+  });
+};
+
 // Login route
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', loginLimiter, async (req: Request, res: Response) => {
   // Start overall timing
   const startTimeTotal = process.hrtime();
   const logData: any = {
@@ -27,6 +49,8 @@ router.post('/login', async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Email and password are required' });
     }
 
+    const clientIp = req.ip || 'unknown';
+
     try {
     // DB Connection timing
     const startTimeDbConn = process.hrtime();
@@ -34,13 +58,22 @@ router.post('/login', async (req: Request, res: Response) => {
       const pool = await db.ensureConnection();
     const dbConnTime = process.hrtime(startTimeDbConn);
     logData.db_connection_ms = (dbConnTime[0] * 1000 + dbConnTime[1] / 1000000).toFixed(2);
+
+    // Refuse locked accounts and IPs before doing any password work
+    const lockedUntil = await LoginThrottle.getLockedUntil(email, clientIp);
+    if (lockedUntil) {
+      logData.failure_reason = 'locked_out';
+      logPerformance('login', logData);
+      await recordLoginAttempt(req, 'locked_out', { email });
+      return sendLockedResponse(res, lockedUntil);
+    }
     
     // DB Query timing
     const startTimeDbQuery = process.hrtime();
     // Get user from database - optimized to select only necessary fields
     const result = await pool.request()
       .input('email', email)
-      .query('SELECT id, email, password, first_name, last_name, role, status FROM users WHERE email = @email');
+      .query('SELECT id, email, password, first_name, last_name, role, status, totp_enabled FROM users WHERE email = @email');
     
     const dbQueryTime = process.hrtime(startTimeDbQuery);
     logData.db_query_ms = (dbQueryTime[0] * 1000 + dbQueryTime[1] / 1000000).toFixed(2);
@@ -51,6 +84,11 @@ router.post('/login', async (req: Request, res: Response) => {
       logData.failure_reason = 'invalid_credentials';
       logData.success = false;
       logPerformance('login', logData);
+      await recordLoginAttempt(req, 'unknown_email', { email });
+      const newLock = await LoginThrottle.recordFailure(email, clientIp);
+      if (newLock) {
+        return sendLockedResponse(res, newLock);
+      }
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
@@ -65,61 +103,62 @@ router.post('/login', async (req: Request, res: Response) => {
       logData.failure_reason = 'invalid_credentials';
       logData.success = false;
       logPerformance('login', logData);
+      await recordLoginAttempt(req, 'invalid_password', { userId: user.id, email });
+      const newLock = await LoginThrottle.recordFailure(email, clientIp);
+      if (newLock) {
+        return sendLockedResponse(res, newLock);
+      }
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
+    // Correct password - forget earlier failures for this account
+    await LoginThrottle.reset('email', email);
+
     // Check if account is active
     if (user.status !== 'active') {
       logData.failure_reason = 'account_inactive';
       logData.success = false;
       logPerformance('login', logData);
+      await recordLoginAttempt(req, 'account_inactive', { userId: user.id, email });
       return res.status(403).json({ message: 'Account is not active. Please contact administrator.' });
     }
 
-    // JWT generation timing
+    // Accounts with two-factor authentication continue with a second step
+    if (user.totp_enabled) {
+      logData.two_factor = 'required';
+      logPerformance('login', logData);
+      await recordLoginAttempt(req, 'two_factor_required', { userId: user.id, email });
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id, 'two_factor')
+      });
+    }
+
+    // Roles that require two-factor authentication must enroll before they get a session
+    if (await TwoFactor.isRequiredForRole(user.role)) {
+      logData.two_factor = 'setup_required';
+      logPerformance('login', logData);
+      await recordLoginAttempt(req, 'two_factor_setup_required', { userId: user.id, email });
+      return res.json({
+        twoFactorSetupRequired: true,
+        challengeToken: generateChallengeToken(user.id, 'two_factor_setup')
+      });
+    }
+
+    // Session and token timing
     const startTimeJwt = process.hrtime();
-    // Generate token
-    const token = generateToken(user.id, user.role);
+    const loginResponse = await startLoginSession(req, user);
     const jwtTime = process.hrtime(startTimeJwt);
     logData.jwt_generation_ms = (jwtTime[0] * 1000 + jwtTime[1] / 1000000).toFixed(2);
 
-    // Update last login asynchronously - don't wait for it to complete
-    (async () => {
-      try {
-        const updateStartTime = process.hrtime();
-          const updatePool = await db.getConnection();
-          await updatePool.request()
-          .input('id', user.id)
-          .query('UPDATE users SET last_login = GETDATE() WHERE id = @id');
-        const updateTime = process.hrtime(updateStartTime);
-        console.log(JSON.stringify({
-          event: 'last_login_update',
-          user_id: user.id,
-          timestamp: new Date().toISOString(),
-          duration_ms: (updateTime[0] * 1000 + updateTime[1] / 1000000).toFixed(2)
-        }));
-      } catch (updateError) {
-        console.error('Failed to update last login time:', updateError);
-      }
-    })();
-
     // Calculate total time
     const totalTime = process.hrtime(startTimeTotal);
     logData.total_duration_ms = (totalTime[0] * 1000 + totalTime[1] / 1000000).toFixed(2);
     logData.success = true;
     logPerformance('login', logData);
 
-    // Return user data and token
-    res.json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        role: user.role
-      }
-    });
+    // Return user data and tokens
+    res.json(loginResponse);
     } catch (dbError) {
       console.error('Database error during login:', dbError);
       logData.failure_reason = 'database_error';
@@ -147,8 +186,227 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+// Second login step for accounts with two-factor authentication
+router.post('/login/2fa', loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Challenge token and a code or recovery code are required' });
+    }
+
+    let userId: number;
+    try {
+      userId = verifyChallengeToken(challengeToken, 'two_factor');
+    } catch (error) {
+      return res.status(401).json({ message: 'Invalid or expired challenge, please log in again' });
+    }
+
+    const pool = await db.ensureConnection();
+    const result = await pool.request()
+      .input('userId', userId)
+      .query('SELECT id, email, first_name, last_name, role, status FROM users WHERE id = @userId');
+
+    const user = result.recordset[0];
+    if (!user || user.status !== 'active') {
+      return res.status(403).json({ message: 'Account is not active. Please contact administrator.' });
+    }
+
+    const clientIp = req.ip || 'unknown';
+    const lockedUntil = await LoginThrottle.getLockedUntil(user.email, clientIp);
+    if (lockedUntil) {
+      await recordLoginAttempt(req, 'locked_out', { userId: user.id, email: user.email });
+      return sendLockedResponse(res, lockedUntil);
+    }
+
+    const state = await TwoFactor.getState(userId);
+    if (!state || !state.enabled || !state.secret) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled for this account' });
+    }
+
+    let verified = false;
+    if (code) {
+      const step = verifyTotpCode(state.secret, String(code));
+      verified = step !== null && await TwoFactor.acceptStep(userId, step);
+    } else {
+      verified = await TwoFactor.useRecoveryCode(userId, String(recoveryCode));
+    }
+
+    if (!verified) {
+      await recordLoginAttempt(req, 'two_factor_failed', { userId: user.id, email: user.email });
+      const newLock = await LoginThrottle.recordFailure(user.email, clientIp);
+      if (newLock) {
+        return sendLockedResponse(res, newLock);
+      }
+      return res.status(401).json({ message: 'Invalid verification code' });
+    }
+
+    await LoginThrottle.reset('email', user.email);
+
+    res.json(await startLoginSession(req, user));
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', refreshLimiter, async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    try {
+      const rotation = await Session.rotate(refreshToken);
+
+      if (rotation.status === 'reused') {
+        return res.status(401).json({ message: 'Refresh token has already been used. Session revoked, please log in again.' });
+      }
+
+      if (rotation.status !== 'ok') {
+        return res.status(401).json({ message: 'Invalid or expired refresh token' });
+      }
+
+      // Re-read the user so role changes and deactivation take effect on refresh
+      const pool = await db.ensureConnection();
+      const result = await pool.request()
+        .input('userId', rotation.userId)
+        .query('SELECT id, role, status FROM users WHERE id = @userId');
+
+      const user = result.recordset[0];
+      if (!user || user.status !== 'active') {
+        await Session.revoke(rotation.sessionId, 'account_inactive');
+        return res.status(403).json({ message: 'Account is not active. Please contact administrator.' });
+      }
+
+      res.json({
+        token: generateToken(user.id, user.role, rotation.sessionId),
+        refreshToken: rotation.refreshToken,
+        expiresIn: JWT_EXPIRES_IN
+      });
+    } catch (dbError) {
+      console.error('Database error refreshing token:', dbError);
+      
+      // Try to reconnect
+      try {
+        await db.ensureConnection();
+      } catch (reconnectError) {
+        console.error('Failed to reconnect to database:', reconnectError);
+      }
+      
+      // Return error to client
+      return res.status(503).json({ message: 'Database service unavailable, please try again later' });
+    }
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Logout - revokes the current session and all of its refresh tokens
+router.post('/logout', authenticateUser, async (req: AuthRequest, res: Response) => {
+  try {
+    await Session.revoke(req.user!.sessionId, 'logout');
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Password rules, so clients can show them before the user submits
+router.get('/password-policy', (req: Request, res: Response) => {
+  res.json(getPasswordPolicy());
+});
+
+// Request a password reset link by email
+router.post('/forgot-password', passwordResetLimiter, async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ message: 'Email is required' });
+  }
+
+  // Always answer the same way so the endpoint cannot be used to discover accounts
+  const genericResponse = { message: 'If an account exists for this email, a password reset link has been sent' };
+
+  try {
+    const user = await User.getByEmail(email);
+
+    if (!user || user.status !== 'active') {
+      return res.json(genericResponse);
+    }
+
+    const token = await PasswordToken.create(user.id, 'reset');
+    const link = frontendLink('/reset-password', { token });
+    await sendMail(passwordResetEmail(user.email, link, RESET_TOKEN_TTL_HOURS));
+
+    res.json(genericResponse);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(503).json({ message: 'Service unavailable, please try again later' });
+  }
+});
+
+// Set a new password using a reset or invitation token
+router.post('/reset-password', passwordResetLimiter, async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({ message: 'Token and password are required' });
+    }
+
+    // Check the new password before using up the token, so a rejected password can be retried
+    const pending = await PasswordToken.find(token);
+    if (!pending) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    // Invitations only work while the user is still invited, resets only while they are active
+    const owner = await User.getById(pending.userId);
+    const expectedStatus = pending.purpose === 'invite' ? 'invited' : 'active';
+    if (!owner || owner.status !== expectedStatus) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    const check = await checkNewPassword(pending.userId, password);
+    if (check.status === 'not_found') {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+    if (check.status === 'rejected') {
+      return res.status(400).json({ message: POLICY_ERROR_MESSAGE, errors: check.errors });
+    }
+
+    const consumed = await PasswordToken.consume(token);
+    if (!consumed) {
+      return res.status(400).json({ message: 'Invalid or expired token' });
+    }
+
+    await storeUserPassword(consumed.userId, password);
+
+    // Accepting an invitation activates the account
+    if (consumed.purpose === 'invite') {
+      await User.changeStatus(consumed.userId, 'active', {
+        actorId: consumed.userId,
+        reason: 'Invitation accepted'
+      });
+    }
+
+    await Session.revokeAllForUser(consumed.userId, 'password_reset');
+
+    res.json({ message: 'Password has been set successfully. You can now log in.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
 // Get current user
-router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/me', authenticateUser, async (req: AuthRequest, res: Response) => {
   try {
     try {
       // Get connection from pool with resilience
@@ -163,12 +421,26 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    let permissions = await RolePermission.getForRole(user.role);
+
+    // While impersonating, show who is really signed in and leave out what they cannot use
+    let impersonator = null;
+    if (req.user!.impersonatorId) {
+      permissions = permissions.filter(permission => !USER_ONLY_PERMISSIONS.includes(permission));
+      const admin = await User.getById(req.user!.impersonatorId);
+      impersonator = admin
+        ? { id: admin.id, email: admin.email, firstName: admin.first_name, lastName: admin.last_name }
+        : { id: req.user!.impersonatorId };
+    }
+
     res.json({
       id: user.id,
       email: user.email,
       firstName: user.first_name,
       lastName: user.last_name,
-      role: user.role
+      role: user.role,
+      permissions,
+      impersonator
     });
     } catch (dbError) {
       console.error('Database error getting user:', dbError);
@@ -189,81 +461,138 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Create new user (admin only)
-router.post('/users', authenticate, authorize(['admin']), async (req: Request, res: Response) => {
+// Update the current user's name and phone number
+router.put('/me', authenticateUser, denyWhileImpersonating, async (req: AuthRequest, res: Response) => {
   try {
+    const { firstName, lastName, phoneNumber } = req.body;
+
+    if ((firstName !== undefined && (typeof firstName !== 'string' || !firstName.trim())) ||
+        (lastName !== undefined && (typeof lastName !== 'string' || !lastName.trim()))) {
+      return res.status(400).json({ message: 'First and last name cannot be empty' });
+    }
+
+    if (phoneNumber !== undefined && phoneNumber !== null && typeof phoneNumber !== 'string') {
+      return res.status(400).json({ message: 'Phone number must be a string' });
+    }
+
+    await User.update(req.user!.userId, {
+      first_name: firstName?.trim(),
+      last_name: lastName?.trim(),
+      phone_number: phoneNumber === '' ? null : phoneNumber
+    });
+
+    const user = await User.getById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json({
+      message: 'Profile updated successfully',
+      user: User.toResponse(user)
+    });
+  } catch (error) {
+    console.error('Update profile error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Change the current user's password; every other session is signed out
+router.post('/me/password', loginLimiter, authenticateUser, denyWhileImpersonating, async (req: AuthRequest, res: Response) => {
   try {
-    const { email, password, firstName, lastName, role, phoneNumber } = req.body;
+    const { currentPassword, newPassword } = req.body;
 
-    // Validate input
-    if (!email || !password || !firstName || !lastName || !role) {
-      return res.status(400).json({ message: 'Missing required fields' });
+    if (!currentPassword || typeof currentPassword !== 'string' || !newPassword || typeof newPassword !== 'string') {
+      return res.status(400).json({ message: 'Current password and new password are required' });
     }
 
-      // Get connection from pool with resilience
-      const pool = await db.ensureConnection();
-    
-    // Check if email already exists
-    const existingUser = await pool.request()
-      .input('email', email)
-      .query('SELECT id FROM users WHERE email = @email');
+    const userId = req.user!.userId;
+    const currentHash = await User.getPasswordHash(userId);
+    if (!currentHash || !(await comparePassword(currentPassword, currentHash))) {
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
 
-    if (existingUser.recordset.length > 0) {
-      return res.status(409).json({ message: 'Email already in use' });
+    const result = await setUserPassword(userId, newPassword);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (result.status === 'rejected') {
+      return res.status(400).json({ message: POLICY_ERROR_MESSAGE, errors: result.errors });
     }
 
-    // Hash password
-    const hashedPassword = await hashPassword(password);
+    const revokedSessions = await Session.revokeAllForUser(userId, 'password_changed', req.user!.sessionId);
 
-    // Insert user
-    const result = await pool.request()
-      .input('email', email)
-      .input('password', hashedPassword)
-      .input('firstName', firstName)
-      .input('lastName', lastName)
-      .input('role', role)
-      .input('phoneNumber', phoneNumber || null)
-      .input('status', 'active')
-      .query(`
-        INSERT INTO users (email, password, first_name, last_name, role, phone_number, status)
-        VALUES (@email, @password, @firstName, @lastName, @role, @phoneNumber, @status);
-        SELECT SCOPE_IDENTITY() AS id;
-      `);
-
-    res.status(201).json({
-      message: 'User created successfully',
-      userId: result.recordset[0].id
+    res.json({ message: 'Password changed successfully', revokedSessions });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// List the current user's active sessions
+router.get('/me/sessions', authenticateUser, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await Session.listActiveForUser(req.user!.userId);
+    res.json({
+      sessions: sessions.map(session => Session.toResponse(session, req.user!.sessionId))
     });
-    } catch (dbError) {
-      console.error('Database error creating user:', dbError);
-      
-      // Try to reconnect
-      try {
-        await db.ensureConnection();
-      } catch (reconnectError) {
-        console.error('Failed to reconnect to database:', reconnectError);
-      }
-      
-      // Return error to client
-      return res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Revoke every session of the current user except the one making the request
+router.delete('/me/sessions', authenticateUser, denyWhileImpersonating, async (req: AuthRequest, res: Response) => {
+  try {
+    const revokedCount = await Session.revokeAllForUser(req.user!.userId, 'revoked_by_user', req.user!.sessionId);
+    res.json({ message: 'Other sessions revoked successfully', revokedCount });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Revoke one of the current user's sessions, e.g. a lost device
+router.delete('/me/sessions/:sessionId', authenticateUser, denyWhileImpersonating, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await Session.revokeForUser(req.user!.userId, req.params.sessionId, 'revoked_by_user');
+    if (!revoked) {
+      return res.status(404).json({ message: 'Session not found' });
     }
+
+    res.json({ message: 'Session revoked successfully' });
   } catch (error) {
-    console.error('Create user error:', error);
-    res.status(500).json({ message: 'Internal server error' });
+    console.error('Revoke session error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
   }
 });
 
-// Validate token endpoint for microservices
-router.post('/validate-token', authenticate, async (req: AuthRequest, res: Response) => {
+// Validate token endpoint for microservices.
+// Services either forward the user's token as their own bearer token, or call with
+// their API key and send the user's token in the body.
+router.post('/validate-token', validateTokenLimiter, authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    // If we get here, the token is valid (authenticate middleware already verified it)
+    let tokenUser = req.user;
+
+    if (req.service) {
+      const result = await resolveUserToken(req.body.token);
+      if (!result.ok) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message
+        });
+      }
+      tokenUser = result.user;
+    }
+
+    // If we get here, the token is valid
     // Now we need to get the full user details to return
     try {
       // Get connection from pool with resilience
       const pool = await db.ensureConnection();
     
       const result = await pool.request()
-        .input('userId', req.user?.userId)
+        .input('userId', tokenUser?.userId)
         .query('SELECT id, email, first_name, last_name, role FROM users WHERE id = @userId');
 
       const user = result.recordset[0];
@@ -284,7 +613,9 @@ router.post('/validate-token', authenticate, async (req: AuthRequest, res: Respo
           firstName: user.first_name,
           lastName: user.last_name,
           role: user.role
-        }
+        },
+        // Lets services record the admin behind an impersonated request
+        impersonatorId: tokenUser?.impersonatorId || null
       });
     } catch (dbError) {
       console.error('Database error validating token:', dbError);
@@ -1,6 +1,33 @@
-import { Request, Response, Router } from 'express';
+import { NextFunction, Request, Response, Router } from 'express';
 import { Client, ClientData } from '../models/Client';
-import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import {
+  CLIENT_SCHEMA, ClientColumnName, DEFAULT_CLIENT_SORT, DEFAULT_TRASH_SORT, parseClientSort
+} from '../models/clientColumns';
+import { parseClientFilterQuery } from '../models/clientFilters';
+import {
+  COMMISSION_PERMISSION, commissionFieldErrors, exportCells, exportColumns, visibleAuditChanges, visiblePolicy
+} from '../models/clientExport';
+import { Policy, POLICY_FIELDS, POLICY_ONLY_FIELDS } from '../models/Policy';
+import { ClientAudit, AuditAction, AUDIT_ACTIONS } from '../models/ClientAudit';
+import { ClientSearch, MIN_QUERY_LENGTH } from '../models/ClientSearch';
+import { ClientDuplicates, DEFAULT_MIN_DUPLICATE_SCORE } from '../models/ClientDuplicates';
+import {
+  ClientImport, IMPORT_MATCH_FIELDS, IMPORT_MATCH_KEYS, IMPORT_MODES, ImportMatchKey, ImportMode,
+  ImportOptions, ImportOwner, ImportRow
+} from '../models/ClientImport';
+import { ImportProfile, ImportProfileData } from '../models/ImportProfile';
+import {
+  auditActor, createClient, updateClient, deleteClient, restoreClient, purgeClient, mergeClients,
+  MergeSource, MERGEABLE_COLUMNS
+} from '../services/clients';
+import {
+  ImportRowReport, ImportRowResult, commitImport, importClients, importCounts, importKey, importSource, importWarnings, matchImportRows
+} from '../services/clientImport';
+import { authenticate, requirePermission, hasPermissions, AuthRequest } from '../middleware/auth';
+import { etagFor } from '../utils/etag';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, ExportFormat, createTableWriter } from '../utils/tableExport';
+import { readXlsx } from '../utils/xlsx';
+import { FieldError, ValidationMode, isBlank, requiredFields as schemaRequiredFields } from '../utils/validation';
 import multer from 'multer';
 import csv from 'csv-parser';
 import fs from 'fs';
@@ -15,28 +42,111 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
-const upload = multer({ dest: uploadsDir });
+// Largest import file accepted, in MB
+const CLIENT_IMPORT_MAX_FILE_MB = Number(process.env.CLIENT_IMPORT_MAX_FILE_MB) || 20;
 
-// Get all clients - accessible to managers and employees
-router.get('/', authenticate, authorize(['admin', 'manager', 'employee']), async (req: AuthRequest, res: Response) => {
+const upload = multer({
+  dest: uploadsDir,
+  limits: {
+    fileSize: CLIENT_IMPORT_MAX_FILE_MB * 1024 * 1024
+  }
+});
+
+// Take the import file, answering 413 when it is over the size limit
+const uploadImportFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ success: false, message: `File is larger than ${CLIENT_IMPORT_MAX_FILE_MB} MB` });
+    }
+    next(error);
+  });
+};
+
+// The client's policies, without commission unless the caller may see it
+const visiblePolicies = async (req: AuthRequest, clientId: string) => {
+  const canSeeCommission = await hasPermissions(req, [COMMISSION_PERMISSION]);
+  return (await Policy.listForClient(clientId)).map(policy => visiblePolicy(policy, canSeeCommission));
+};
+
+/**
+ * Split a flat client payload into the client's own fields and the details of its first policy,
+ * validating both. Older clients and CSV files still send both together.
+ */
+const splitPolicyFields = (
+  req: AuthRequest,
+  input: Record<string, any>,
+  mode: ValidationMode,
+  unknownFields: 'reject' | 'ignore' = 'reject'
+) => {
+  const clientInput: Record<string, any> = {};
+  Object.entries(input).forEach(([key, value]) => {
+    if (!(POLICY_ONLY_FIELDS as string[]).includes(key)) {
+      clientInput[key] = value;
+    }
+  });
+
+  // API keys have no role and can only write the columns open to every role
+  const { data: client, errors: clientErrors } = Client.fromInput(clientInput, { mode, role: req.user?.role, unknownFields });
+  const { data: policy, errors: policyErrors } = Policy.fromInput(input, mode);
+  return { client, policy, errors: [...clientErrors, ...policyErrors] };
+};
+
+const validationFailed = (res: Response, errors: FieldError[]) => {
+  return res.status(400).json({ success: false, message: 'Validation failed', errors });
+};
+
+// Read the audit log filters shared by the per-client and admin-wide history endpoints
+const parseAuditQuery = (query: Record<string, any>) => {
+  const limit = query.limit ? parseInt(query.limit as string) : 100;
+  const offset = query.offset ? parseInt(query.offset as string) : 0;
+  const from = query.from ? new Date(query.from as string) : undefined;
+  const to = query.to ? new Date(query.to as string) : undefined;
+  const userId = query.userId ? parseInt(query.userId as string, 10) : undefined;
+
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return { error: 'from and to must be valid dates' };
+  }
+  if (userId !== undefined && isNaN(userId)) {
+    return { error: 'Invalid user ID' };
+  }
+  if (query.action !== undefined && !AUDIT_ACTIONS.includes(query.action as AuditAction)) {
+    return { error: `Invalid action. Allowed values: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+
+  return {
+    filters: {
+      userId,
+      field: typeof query.field === 'string' && query.field !== '' ? query.field : undefined,
+      action: query.action as AuditAction | undefined,
+      from,
+      to,
+      limit: isNaN(limit) ? 100 : Math.min(limit, 500),
+      offset: isNaN(offset) ? 0 : offset
+    }
+  };
+};
+
+// Get all clients
+router.get('/', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
   try {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
     const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
     const search = req.query.search as string | undefined;
+    const parsedSort = parseClientSort(req.query.sort, req.query.order, DEFAULT_CLIENT_SORT);
+    if ('error' in parsedSort) {
+      return res.status(400).json({ success: false, message: parsedSort.error });
+    }
     
     // Get both the clients for the current page and the total count
     let clients, totalCount;
     
     if (search && search.trim() !== '') {
-      // If searching, use the search method with pagination
-      [clients, totalCount] = await Promise.all([
-        Client.searchWithPagination(search, limit, offset),
-        Client.getSearchResultCount(search)
-      ]);
+      // If searching, match names and mobile numbers the way the structured search does
+      ({ clients, totalCount } = await Client.query({ filters: [], search, sort: [parsedSort.sort], limit, offset }));
     } else {
       // Otherwise get all clients with pagination
       [clients, totalCount] = await Promise.all([
-        Client.getAll(limit, offset),
+        Client.getAll(limit, offset, parsedSort.sort),
         Client.getTotalCount()
       ]);
     }
@@ -52,8 +162,140 @@ router.get('/', authenticate, authorize(['admin', 'manager', 'employee']), async
   }
 });
 
+// Clients in the trash, most recently deleted first
+router.get('/trash', authenticate, requirePermission('clients.delete'), async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const parsedSort = parseClientSort(req.query.sort, req.query.order, DEFAULT_TRASH_SORT);
+    if ('error' in parsedSort) {
+      return res.status(400).json({ success: false, message: parsedSort.error });
+    }
+
+    const [clients, totalCount] = await Promise.all([
+      Client.getTrash(limit, offset, parsedSort.sort),
+      Client.getTrashCount()
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: clients,
+      totalCount
+    });
+  } catch (error) {
+    console.error('Error getting trashed clients:', error);
+    res.status(500).json({ success: false, message: 'Failed to get trashed clients' });
+  }
+});
+
+// Quick search by name, NIC, vehicle number, policy number, file number, phone or email, best match first
+router.get('/quick-search', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (q.replace(/[^\p{L}\p{N}]/gu, '').length < MIN_QUERY_LENGTH || q.length > 100) {
+      return res.status(400).json({
+        success: false,
+        message: `q must have at least ${MIN_QUERY_LENGTH} letters or digits and at most 100 characters`
+      });
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const { results, totalCount } = await ClientSearch.search(
+      q,
+      isNaN(limit) ? 20 : Math.min(Math.max(limit, 1), 100),
+      isNaN(offset) ? 0 : Math.max(offset, 0)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: results,
+      totalCount
+    });
+  } catch (error) {
+    console.error('Error running quick search:', error);
+    res.status(500).json({ success: false, message: 'Failed to search clients' });
+  }
+});
+
+// Pairs of clients that are probably the same customer, best first
+router.get('/duplicates', authenticate, requirePermission('clients.merge'), async (req: AuthRequest, res: Response) => {
+  try {
+    const minScore = req.query.minScore ? parseInt(req.query.minScore as string) : DEFAULT_MIN_DUPLICATE_SCORE;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    if (isNaN(minScore) || minScore < 0 || minScore > 100) {
+      return res.status(400).json({ success: false, message: 'minScore must be a number from 0 to 100' });
+    }
+
+    const { candidates, totalCount, truncated } = await ClientDuplicates.find({
+      clientId: typeof req.query.clientId === 'string' && req.query.clientId !== '' ? req.query.clientId : undefined,
+      minScore,
+      limit: isNaN(limit) ? 50 : Math.min(Math.max(limit, 1), 200),
+      offset: isNaN(offset) ? 0 : Math.max(offset, 0)
+    });
+
+    res.status(200).json({
+      success: true,
+      data: candidates,
+      totalCount,
+      truncated
+    });
+  } catch (error) {
+    console.error('Error finding duplicate clients:', error);
+    res.status(500).json({ success: false, message: 'Failed to find duplicate clients' });
+  }
+});
+
+// Change history of all clients, filtered by user, field, action and date
+router.get('/audit', authenticate, requirePermission('clients.audit'), async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = parseAuditQuery(req.query);
+    if (!parsed.filters) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const { entries, totalCount } = await ClientAudit.search({
+      ...parsed.filters,
+      clientId: typeof req.query.clientId === 'string' && req.query.clientId !== '' ? req.query.clientId : undefined
+    });
+
+    const canSeeCommission = await hasPermissions(req, [COMMISSION_PERMISSION]);
+    res.status(200).json({
+      success: true,
+      data: entries.map(entry => ClientAudit.toResponse(visibleAuditChanges(entry, canSeeCommission))),
+      totalCount
+    });
+  } catch (error) {
+    console.error('Error searching client audit log:', error);
+    res.status(500).json({ success: false, message: 'Failed to get audit log' });
+  }
+});
+
+// Change history of one client and its policies. Deleted clients keep their history.
+router.get('/:id/history', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = parseAuditQuery(req.query);
+    if (!parsed.filters) {
+      return res.status(400).json({ success: false, message: parsed.error });
+    }
+
+    const { entries, totalCount } = await ClientAudit.search({ ...parsed.filters, clientId: req.params.id });
+
+    const canSeeCommission = await hasPermissions(req, [COMMISSION_PERMISSION]);
+    res.status(200).json({
+      success: true,
+      data: entries.map(entry => ClientAudit.toResponse(visibleAuditChanges(entry, canSeeCommission))),
+      totalCount
+    });
+  } catch (error) {
+    console.error('Error getting client history:', error);
+    res.status(500).json({ success: false, message: 'Failed to get client history' });
+  }
+});
+
 // Get client by ID
-router.get('/:id', authenticate, authorize(['admin', 'manager', 'employee']), async (req: AuthRequest, res: Response) => {
+router.get('/:id', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const client = await Client.getById(id);
@@ -62,7 +304,9 @@ router.get('/:id', authenticate, authorize(['admin', 'manager', 'employee']), as
       return res.status(404).json({ success: false, message: 'Client not found' });
     }
     
-    res.status(200).json({ success: true, data: client });
+    const policies = await visiblePolicies(req, id);
+    res.setHeader('ETag', etagFor(client.updated_at));
+    res.status(200).json({ success: true, data: { ...client, policies } });
   } catch (error) {
     console.error('Error getting client by ID:', error);
     res.status(500).json({ success: false, message: 'Failed to get client' });
@@ -70,30 +314,14 @@ router.get('/:id', authenticate, authorize(['admin', 'manager', 'employee']), as
 });
 
 // Create a new client
-router.post('/', authenticate, authorize(['admin', 'manager', 'employee']), async (req: AuthRequest, res: Response) => {
+router.post('/', authenticate, requirePermission('clients.create'), async (req: AuthRequest, res: Response) => {
   try {
-    const clientData: ClientData = req.body;
-    
-    console.log('Received client data:', JSON.stringify(clientData, null, 2));
-    
-    // Remove sales_rep_id if it exists - no longer needed
-    if (clientData.sales_rep_id) {
-      delete clientData.sales_rep_id;
-    }
-    
-    // Validate required fields
-    const requiredFields = ['customer_type', 'product', 'insurance_provider', 'client_name', 'mobile_no'];
-    const missingFields = requiredFields.filter(field => !clientData[field as keyof ClientData]);
-    
-    if (missingFields.length > 0) {
-      console.log('Missing required fields:', missingFields);
-      return res.status(400).json({
-        success: false,
-        message: `Missing required fields: ${missingFields.join(', ')}`
-      });
+    const { client, policy, errors } = splitPolicyFields(req, req.body || {}, 'create');
+    if (errors.length > 0) {
+      return validationFailed(res, errors);
     }
     
-    const clientId = await Client.create(clientData);
+    const clientId = await createClient(client as ClientData, policy, auditActor(req));
     console.log('Client created with ID:', clientId);
     
     res.status(201).json({
@@ -107,14 +335,19 @@ router.post('/', authenticate, authorize(['admin', 'manager', 'employee']), asyn
   }
 });
 
-// Update a client - only admin and manager can update
-router.put('/:id', authenticate, authorize(['admin', 'manager']), async (req: AuthRequest, res: Response) => {
+// Update a client - only admin and manager can update. Requires the ETag from GET in If-Match.
+router.put('/:id', authenticate, requirePermission('clients.update'), async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const clientData: Partial<ClientData> = req.body;
+    const body: Record<string, any> = req.body || {};
     
-    // Log the incoming data for debugging
-    console.log(`Updating client ${id}:`, JSON.stringify(clientData, null, 2));
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) {
+      return res.status(428).json({
+        success: false,
+        message: 'If-Match header is required; send the ETag from GET /api/clients/:id'
+      });
+    }
     
     // Check if client exists
     const existingClient = await Client.getById(id);
@@ -122,59 +355,43 @@ router.put('/:id', authenticate, authorize(['admin', 'manager']), async (req: Au
       return res.status(404).json({ success: false, message: 'Client not found' });
     }
     
-    // Remove sales_rep_id field if it's included in the update request
-    if (clientData.sales_rep_id) {
-      delete clientData.sales_rep_id;
-    }
-    
-    // Sanitize numeric fields
-    const sanitizedData: Partial<ClientData> = { ...clientData };
-    const numericFields = [
-      'sum_insured', 'basic_premium', 'srcc_premium', 'tc_premium', 
-      'net_premium', 'stamp_duty', 'admin_fees', 'road_safety_fee', 
-      'policy_fee', 'vat_fee', 'total_invoice', 'commission_basic',
-      'commission_srcc', 'commission_tc', 'policies'
-    ];
+    // Policy details belong to the client's policies now
+    const policyErrors: FieldError[] = Object.keys(body)
+      .filter(key => (POLICY_ONLY_FIELDS as string[]).includes(key))
+      .map(field => ({ field, message: `is a policy field; update it through /api/clients/${id}/policies` }));
+    const clientInput = { ...body };
+    policyErrors.forEach(({ field }) => delete clientInput[field]);
     
-    numericFields.forEach(field => {
-      if (field in sanitizedData) {
-        const value = sanitizedData[field as keyof ClientData];
-        if (value !== undefined && value !== null) {
-          try {
-            // Convert string values to numbers if needed
-            if (typeof value === 'string') {
-              const numValue = parseFloat(value);
-              if (!isNaN(numValue)) {
-                (sanitizedData as any)[field] = numValue;
-              } else {
-                console.warn(`Invalid numeric value for ${field}: ${value}`);
-                (sanitizedData as any)[field] = 0;
-              }
-            }
-          } catch (err) {
-            console.error(`Error processing field ${field}:`, err);
-            (sanitizedData as any)[field] = 0;
-          }
-        }
-      }
-    });
+    const { data: clientData, errors } = Client.fromInput(clientInput, { mode: 'update', role: req.user?.role });
+    if (policyErrors.length > 0 || errors.length > 0) {
+      return validationFailed(res, [...policyErrors, ...errors]);
+    }
     
-    // Try the update with sanitized data
+    // Try the update with validated data
     try {
-      const updated = await Client.update(id, sanitizedData);
+      const result = await updateClient(id, clientData, auditActor(req), { ifMatch });
       
-      if (!updated) {
-        return res.status(500).json({
+      if (result.status === 'not_found') {
+        return res.status(404).json({ success: false, message: 'Client not found' });
+      }
+      
+      if (result.status === 'conflict') {
+        const policies = await visiblePolicies(req, id);
+        res.setHeader('ETag', etagFor(result.current.updated_at));
+        return res.status(412).json({
           success: false,
-          message: 'Failed to update client - no rows affected'
+          message: 'Client was changed by someone else since it was loaded',
+          data: { ...result.current, policies }
         });
       }
       
       console.log(`Client ${id} successfully updated`);
       
+      res.setHeader('ETag', etagFor(result.client.updated_at));
       res.status(200).json({
         success: true,
-        message: 'Client updated successfully'
+        message: 'Client updated successfully',
+        data: result.client
       });
     } catch (updateError) {
       console.error('Database error updating client:', updateError);
@@ -203,29 +420,20 @@ router.put('/:id', authenticate, authorize(['admin', 'manager']), async (req: Au
   }
 });
 
-// Delete a client - only admin and manager can delete
-router.delete('/:id', authenticate, authorize(['admin', 'manager']), async (req: AuthRequest, res: Response) => {
+// Move a client to the trash - only admin and manager can delete
+router.delete('/:id', authenticate, requirePermission('clients.delete'), async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     
-    // Check if client exists
-    const existingClient = await Client.getById(id);
-    if (!existingClient) {
-      return res.status(404).json({ success: false, message: 'Client not found' });
-    }
-    
-    const deleted = await Client.delete(id);
+    const deleted = await deleteClient(id, auditActor(req));
     
     if (!deleted) {
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to delete client'
-      });
+      return res.status(404).json({ success: false, message: 'Client not found' });
     }
     
     res.status(200).json({
       success: true,
-      message: 'Client deleted successfully'
+      message: 'Client moved to trash'
     });
   } catch (error) {
     console.error('Error deleting client:', error);
@@ -233,238 +441,607 @@ router.delete('/:id', authenticate, authorize(['admin', 'manager']), async (req:
   }
 });
 
+// Take a client out of the trash
+router.post('/:id/restore', authenticate, requirePermission('clients.delete'), async (req: AuthRequest, res: Response) => {
+  try {
+    const restored = await restoreClient(req.params.id, auditActor(req));
+    if (!restored) {
+      return res.status(404).json({ success: false, message: 'Client not found in trash' });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Client restored successfully'
+    });
+  } catch (error) {
+    console.error('Error restoring client:', error);
+    res.status(500).json({ success: false, message: 'Failed to restore client' });
+  }
+});
+
+// Merge a duplicate into this client. If-Match, when sent, must hold this client's ETag.
+router.post('/:id/merge', authenticate, requirePermission('clients.merge'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { duplicateId, keep = {} } = req.body || {};
+    const errors: FieldError[] = [];
+
+    if (typeof duplicateId !== 'string' || duplicateId.trim() === '') {
+      errors.push({ field: 'duplicateId', message: 'is required' });
+    } else if (duplicateId === id) {
+      errors.push({ field: 'duplicateId', message: 'must be a different client' });
+    }
+    if (!keep || typeof keep !== 'object' || Array.isArray(keep)) {
+      errors.push({ field: 'keep', message: 'must map fields to survivor or duplicate' });
+    } else {
+      Object.entries(keep).forEach(([field, source]) => {
+        if (!(MERGEABLE_COLUMNS as string[]).includes(field)) {
+          errors.push({ field: `keep.${field}`, message: 'cannot be merged' });
+        } else if (source !== 'survivor' && source !== 'duplicate') {
+          errors.push({ field: `keep.${field}`, message: 'must be survivor or duplicate' });
+        }
+      });
+    }
+    if (errors.length > 0) {
+      return validationFailed(res, errors);
+    }
+
+    const ifMatch = req.get('If-Match');
+    const result = await mergeClients(
+      id,
+      duplicateId,
+      keep as Partial<Record<ClientColumnName, MergeSource>>,
+      auditActor(req),
+      { ifMatch }
+    );
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ success: false, message: `Client ${result.id} not found` });
+    }
+    if (result.status === 'conflict') {
+      return res.status(ifMatch ? 412 : 409).json({
+        success: false,
+        message: 'One of the clients was changed by someone else; reload both and try again'
+      });
+    }
+
+    const policies = await visiblePolicies(req, id);
+    res.setHeader('ETag', etagFor(result.client.updated_at));
+    res.status(200).json({
+      success: true,
+      message: 'Clients merged successfully',
+      data: { ...result.client, policies },
+      policiesMoved: result.policiesMoved,
+      documentsMoved: result.documentsMoved
+    });
+  } catch (error) {
+    console.error('Error merging clients:', error);
+    res.status(500).json({ success: false, message: 'Failed to merge clients' });
+  }
+});
+
+// Permanently delete a client in the trash, with its policies and documents
+router.delete('/:id/purge', authenticate, requirePermission('clients.purge'), async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await purgeClient(req.params.id, auditActor(req));
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+    if (result.status === 'not_in_trash') {
+      return res.status(409).json({ success: false, message: 'Move the client to the trash before purging it' });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Client permanently deleted',
+      data: { documentsDeleted: result.documentsDeleted }
+    });
+  } catch (error) {
+    console.error('Error purging client:', error);
+    res.status(500).json({ success: false, message: 'Failed to purge client' });
+  }
+});
+
 // Search clients
-router.post('/search', authenticate, authorize(['admin', 'manager', 'employee']), async (req: AuthRequest, res: Response) => {
+router.post('/search', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
   try {
-    const searchCriteria: Partial<ClientData> = req.body;
+    // Ignore sales_rep_id filtering - all users can search all clients
+    const { sales_rep_id, ...body } = req.body || {};
+    const { client, policy, errors } = splitPolicyFields(req, body, 'search');
+    if (errors.length > 0) {
+      return validationFailed(res, errors);
+    }
     
-    // Remove sales_rep_id filtering - all users can search all clients
-    if (searchCriteria.sales_rep_id) {
-      delete searchCriteria.sales_rep_id;
+    const parsedSort = parseClientSort(req.query.sort, req.query.order, DEFAULT_CLIENT_SORT);
+    if ('error' in parsedSort) {
+      return res.status(400).json({ success: false, message: parsedSort.error });
     }
     
-    const clients = await Client.search(searchCriteria);
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const criteria: Record<string, any> = { ...policy, ...client };
+    const [clients, totalCount] = await Promise.all([
+      Client.search(criteria, parsedSort.sort, isNaN(limit) ? 100 : limit, isNaN(offset) ? 0 : offset),
+      Client.getSearchCount(criteria)
+    ]);
     
-    res.status(200).json({ success: true, data: clients });
+    res.status(200).json({ success: true, data: clients, totalCount });
   } catch (error) {
     console.error('Error searching clients:', error);
     res.status(500).json({ success: false, message: 'Failed to search clients' });
   }
 });
 
-// Import clients from CSV
-router.post('/import-csv', authenticate, authorize(['admin', 'manager']), upload.single('file'), async (req: AuthRequest & { file?: Express.Multer.File }, res: Response) => {
-  if (!req.file) {
-    return res.status(400).json({ success: false, message: 'No file uploaded' });
+// Structured search: equality, lists, ranges and null checks, with sorting, field selection and paging
+router.post('/query', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = parseClientFilterQuery(req.body || {});
+    if ('errors' in parsed) {
+      return validationFailed(res, parsed.errors);
+    }
+    
+    const commissionErrors = commissionFieldErrors(parsed.query.policyFields, await hasPermissions(req, [COMMISSION_PERMISSION]));
+    if (commissionErrors.length > 0) {
+      return validationFailed(res, commissionErrors);
+    }
+    
+    const { clients, totalCount } = await Client.query(parsed.query);
+    
+    res.status(200).json({
+      success: true,
+      data: clients,
+      totalCount
+    });
+  } catch (error) {
+    console.error('Error querying clients:', error);
+    res.status(500).json({ success: false, message: 'Failed to search clients' });
   }
+});
 
+// Download the clients matching a structured query as CSV or XLSX, written as rows are read
+router.post('/export', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
+  const format = req.query.format ?? 'csv';
+  if (!(EXPORT_FORMATS as readonly unknown[]).includes(format)) {
+    return res.status(400).json({ success: false, message: `Invalid format. Allowed values: ${EXPORT_FORMATS.join(', ')}` });
+  }
+  
   try {
-    const results: ClientData[] = [];
-    const requiredFields = ['customer_type', 'product', 'insurance_provider', 'client_name', 'mobile_no'];
-    let headerValidated = false;
-    let hasRequiredFields = true;
-    let missingFields: string[] = [];
-    const batchSize = 25; // Process 25 records at a time
-    let processedCount = 0;
-    let totalCount = 0;
-
-    // Process the CSV file
-    await new Promise<void>((resolve, reject) => {
-      fs.createReadStream(req.file!.path)
-        .pipe(csv())
-        .on('headers', (headers: string[]) => {
-          // Validate that the CSV has the required fields
-          requiredFields.forEach(field => {
-            if (!headers.includes(field)) {
-              hasRequiredFields = false;
-              missingFields.push(field);
-            }
-          });
-          headerValidated = true;
-        })
-        .on('data', (data) => {
-          totalCount++;
-          const clientData: Partial<ClientData> = {};
-
-          // Map CSV data to client data
-          Object.keys(data).forEach(key => {
-            // Handle numeric fields
-            const numericFields = [
-              'sum_insured', 'basic_premium', 'srcc_premium', 'tc_premium', 
-              'net_premium', 'stamp_duty', 'admin_fees', 'road_safety_fee', 
-              'policy_fee', 'vat_fee', 'total_invoice', 'commission_basic',
-              'commission_srcc', 'commission_tc', 'policies'
-            ];
-            
-            // Handle date fields
-            const dateFields = [
-              'policy_period_from', 'policy_period_to'
-            ];
-            
-            // Handle text fields for documents
-            const textFields = [
-              'policyholder_text', 'vehicle_number_text', 'proposal_form_text', 
-              'quotation_text', 'cr_copy_text', 'schedule_text', 
-              'invoice_debit_note_text', 'payment_receipt_text', 'nic_br_text',
-              'ceilao_ib_file_no', 'main_class', 'insurer'
-            ];
-            
-            if (numericFields.includes(key) && data[key]) {
-              // Convert to number and handle empty strings
-              (clientData as any)[key] = data[key] ? parseFloat(data[key]) : 0;
-            } else if (dateFields.includes(key) && data[key]) {
-              // Parse dates
-              try {
-                const date = new Date(data[key]);
-                // Check if date is valid
-                if (!isNaN(date.getTime())) {
-                  (clientData as any)[key] = date.toISOString().split('T')[0]; // Format as YYYY-MM-DD
-                } else {
-                  (clientData as any)[key] = data[key]; // Keep original if parsing fails
-                }
-              } catch (err) {
-                console.warn(`Error parsing date for ${key}:`, err);
-                (clientData as any)[key] = data[key]; // Keep original if parsing fails
-              }
-            } else if (textFields.includes(key)) {
-              // Handle text fields for documents - ensure they're strings
-              (clientData as any)[key] = data[key] ? String(data[key]).trim() : '';
-            } else {
-              (clientData as any)[key] = data[key];
-            }
-          });
-
-          // Validate required fields for each row
-          const rowMissingFields = requiredFields.filter(field => 
-            !clientData[field as keyof ClientData] || 
-            clientData[field as keyof ClientData] === ''
-          );
-
-          if (rowMissingFields.length === 0) {
-            results.push(clientData as ClientData);
-          }
-        })
-        .on('end', () => {
-          resolve();
-        })
-        .on('error', (error) => {
-          reject(error);
-        });
+    const body: Record<string, any> = req.body || {};
+    const errors: FieldError[] = ['limit', 'offset']
+      .filter(field => body[field] !== undefined)
+      .map(field => ({ field, message: 'is not supported, exports include every match' }));
+    
+    const parsed = parseClientFilterQuery(body);
+    const canSeeCommission = await hasPermissions(req, [COMMISSION_PERMISSION]);
+    if ('errors' in parsed) {
+      errors.push(...parsed.errors);
+    } else {
+      errors.push(...commissionFieldErrors(parsed.query.policyFields, canSeeCommission));
+    }
+    if ('errors' in parsed || errors.length > 0) {
+      return validationFailed(res, errors);
+    }
+    
+    const columns = exportColumns(parsed.query, canSeeCommission);
+    const exportFormat = format as ExportFormat;
+    const writer = createTableWriter(exportFormat, res, 'Clients');
+    
+    // Stops the query when the download is abandoned, instead of waiting for a drain that never comes
+    const closed = new Promise<never>((_, reject) => {
+      res.once('close', () => reject(new Error('Export download was closed')));
     });
+    closed.catch(() => {});
+    
+    res.status(200);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[exportFormat]);
+    res.setHeader('Content-Disposition', `attachment; filename="clients-${new Date().toISOString().slice(0, 10)}.${exportFormat}"`);
+    writer.start();
+    writer.writeRow(columns.headers, { bold: true });
+    
+    await Client.stream({ ...parsed.query, fields: columns.fields, policyFields: columns.policyFields }, row => {
+      if (!writer.writeRow(exportCells(row, columns.headers))) {
+        return Promise.race([writer.drain(), closed]);
+      }
+    });
+    
+    await writer.end();
+    res.end();
+  } catch (error) {
+    console.error('Error exporting clients:', error);
+    if (res.headersSent) {
+      // Part of the file is out; cut the connection so the download fails rather than looking complete
+      res.destroy();
+    } else {
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ success: false, message: 'Failed to export clients' });
+    }
+  }
+});
 
-    // Check if headers are valid
-    if (!hasRequiredFields) {
-      return res.status(400).json({ 
-        success: false, 
-        message: `CSV is missing required fields: ${missingFields.join(', ')}` 
+const isXlsxUpload = (file: Express.Multer.File): boolean => {
+  return /\.xlsx$/i.test(file.originalname || '') || file.mimetype === EXPORT_CONTENT_TYPES.xlsx;
+};
+
+// Header and rows of an uploaded CSV file or the first sheet of an XLSX workbook
+const readUploadedTable = async (
+  file: Express.Multer.File
+): Promise<{ headers: string[]; records: Array<{ row: number; record: Record<string, string> }> } | { error: string }> => {
+  if (isXlsxUpload(file)) {
+    const sheet = readXlsx(await fs.promises.readFile(file.path));
+    if ('error' in sheet) {
+      return sheet;
+    }
+    const [header, ...rows] = sheet.rows;
+    const headers = header ? header.cells.map(cell => cell.trim()) : [];
+    return {
+      headers,
+      records: rows.map(({ row, cells }) => ({
+        row,
+        record: Object.fromEntries(headers.map((name, index) => [name, cells[index] ?? '']))
+      }))
+    };
+  }
+
+  let headers: string[] = [];
+  const records: Array<{ row: number; record: Record<string, string> }> = [];
+  await new Promise<void>((resolve, reject) => {
+    fs.createReadStream(file.path)
+      // Files saved by Excel, and our own exports, start with a byte order mark
+      .pipe(csv({ mapHeaders: ({ header }) => header.replace(/^\ufeff/, '') }))
+      .on('headers', (names: string[]) => {
+        headers = names;
+      })
+      .on('data', (record) => {
+        // Row 1 is the header
+        records.push({ row: records.length + 2, record });
+      })
+      .on('end', () => {
+        resolve();
+      })
+      .on('error', (error) => {
+        reject(error);
       });
+  });
+  return { headers, records };
+};
+
+// Read matchOn and mode. With a match key the mode defaults to upsert, without one only insert is possible.
+const parseImportOptions = (query: Record<string, any>): { options: ImportOptions } | { error: string } => {
+  const { matchOn, mode } = query;
+  if (matchOn !== undefined && !IMPORT_MATCH_KEYS.includes(matchOn)) {
+    return { error: `Invalid matchOn. Allowed values: ${IMPORT_MATCH_KEYS.join(', ')}` };
+  }
+  if (mode !== undefined && !IMPORT_MODES.includes(mode)) {
+    return { error: `Invalid mode. Allowed values: ${IMPORT_MODES.join(', ')}` };
+  }
+  if (matchOn === undefined && mode !== undefined && mode !== 'insert') {
+    return { error: `mode=${mode} needs matchOn to find the clients to update` };
+  }
+
+  return {
+    options: {
+      matchOn: (matchOn as ImportMatchKey | undefined) ?? null,
+      mode: (mode as ImportMode | undefined) ?? (matchOn !== undefined ? 'upsert' : 'insert')
     }
+  };
+};
 
-    // Send initial response to client immediately with total count
-    res.writeHead(200, {
-      'Content-Type': 'application/json',
-      'Transfer-Encoding': 'chunked'
-    });
+/**
+ * Read an uploaded file and check every row against the client and policy schemas,
+ * after mapping its columns through the import profile if one is given. Columns that
+ * are not fields are ignored and reported. With a match key every row needs one, used
+ * by no other row; update-only imports check rows as updates, so only the key column
+ * is required and blank cells leave stored values alone.
+ */
+const readImportFile = async (
+  req: AuthRequest,
+  file: Express.Multer.File,
+  profile: ImportProfileData | null,
+  options: ImportOptions
+): Promise<{ error: string } | { reports: ImportRowReport[]; rows: ImportRow[]; ignoredColumns: string[] }> => {
+  const table = await readUploadedTable(file);
+  if ('error' in table) {
+    return table;
+  }
+
+  const source = importSource(table.headers, profile);
+  const keyField = options.matchOn ? IMPORT_MATCH_FIELDS[options.matchOn] : null;
+  const neededFields = [
+    ...(options.mode === 'update' ? [] : schemaRequiredFields(CLIENT_SCHEMA)),
+    ...(keyField ? [keyField] : [])
+  ];
+  const missingFields = neededFields.filter(field => !source.fields.has(field));
+  if (missingFields.length > 0) {
+    return { error: `${isXlsxUpload(file) ? 'XLSX file' : 'CSV'} is missing required fields: ${missingFields.join(', ')}` };
+  }
+
+  const reports: ImportRowReport[] = [];
+  const rows: ImportRow[] = [];
+  // Row that first used each match key
+  const keyRows = new Map<string, number>();
+  table.records.forEach(({ row, record }) => {
+    const mapped = source.map(record);
+    const input = options.mode === 'update'
+      ? Object.fromEntries(Object.entries(mapped.input).filter(([, value]) => !isBlank(value)))
+      : mapped.input;
+    const { client, policy, errors: fieldErrors } = splitPolicyFields(req, input, options.mode === 'update' ? 'update' : 'create', 'ignore');
+    // A field whose transform failed is not also reported as missing
+    const errors = [
+      ...mapped.errors,
+      ...fieldErrors.filter(error => !mapped.errors.some(mappedError => mappedError.field === error.field))
+    ];
+
+    if (options.matchOn && keyField && !errors.some(error => error.field === keyField)) {
+      const key = importKey({ client: client as ClientData, policy }, options.matchOn);
+      if (key === null) {
+        errors.push({ field: keyField, message: 'is required to match existing clients' });
+      } else if (keyRows.has(key)) {
+        errors.push({ field: keyField, message: `is the same as in row ${keyRows.get(key)}` });
+      } else {
+        keyRows.set(key, row);
+      }
+    }
+
+    if (errors.length === 0) {
+      rows.push({ row, client: client as ClientData, policy });
+      reports.push({ row, valid: true, errors, warnings: [], client: client as ClientData, policy });
+    } else {
+      reports.push({ row, valid: false, errors, warnings: [] });
+    }
+  });
 
-    // Send initial progress
+  return { reports, rows, ignoredColumns: source.ignoredColumns };
+};
+
+/**
+ * Write validated rows with write, streaming a progress object after each batch of 25
+ * and a summary, with the extra fields given, at the end.
+ */
+const streamImport = async (
+  res: Response,
+  rows: ImportRow[],
+  options: ImportOptions,
+  write: (onProgress: (processedCount: number, results: ImportRowResult[]) => void) => Promise<ImportRowResult[]>,
+  summary: Record<string, unknown>
+) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/json',
+    'Transfer-Encoding': 'chunked'
+  });
+
+  res.write(JSON.stringify({
+    success: true,
+    message: `Starting import of ${rows.length} clients`,
+    totalCount: rows.length,
+    processedCount: 0,
+    progress: 0,
+    ids: []
+  }));
+
+  const idsOf = (results: ImportRowResult[], status: ImportRowResult['status']) => results
+    .filter(result => result.status === status)
+    .map(result => result.clientId!);
+
+  const results = await write((processedCount, resultsSoFar) => {
     res.write(JSON.stringify({
       success: true,
-      message: `Starting import of ${results.length} clients`,
-      totalCount: results.length,
-      processedCount: 0,
-      progress: 0,
-      ids: []
+      message: `Imported ${processedCount} of ${rows.length} clients`,
+      totalCount: rows.length,
+      processedCount,
+      progress: Math.round((processedCount / rows.length) * 100),
+      ids: idsOf(resultsSoFar, 'inserted')
     }));
+  });
 
-    // If we have valid data, insert the clients in batches
-    const createdClients: string[] = [];
-    const batches = [];
-    
-    // Split results into batches of batchSize
-    for (let i = 0; i < results.length; i += batchSize) {
-      batches.push(results.slice(i, i + batchSize));
+  const counts = importCounts(results);
+  res.end(JSON.stringify({
+    success: true,
+    message: options.matchOn
+      ? `Inserted ${counts.inserted}, updated ${counts.updated}, skipped ${counts.skipped} and failed ${counts.failed} rows`
+      : `Successfully imported ${counts.inserted} clients`,
+    totalCount: rows.length,
+    processedCount: rows.length,
+    progress: 100,
+    count: counts.inserted,
+    ids: idsOf(results, 'inserted'),
+    insertedCount: counts.inserted,
+    updatedCount: counts.updated,
+    skippedCount: counts.skipped,
+    failedCount: counts.failed,
+    updatedIds: idsOf(results, 'updated'),
+    skipped: results.filter(result => result.status === 'skipped').map(({ row, clientId, message }) => ({ row, clientId, message })),
+    failed: results.filter(result => result.status === 'failed').map(({ row, clientId, message }) => ({ row, clientId, message })),
+    ...summary
+  }));
+};
+
+const importFailed = (res: Response, error: unknown) => {
+  // Check if headers have already been sent
+  if (!res.headersSent) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process CSV file',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } else {
+    // End the response with an error message
+    res.end(JSON.stringify({
+      success: false,
+      message: 'Error during import process',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }));
+  }
+};
+
+const importOwner = (req: AuthRequest): ImportOwner => ({
+  userId: req.user?.userId ?? null,
+  apiKeyId: req.service?.apiKeyId ?? null
+});
+
+/**
+ * Import clients from a CSV or XLSX file, mapping its columns through the import profile
+ * given as profile=<id>. With matchOn=policy_no|ceilao_ib_file_no|nic rows are matched to
+ * existing clients and mode=insert|update|upsert decides which are created, updated or
+ * skipped; updating needs clients.update as well. With dryRun=true nothing is written:
+ * every row is reported with its errors, warnings, normalized values and what it would
+ * do, and the valid rows are kept for POST /import-csv/:importId/commit.
+ */
+router.post('/import-csv', authenticate, requirePermission('clients.import'), uploadImportFile, async (req: AuthRequest & { file?: Express.Multer.File }, res: Response) => {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({ success: false, message: 'No file uploaded' });
+  }
+
+  try {
+    const parsedOptions = parseImportOptions(req.query);
+    if ('error' in parsedOptions) {
+      return res.status(400).json({ success: false, message: parsedOptions.error });
+    }
+    const { options } = parsedOptions;
+    if (options.mode !== 'insert' && !await hasPermissions(req, ['clients.update'])) {
+      return res.status(403).json({ success: false, message: 'Updating clients by import requires the clients.update permission' });
     }
 
-    // Process each batch
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      const batchPromises = batch.map(clientData => Client.create(clientData));
-      
-      try {
-        // Wait for all clients in the batch to be created
-        const batchResults = await Promise.allSettled(batchPromises);
-        
-        // Process batch results
-        batchResults.forEach((result) => {
-          if (result.status === 'fulfilled') {
-            createdClients.push(result.value);
-          } else {
-            console.error('Error creating client from CSV:', result.reason);
-          }
-        });
-        
-        // Update progress
-        processedCount += batch.length;
-        const progress = Math.round((processedCount / results.length) * 100);
-        
-        // Send progress update to client
-        res.write(JSON.stringify({
-          success: true,
-          message: `Imported ${processedCount} of ${results.length} clients`,
-          totalCount: results.length,
-          processedCount,
-          progress,
-          ids: createdClients
-        }));
-
-        // Add a small delay between batches to prevent database overload
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error('Error processing batch:', error);
+    let profile: ImportProfileData | null = null;
+    if (req.query.profile !== undefined) {
+      const profileId = parseInt(req.query.profile as string, 10);
+      profile = isNaN(profileId) ? null : await ImportProfile.getById(profileId);
+      if (!profile) {
+        return res.status(400).json({ success: false, message: 'Import profile not found' });
       }
     }
 
+    const parsed = await readImportFile(req, file, profile, options);
+
+    // Check the file could be read and has the required fields
+    if ('error' in parsed) {
+      return res.status(400).json({ 
+        success: false, 
+        message: parsed.error 
+      });
+    }
+
+    const rejected = parsed.reports.filter(report => !report.valid).map(({ row, errors }) => ({ row, errors }));
+
+    if (req.query.dryRun === 'true') {
+      // Rows whose key matches several clients cannot be imported
+      const matches = await matchImportRows(parsed.rows, options);
+      const rows: ImportRow[] = [];
+      const inserts: ImportRow[] = [];
+      const reportsByRow = new Map(parsed.reports.map(report => [report.row, report]));
+      parsed.rows.forEach((row, index) => {
+        const match = matches[index];
+        const report = reportsByRow.get(row.row)!;
+        if (match.action === 'fail') {
+          report.valid = false;
+          delete report.client;
+          delete report.policy;
+          report.errors.push({ field: IMPORT_MATCH_FIELDS[options.matchOn!], message: match.message });
+          rejected.push({ row: row.row, errors: report.errors });
+          return;
+        }
+
+        rows.push(row);
+        if (match.action === 'insert') {
+          inserts.push(row);
+        }
+        if (options.matchOn) {
+          report.action = match.action;
+          if (match.action !== 'insert' && match.clientId) {
+            report.clientId = match.clientId;
+          }
+        }
+      });
+
+      // Only rows that create a client can duplicate one
+      const warnings = await importWarnings(inserts);
+      parsed.reports.forEach(report => {
+        report.warnings = warnings.get(report.row) || [];
+      });
+
+      const saved = rows.length > 0
+        ? await ClientImport.create(importOwner(req), {
+          fileName: file.originalname || null,
+          totalRows: parsed.reports.length,
+          rows,
+          options
+        })
+        : null;
+      const actionCount = (action: ImportRowReport['action']) => parsed.reports.filter(report => report.action === action).length;
+
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        message: `${rows.length} of ${parsed.reports.length} rows can be imported`,
+        importId: saved?.id ?? null,
+        expiresAt: saved?.expiresAt ?? null,
+        matchOn: options.matchOn,
+        mode: options.mode,
+        totalCount: parsed.reports.length,
+        validCount: rows.length,
+        rejectedCount: rejected.length,
+        warningCount: warnings.size,
+        insertCount: options.matchOn ? actionCount('insert') : rows.length,
+        updateCount: actionCount('update'),
+        skipCount: actionCount('skip'),
+        ignoredColumns: parsed.ignoredColumns,
+        rows: parsed.reports
+      });
+    }
+
+    await streamImport(res, parsed.rows, options, onProgress => importClients(parsed.rows, options, auditActor(req), onProgress), {
+      rejectedCount: rejected.length,
+      rejected,
+      ignoredColumns: parsed.ignoredColumns
+    });
+  } catch (error) {
+    console.error('Error processing CSV file:', error);
+    importFailed(res, error);
+  } finally {
     // Clean up the uploaded file
-    fs.unlink(req.file.path, (err) => {
+    fs.unlink(file.path, (err) => {
       if (err) console.error('Error deleting temp file:', err);
     });
+  }
+});
 
-    // Send final response and end the stream
-    res.end(JSON.stringify({
-      success: true, 
-      message: `Successfully imported ${createdClients.length} clients`, 
-      totalCount: results.length,
-      processedCount: processedCount,
-      progress: 100,
-      count: createdClients.length,
-      ids: createdClients
-    }));
+/**
+ * Write the rows of a dry run with the match key and mode it was run with. Rows are
+ * matched again, so clients changed since the dry run are taken into account. Each dry
+ * run can be committed once, by whoever uploaded the file. A commit that fails can be
+ * retried and carries on after the rows it wrote.
+ */
+router.post('/import-csv/:importId/commit', authenticate, requirePermission('clients.import'), async (req: AuthRequest, res: Response) => {
+  const { importId } = req.params;
 
-  } catch (error) {
-    console.error('Error processing CSV file:', error);
-    
-    // Clean up the uploaded file if it exists
-    if (req.file) {
-      fs.unlink(req.file.path, (err) => {
-        if (err) console.error('Error deleting temp file:', err);
-      });
+  try {
+    const claim = await ClientImport.claim(importId, importOwner(req), {
+      allowUpdates: await hasPermissions(req, ['clients.update'])
+    });
+    if (claim.status === 'not_found') {
+      return res.status(404).json({ success: false, message: 'Import not found' });
     }
-    
-    // Check if headers have already been sent
-    if (!res.headersSent) {
-      res.status(500).json({ 
-        success: false, 
-        message: 'Failed to process CSV file',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    } else {
-      // End the response with an error message
-      res.end(JSON.stringify({
-        success: false,
-        message: 'Error during import process',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }));
+    if (claim.status === 'update_not_allowed') {
+      return res.status(403).json({ success: false, message: 'Updating clients by import requires the clients.update permission' });
+    }
+    if (claim.status === 'expired') {
+      return res.status(410).json({ success: false, message: 'Import has expired, run the dry run again' });
+    }
+    if (claim.status === 'already_committed') {
+      return res.status(409).json({ success: false, message: 'Import has already been committed' });
     }
+    if (claim.status === 'in_progress') {
+      return res.status(409).json({ success: false, message: 'Import is being committed' });
+    }
+
+    await streamImport(res, claim.rows, claim.options, onProgress => commitImport(importId, claim, auditActor(req), onProgress), {
+      importId,
+      resumedAfterRows: claim.processedRows
+    });
+  } catch (error) {
+    console.error('Error committing CSV import:', error);
+    importFailed(res, error);
   }
 });
 
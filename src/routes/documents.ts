@@ -2,7 +2,7 @@ import express, { Request, Response } from 'express';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
 import { BlobStorageService } from '../services/storage';
-import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
 import path from 'path';
 import fs from 'fs';
 import { BlobServiceClient, BlobSASPermissions } from '@azure/storage-blob';
@@ -39,9 +39,9 @@ const upload = multer({
 /**
  * @route POST /api/documents/upload/:clientId/:documentType
  * @desc Upload a document for a client
- * @access Private
+ * @access Private (documents.upload)
  */
-router.post('/upload/:clientId/:documentType', authenticate, upload.single('file'), async (req: AuthRequest, res: Response) => {
+router.post('/upload/:clientId/:documentType', authenticate, requirePermission('documents.upload'), upload.single('file'), async (req: AuthRequest, res: Response) => {
   try {
     const { clientId, documentType } = req.params;
     
@@ -111,9 +111,9 @@ router.post('/upload/:clientId/:documentType', authenticate, upload.single('file
 /**
  * @route GET /api/documents/:clientId/:documentType/url
  * @desc Get a temporary URL for accessing a document
- * @access Private
+ * @access Private (documents.read)
  */
-router.get('/:clientId/:documentType/url', authenticate, async (req: Request, res: Response) => {
+router.get('/:clientId/:documentType/url', authenticate, requirePermission('documents.read'), async (req: Request, res: Response) => {
   try {
     const { clientId, documentType } = req.params;
     const { blobUrl } = req.query;
@@ -175,9 +175,9 @@ router.get('/:clientId/:documentType/url', authenticate, async (req: Request, re
 /**
  * @route DELETE /api/documents/:clientId/:documentType
  * @desc Delete a document
- * @access Private
+ * @access Private (documents.delete)
  */
-router.delete('/:clientId/:documentType', authenticate, async (req: Request, res: Response) => {
+router.delete('/:clientId/:documentType', authenticate, requirePermission('documents.delete'), async (req: Request, res: Response) => {
   try {
     const { clientId, documentType } = req.params;
     const { blobUrl } = req.query;
@@ -230,7 +230,7 @@ router.delete('/:clientId/:documentType', authenticate, async (req: Request, res
 });
 
 // Secure document proxy endpoint - requires authentication
-router.get('/secure/:clientId/:documentType/:filename', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/secure/:clientId/:documentType/:filename', authenticate, requirePermission('documents.read'), async (req: AuthRequest, res: Response) => {
   try {
     const { clientId, documentType, filename } = req.params;
     
@@ -292,7 +292,7 @@ router.get('/secure/:clientId/:documentType/:filename', authenticate, async (req
 });
 
 // Add a document delete endpoint that uses the same pattern as our secure endpoint
-router.delete('/delete/:clientId/:documentType/:filename', authenticate, async (req: AuthRequest, res: Response) => {
+router.delete('/delete/:clientId/:documentType/:filename', authenticate, requirePermission('documents.delete'), async (req: AuthRequest, res: Response) => {
   try {
     const { clientId, documentType, filename } = req.params;
     
@@ -417,7 +417,7 @@ router.get('/public/:token/:clientId/:documentType/:filename', async (req: Reque
 });
 
 // Generate a public temporary token for document access
-router.get('/token/:clientId/:documentType/:filename', authenticate, (req: Request, res: Response) => {
+router.get('/token/:clientId/:documentType/:filename', authenticate, requirePermission('documents.read'), (req: Request, res: Response) => {
   const { clientId, documentType, filename } = req.params;
   
   // Create a simple time-based token
@@ -459,9 +459,9 @@ router.get('/token/:clientId/:documentType/:filename', authenticate, (req: Reque
 /**
  * @route POST /api/documents/migrate/new-client/:newClientId
  * @desc Migrate documents from 'new-client' to the actual client ID
- * @access Private
+ * @access Private (documents.upload)
  */
-router.post('/migrate/new-client/:newClientId', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/migrate/new-client/:newClientId', authenticate, requirePermission('documents.upload'), async (req: AuthRequest, res: Response) => {
   try {
     const { newClientId } = req.params;
     const { documentUrls } = req.body;
@@ -569,9 +569,9 @@ router.post('/migrate/new-client/:newClientId', authenticate, async (req: AuthRe
 /**
  * @route POST /api/documents/migrate/:tempId/:newClientId
  * @desc Migrate documents from a specific temporary folder to the actual client ID
- * @access Private
+ * @access Private (documents.upload)
  */
-router.post('/migrate/:tempId/:newClientId', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/migrate/:tempId/:newClientId', authenticate, requirePermission('documents.upload'), async (req: AuthRequest, res: Response) => {
   try {
     const { tempId, newClientId } = req.params;
     const { documentUrls } = req.body;
@@ -674,9 +674,9 @@ router.post('/migrate/:tempId/:newClientId', authenticate, async (req: AuthReque
 /**
  * @route GET /api/documents/upload-token/:clientId/:documentType
  * @desc Get a SAS token for direct upload to Azure Blob Storage
- * @access Private
+ * @access Private (documents.upload)
  */
-router.get('/upload-token/:clientId/:documentType', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/upload-token/:clientId/:documentType', authenticate, requirePermission('documents.upload'), async (req: AuthRequest, res: Response) => {
   try {
     const { clientId, documentType } = req.params;
     const { fileName } = req.query;
@@ -707,9 +707,9 @@ router.get('/upload-token/:clientId/:documentType', authenticate, async (req: Au
 /**
  * @route POST /api/documents/confirm-upload/:clientId/:documentType
  * @desc Confirm that a file has been uploaded directly to blob storage
- * @access Private
+ * @access Private (documents.upload)
  */
-router.post('/confirm-upload/:clientId/:documentType', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/confirm-upload/:clientId/:documentType', authenticate, requirePermission('documents.upload'), async (req: AuthRequest, res: Response) => {
   try {
     const { clientId, documentType } = req.params;
     const { blobName, blobUrl, fileName, fileType, fileSize } = req.body;
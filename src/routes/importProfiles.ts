@@ -0,0 +1,124 @@
+import { Response, Router } from 'express';
+import { ImportProfile, parseImportProfile } from '../models/ImportProfile';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth';
+
+// Mounted at /api/clients/import-profiles
+const router = Router();
+
+router.use(authenticate, requirePermission('clients.import'));
+
+const parseProfileId = (value: string): number | null => {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+};
+
+// List the saved profiles
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const profiles = await ImportProfile.list();
+    res.status(200).json({ success: true, data: profiles });
+  } catch (error) {
+    console.error('Error listing import profiles:', error);
+    res.status(500).json({ success: false, message: 'Failed to get import profiles' });
+  }
+});
+
+// Get one profile
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseProfileId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ success: false, message: 'Invalid import profile ID' });
+    }
+
+    const profile = await ImportProfile.getById(id);
+    if (!profile) {
+      return res.status(404).json({ success: false, message: 'Import profile not found' });
+    }
+
+    res.status(200).json({ success: true, data: profile });
+  } catch (error) {
+    console.error('Error getting import profile:', error);
+    res.status(500).json({ success: false, message: 'Failed to get import profile' });
+  }
+});
+
+// Save a new profile
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = parseImportProfile(req.body || {});
+    if ('errors' in parsed) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors: parsed.errors });
+    }
+
+    const id = await ImportProfile.create(parsed.profile, req.user?.userId ?? null);
+    if (id === null) {
+      return res.status(409).json({ success: false, message: 'An import profile with this name already exists' });
+    }
+
+    const profile = await ImportProfile.getById(id);
+    res.status(201).json({
+      success: true,
+      message: 'Import profile created successfully',
+      data: profile
+    });
+  } catch (error) {
+    console.error('Error creating import profile:', error);
+    res.status(500).json({ success: false, message: 'Failed to create import profile' });
+  }
+});
+
+// Replace a profile
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseProfileId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ success: false, message: 'Invalid import profile ID' });
+    }
+
+    const parsed = parseImportProfile(req.body || {});
+    if ('errors' in parsed) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors: parsed.errors });
+    }
+
+    const status = await ImportProfile.update(id, parsed.profile);
+    if (status === 'not_found') {
+      return res.status(404).json({ success: false, message: 'Import profile not found' });
+    }
+    if (status === 'name_taken') {
+      return res.status(409).json({ success: false, message: 'An import profile with this name already exists' });
+    }
+
+    const profile = await ImportProfile.getById(id);
+    res.status(200).json({
+      success: true,
+      message: 'Import profile updated successfully',
+      data: profile
+    });
+  } catch (error) {
+    console.error('Error updating import profile:', error);
+    res.status(500).json({ success: false, message: 'Failed to update import profile' });
+  }
+});
+
+// Delete a profile
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseProfileId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ success: false, message: 'Invalid import profile ID' });
+    }
+
+    const deleted = await ImportProfile.delete(id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, message: 'Import profile not found' });
+    }
+
+    res.status(200).json({ success: true, message: 'Import profile deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    res.status(500).json({ success: false, message: 'Failed to delete import profile' });
+  }
+});
+
+export default router;
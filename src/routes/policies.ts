@@ -0,0 +1,149 @@
+import { Response, Router } from 'express';
+import { Client } from '../models/Client';
+import { COMMISSION_PERMISSION, visiblePolicy } from '../models/clientExport';
+import { Policy, PolicyData } from '../models/Policy';
+import { authenticate, requirePermission, hasPermissions, AuthRequest } from '../middleware/auth';
+import { auditActor, createPolicy, updatePolicy, deletePolicy } from '../services/clients';
+
+// Mounted at /api/clients/:clientId/policies
+const router = Router({ mergeParams: true });
+
+const parsePolicyId = (value: string): number | null => {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+};
+
+// A policy without commission unless the caller may see it
+const forCaller = async (req: AuthRequest, policy: PolicyData | null) => {
+  return policy && visiblePolicy(policy, await hasPermissions(req, [COMMISSION_PERMISSION]));
+};
+
+// List a client's policies
+router.get('/', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await Client.getById(clientId);
+    if (!client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    const canSeeCommission = await hasPermissions(req, [COMMISSION_PERMISSION]);
+    const policies = await Policy.listForClient(clientId);
+    res.status(200).json({ success: true, data: policies.map(policy => visiblePolicy(policy, canSeeCommission)) });
+  } catch (error) {
+    console.error('Error listing policies:', error);
+    res.status(500).json({ success: false, message: 'Failed to get policies' });
+  }
+});
+
+// Get one policy
+router.get('/:policyId', authenticate, requirePermission('clients.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { clientId } = req.params;
+    const policyId = parsePolicyId(req.params.policyId);
+    if (policyId === null) {
+      return res.status(400).json({ success: false, message: 'Invalid policy ID' });
+    }
+
+    const policy = await Policy.getById(clientId, policyId);
+    if (!policy) {
+      return res.status(404).json({ success: false, message: 'Policy not found' });
+    }
+
+    res.status(200).json({ success: true, data: await forCaller(req, policy) });
+  } catch (error) {
+    console.error('Error getting policy:', error);
+    res.status(500).json({ success: false, message: 'Failed to get policy' });
+  }
+});
+
+// Add a policy to a client. Product and insurance provider default to the client's.
+router.post('/', authenticate, requirePermission('clients.update'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await Client.getById(clientId);
+    if (!client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    const { data, errors } = Policy.fromInput(req.body || {}, 'create');
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors });
+    }
+
+    const policyId = await createPolicy(clientId, {
+      ...data,
+      product: data.product || client.product,
+      insurance_provider: data.insurance_provider || client.insurance_provider
+    }, auditActor(req));
+
+    const policy = await Policy.getById(clientId, policyId);
+    res.status(201).json({
+      success: true,
+      message: 'Policy created successfully',
+      data: await forCaller(req, policy)
+    });
+  } catch (error) {
+    console.error('Error creating policy:', error);
+    res.status(500).json({ success: false, message: 'Failed to create policy' });
+  }
+});
+
+// Update a policy
+router.put('/:policyId', authenticate, requirePermission('clients.update'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { clientId } = req.params;
+    const policyId = parsePolicyId(req.params.policyId);
+    if (policyId === null) {
+      return res.status(400).json({ success: false, message: 'Invalid policy ID' });
+    }
+
+    const { data, errors } = Policy.fromInput(req.body || {}, 'update');
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors });
+    }
+
+    const updated = await updatePolicy(clientId, policyId, data, auditActor(req));
+    if (!updated) {
+      return res.status(404).json({ success: false, message: 'Policy not found' });
+    }
+
+    const policy = await Policy.getById(clientId, policyId);
+    res.status(200).json({
+      success: true,
+      message: 'Policy updated successfully',
+      data: await forCaller(req, policy)
+    });
+  } catch (error) {
+    console.error('Error updating policy:', error);
+    res.status(500).json({ success: false, message: 'Failed to update policy' });
+  }
+});
+
+// Remove a policy
+router.delete('/:policyId', authenticate, requirePermission('clients.update'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { clientId } = req.params;
+    const policyId = parsePolicyId(req.params.policyId);
+    if (policyId === null) {
+      return res.status(400).json({ success: false, message: 'Invalid policy ID' });
+    }
+
+    const deleted = await deletePolicy(clientId, policyId, auditActor(req));
+    if (!deleted) {
+      return res.status(404).json({ success: false, message: 'Policy not found' });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Policy deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting policy:', error);
+    res.status(500).json({ success: false, message: 'Failed to delete policy' });
+  }
+});
+
+export default router;
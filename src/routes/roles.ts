@@ -0,0 +1,67 @@
+import { Router, Response } from 'express';
+import { authenticateUser, requirePermission, AuthRequest } from '../middleware/auth';
+import { ROLES, isValidRole } from '../config/roles';
+import { PERMISSIONS, PERMISSION_NAMES, SUPERUSER_ROLE, isValidPermission } from '../config/permissions';
+import { RolePermission } from '../models/RolePermission';
+import { userAdminLimiter } from '../middleware/rateLimit';
+
+const router = Router();
+
+router.use(userAdminLimiter, authenticateUser, requirePermission('roles.manage'));
+
+// List every role with its permissions, plus the permission catalogue
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const roles = await Promise.all(ROLES.map(async role => ({
+      role,
+      editable: role !== SUPERUSER_ROLE,
+      permissions: await RolePermission.getForRole(role)
+    })));
+
+    res.json({
+      roles,
+      permissions: PERMISSION_NAMES.map(name => ({ name, description: PERMISSIONS[name] }))
+    });
+  } catch (error) {
+    console.error('List role permissions error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Replace the permissions of a role
+router.put('/:role', async (req: AuthRequest, res: Response) => {
+  try {
+    const { role } = req.params;
+    const { permissions } = req.body;
+
+    if (!isValidRole(role)) {
+      return res.status(400).json({ message: `Invalid role. Allowed roles: ${ROLES.join(', ')}` });
+    }
+
+    if (role === SUPERUSER_ROLE) {
+      return res.status(400).json({ message: `The ${SUPERUSER_ROLE} role always has every permission` });
+    }
+
+    if (!Array.isArray(permissions)) {
+      return res.status(400).json({ message: 'permissions must be an array of permission names' });
+    }
+
+    const unknown = permissions.filter(permission => !isValidPermission(permission));
+    if (unknown.length > 0) {
+      return res.status(400).json({ message: `Unknown permissions: ${unknown.join(', ')}` });
+    }
+
+    await RolePermission.setForRole(role, permissions);
+
+    res.json({
+      message: 'Role permissions updated',
+      role,
+      permissions: await RolePermission.getForRole(role)
+    });
+  } catch (error) {
+    console.error('Update role permissions error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+export default router;
@@ -0,0 +1,255 @@
+import { Router, Response, NextFunction } from 'express';
+import db from '../config/database';
+import { comparePassword, verifyChallengeToken } from '../utils/auth';
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUri } from '../utils/totp';
+import { authenticateUser, denyWhileImpersonating, requirePermission, AuthRequest } from '../middleware/auth';
+import { ROLES, isValidRole } from '../config/roles';
+import { TwoFactor } from '../models/TwoFactor';
+import { startLoginSession } from '../services/auth';
+import { loginLimiter } from '../middleware/rateLimit';
+
+const router = Router();
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Insurance Brokerage';
+
+interface EnrollmentRequest extends AuthRequest {
+  enrollmentUserId?: number;
+  // Set when enrolling during login because the user's role requires 2FA
+  enrollmentDuringLogin?: boolean;
+}
+
+/**
+ * Enrollment is open to logged-in users and to users holding a setup
+ * challenge token from a login that requires them to enroll first.
+ */
+const authenticateForEnrollment = (req: EnrollmentRequest, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.split(' ')[1];
+
+  if (token) {
+    try {
+      req.enrollmentUserId = verifyChallengeToken(token, 'two_factor_setup');
+      req.enrollmentDuringLogin = true;
+      return next();
+    } catch (error) {
+      // Not a setup token - fall through to normal authentication
+    }
+  }
+
+  return authenticateUser(req, res, () => {
+    denyWhileImpersonating(req, res, () => {
+      req.enrollmentUserId = req.user!.userId;
+      next();
+    });
+  });
+};
+
+const getUser = async (userId: number) => {
+  const pool = await db.ensureConnection();
+  const result = await pool.request()
+    .input('userId', userId)
+    .query('SELECT id, email, password, first_name, last_name, role, status FROM users WHERE id = @userId');
+  return result.recordset[0];
+};
+
+// Two-factor status for the current user
+router.get('/status', authenticateUser, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const [state, required, recoveryCodesRemaining] = await Promise.all([
+      TwoFactor.getState(userId),
+      TwoFactor.isRequiredForRole(req.user!.role),
+      TwoFactor.remainingRecoveryCodes(userId)
+    ]);
+
+    res.json({
+      enabled: !!state?.enabled,
+      required,
+      recoveryCodesRemaining
+    });
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Start enrollment: generate a secret and the otpauth URI for the authenticator app
+router.post('/enroll', loginLimiter, authenticateForEnrollment, async (req: EnrollmentRequest, res: Response) => {
+  try {
+    const userId = req.enrollmentUserId!;
+    const user = await getUser(userId);
+    if (!user || user.status !== 'active') {
+      return res.status(403).json({ message: 'Account is not active. Please contact administrator.' });
+    }
+
+    const state = await TwoFactor.getState(userId);
+    if (state?.enabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateTotpSecret();
+    await TwoFactor.setPendingSecret(userId, secret);
+
+    res.json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER)
+    });
+  } catch (error) {
+    console.error('Two-factor enrollment error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Finish enrollment by confirming a code from the authenticator app
+router.post('/verify', loginLimiter, authenticateForEnrollment, async (req: EnrollmentRequest, res: Response) => {
+  try {
+    const userId = req.enrollmentUserId!;
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ message: 'Verification code is required' });
+    }
+
+    const user = await getUser(userId);
+    if (!user || user.status !== 'active') {
+      return res.status(403).json({ message: 'Account is not active. Please contact administrator.' });
+    }
+
+    const state = await TwoFactor.getState(userId);
+    if (!state?.secret) {
+      return res.status(400).json({ message: 'Start enrollment first' });
+    }
+    if (state.enabled) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const step = verifyTotpCode(state.secret, String(code));
+    if (step === null || !(await TwoFactor.acceptStep(userId, step, true))) {
+      return res.status(400).json({ message: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await TwoFactor.generateRecoveryCodes(userId);
+
+    // Users forced to enroll during login get their session now
+    const loginResponse = req.enrollmentDuringLogin ? await startLoginSession(req, user) : {};
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again.',
+      recoveryCodes,
+      ...loginResponse
+    });
+  } catch (error) {
+    console.error('Two-factor verification error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Disable two-factor authentication (requires the password and a current code)
+router.post('/disable', loginLimiter, authenticateUser, denyWhileImpersonating, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { password, code, recoveryCode } = req.body;
+
+    if (!password || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Password and a code or recovery code are required' });
+    }
+
+    if (await TwoFactor.isRequiredForRole(req.user!.role)) {
+      return res.status(403).json({ message: 'Two-factor authentication is required for your role' });
+    }
+
+    const user = await getUser(userId);
+    const state = await TwoFactor.getState(userId);
+    if (!user || !state?.enabled || !state.secret) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    if (!(await comparePassword(password, user.password))) {
+      return res.status(401).json({ message: 'Invalid password' });
+    }
+
+    let verified = false;
+    if (code) {
+      const step = verifyTotpCode(state.secret, String(code));
+      verified = step !== null && await TwoFactor.acceptStep(userId, step);
+    } else {
+      verified = await TwoFactor.useRecoveryCode(userId, String(recoveryCode));
+    }
+
+    if (!verified) {
+      return res.status(401).json({ message: 'Invalid verification code' });
+    }
+
+    await TwoFactor.disable(userId);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Replace the recovery codes (requires a current code)
+router.post('/recovery-codes', loginLimiter, authenticateUser, denyWhileImpersonating, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ message: 'Verification code is required' });
+    }
+
+    const state = await TwoFactor.getState(userId);
+    if (!state?.enabled || !state.secret) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    const step = verifyTotpCode(state.secret, String(code));
+    if (step === null || !(await TwoFactor.acceptStep(userId, step))) {
+      return res.status(401).json({ message: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await TwoFactor.generateRecoveryCodes(userId);
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Recovery code generation error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Roles that require two-factor authentication
+router.get('/policy', authenticateUser, requirePermission('users.manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const requiredRoles = await TwoFactor.getRequiredRoles();
+    res.json({
+      roles: ROLES.map(role => ({ role, require2fa: requiredRoles.includes(role) }))
+    });
+  } catch (error) {
+    console.error('Two-factor policy error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Require or stop requiring two-factor authentication for a role
+router.put('/policy/:role', authenticateUser, requirePermission('users.manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { role } = req.params;
+    const { require2fa } = req.body;
+
+    if (!isValidRole(role)) {
+      return res.status(400).json({ message: `Invalid role. Allowed roles: ${ROLES.join(', ')}` });
+    }
+
+    if (typeof require2fa !== 'boolean') {
+      return res.status(400).json({ message: 'require2fa must be true or false' });
+    }
+
+    await TwoFactor.setRequiredForRole(role, require2fa);
+
+    res.json({ message: 'Two-factor policy updated', role, require2fa });
+  } catch (error) {
+    console.error('Two-factor policy update error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+export default router;
@@ -0,0 +1,568 @@
+import { Router, Response } from 'express';
+import db from '../config/database';
+import crypto from 'crypto';
+import { hashPassword, generateToken } from '../utils/auth';
+import { authenticateUser, requirePermission, AuthRequest } from '../middleware/auth';
+import { ROLES, isValidRole } from '../config/roles';
+import { SUPERUSER_ROLE } from '../config/permissions';
+import { USER_STATUSES, UserStatus, isValidUserStatus } from '../config/userStatus';
+import { User, UserUpdate } from '../models/User';
+import { Session } from '../models/Session';
+import { PasswordToken, INVITE_TOKEN_TTL_HOURS } from '../models/PasswordToken';
+import { sendMail, frontendLink, invitationEmail } from '../services/mail';
+import { LoginThrottle } from '../models/LoginThrottle';
+import { TwoFactor } from '../models/TwoFactor';
+import { LoginAttempt, LoginOutcome, LOGIN_OUTCOMES } from '../models/LoginAttempt';
+import { ImpersonationLog } from '../models/ImpersonationLog';
+import { userAdminLimiter } from '../middleware/rateLimit';
+import { checkPasswordPolicy, recordPasswordHistory, setUserPassword, POLICY_ERROR_MESSAGE } from '../services/password';
+
+const router = Router();
+
+router.use(userAdminLimiter, authenticateUser, requirePermission('users.manage'));
+
+// Impersonation tokens cannot be refreshed; the admin starts a new one when it runs out
+const IMPERSONATION_TTL_MINUTES = Number(process.env.IMPERSONATION_TTL_MINUTES) || 30;
+
+const parseUserId = (value: string): number | null => {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+};
+
+// List users with optional role, status and name/email filters
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { role, status, search } = req.query;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    if (role !== undefined && !isValidRole(role)) {
+      return res.status(400).json({ message: `Invalid role. Allowed roles: ${ROLES.join(', ')}` });
+    }
+
+    if (status !== undefined && !isValidUserStatus(status)) {
+      return res.status(400).json({ message: `Invalid status. Allowed values: ${USER_STATUSES.join(', ')}` });
+    }
+
+    const { users, totalCount } = await User.list({
+      role: role as string | undefined,
+      status: status as UserStatus | undefined,
+      search: typeof search === 'string' && search.trim() !== '' ? search.trim() : undefined,
+      limit: isNaN(limit) ? 100 : Math.min(limit, 500),
+      offset: isNaN(offset) ? 0 : offset
+    });
+
+    res.json({
+      users: users.map(User.toResponse),
+      totalCount
+    });
+  } catch (error) {
+    console.error('List users error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Audit trail of impersonation sessions and the requests made in them
+router.get('/impersonation-log', async (req: AuthRequest, res: Response) => {
+  try {
+    const adminId = req.query.adminId ? parseUserId(req.query.adminId as string) : undefined;
+    const userId = req.query.userId ? parseUserId(req.query.userId as string) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    if (adminId === null || userId === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const { entries, totalCount } = await ImpersonationLog.list({
+      adminId,
+      userId,
+      sessionId: typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined,
+      limit: isNaN(limit) ? 100 : Math.min(limit, 500),
+      offset: isNaN(offset) ? 0 : offset
+    });
+
+    res.json({
+      entries: entries.map(ImpersonationLog.toResponse),
+      totalCount
+    });
+  } catch (error) {
+    console.error('Impersonation log error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Get a single user
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const user = await User.getById(id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json(User.toResponse(user));
+  } catch (error) {
+    console.error('Get user error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Create new user
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+  try {
+    const { email, password, firstName, lastName, role, phoneNumber } = req.body;
+
+    // Validate input
+    if (!email || !password || !firstName || !lastName || !role) {
+      return res.status(400).json({ message: 'Missing required fields' });
+    }
+
+    if (!isValidRole(role)) {
+      return res.status(400).json({ message: `Invalid role. Allowed roles: ${ROLES.join(', ')}` });
+    }
+
+    const passwordErrors = checkPasswordPolicy(password, { email, firstName, lastName });
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ message: POLICY_ERROR_MESSAGE, errors: passwordErrors });
+    }
+
+      // Get connection from pool with resilience
+      const pool = await db.ensureConnection();
+
+    // Check if email already exists
+    const existingUser = await pool.request()
+      .input('email', email)
+      .query('SELECT id FROM users WHERE email = @email');
+
+    if (existingUser.recordset.length > 0) {
+      return res.status(409).json({ message: 'Email already in use' });
+    }
+
+    // Hash password
+    const hashedPassword = await hashPassword(password);
+
+    // Insert user
+    const result = await pool.request()
+      .input('email', email)
+      .input('password', hashedPassword)
+      .input('firstName', firstName)
+      .input('lastName', lastName)
+      .input('role', role)
+      .input('phoneNumber', phoneNumber || null)
+      .input('status', 'active')
+      .input('actorId', req.user!.userId)
+      .query(`
+        INSERT INTO users (email, password, first_name, last_name, role, phone_number, status, is_active, status_changed_at, status_changed_by)
+        VALUES (@email, @password, @firstName, @lastName, @role, @phoneNumber, @status, 1, GETDATE(), @actorId);
+        DECLARE @userId INT = SCOPE_IDENTITY();
+        INSERT INTO user_status_history (user_id, from_status, to_status, changed_by) VALUES (@userId, NULL, @status, @actorId);
+        SELECT @userId AS id;
+      `);
+
+    const userId = Number(result.recordset[0].id);
+    await recordPasswordHistory(userId, hashedPassword);
+
+    res.status(201).json({
+      message: 'User created successfully',
+      userId
+    });
+    } catch (dbError) {
+      console.error('Database error creating user:', dbError);
+
+      // Try to reconnect
+      try {
+        await db.ensureConnection();
+      } catch (reconnectError) {
+        console.error('Failed to reconnect to database:', reconnectError);
+      }
+
+      // Return error to client
+      return res.status(503).json({ message: 'Database service unavailable, please try again later' });
+    }
+  } catch (error) {
+    console.error('Create user error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Invite a new user - they receive a link to set their own password
+router.post('/invite', async (req: AuthRequest, res: Response) => {
+  try {
+    const { email, firstName, lastName, role, phoneNumber } = req.body;
+
+    if (!email || !firstName || !lastName || !role) {
+      return res.status(400).json({ message: 'Missing required fields' });
+    }
+
+    if (!isValidRole(role)) {
+      return res.status(400).json({ message: `Invalid role. Allowed roles: ${ROLES.join(', ')}` });
+    }
+
+    const existingUser = await User.getByEmail(email);
+    if (existingUser) {
+      return res.status(409).json({ message: 'Email already in use' });
+    }
+
+    // The account gets a random password nobody knows until the invitation is accepted
+    const placeholderPassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
+    const pool = await db.ensureConnection();
+    const result = await pool.request()
+      .input('email', email)
+      .input('password', placeholderPassword)
+      .input('firstName', firstName)
+      .input('lastName', lastName)
+      .input('role', role)
+      .input('phoneNumber', phoneNumber || null)
+      .input('status', 'invited')
+      .input('actorId', req.user!.userId)
+      .query(`
+        INSERT INTO users (email, password, first_name, last_name, role, phone_number, status, is_active, status_changed_at, status_changed_by)
+        VALUES (@email, @password, @firstName, @lastName, @role, @phoneNumber, @status, 0, GETDATE(), @actorId);
+        DECLARE @userId INT = SCOPE_IDENTITY();
+        INSERT INTO user_status_history (user_id, from_status, to_status, changed_by) VALUES (@userId, NULL, @status, @actorId);
+        SELECT @userId AS id;
+      `);
+
+    const userId = Number(result.recordset[0].id);
+    const token = await PasswordToken.create(userId, 'invite');
+    const link = frontendLink('/accept-invite', { token });
+    await sendMail(invitationEmail(email, firstName, link, INVITE_TOKEN_TTL_HOURS));
+
+    res.status(201).json({
+      message: 'Invitation sent successfully',
+      userId
+    });
+  } catch (error) {
+    console.error('Invite user error:', error);
+    res.status(503).json({ message: 'Service unavailable, please try again later' });
+  }
+});
+
+// Login history of a user for security investigations
+router.get('/:id/login-history', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const { outcome, from, to } = req.query;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    if (outcome !== undefined && !LOGIN_OUTCOMES.includes(outcome as LoginOutcome)) {
+      return res.status(400).json({ message: `Invalid outcome. Allowed values: ${LOGIN_OUTCOMES.join(', ')}` });
+    }
+
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ message: 'from and to must be valid dates' });
+    }
+
+    const user = await User.getById(id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { attempts, totalCount } = await LoginAttempt.listForUser(id, {
+      outcome: outcome as LoginOutcome | undefined,
+      from: fromDate,
+      to: toDate,
+      limit: isNaN(limit) ? 100 : Math.min(limit, 500),
+      offset: isNaN(offset) ? 0 : offset
+    });
+
+    res.json({
+      attempts: attempts.map(LoginAttempt.toResponse),
+      totalCount
+    });
+  } catch (error) {
+    console.error('Login history error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Act as another user to see what they see. Every request made with the token is audited.
+router.post('/:id/impersonate', requirePermission('users.impersonate'), async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const { reason } = req.body;
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ message: 'A reason is required to impersonate a user' });
+    }
+
+    if (id === req.user!.userId) {
+      return res.status(400).json({ message: 'You cannot impersonate yourself' });
+    }
+
+    const user = await User.getById(id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.role === SUPERUSER_ROLE) {
+      return res.status(403).json({ message: `${SUPERUSER_ROLE} accounts cannot be impersonated` });
+    }
+
+    if (user.status !== 'active') {
+      return res.status(400).json({ message: 'Only active users can be impersonated' });
+    }
+
+    const adminId = req.user!.userId;
+    const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000);
+    const sessionId = await Session.createImpersonation(user.id, adminId, expiresAt, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    await ImpersonationLog.recordStart(sessionId, adminId, user.id, reason.trim(), req.ip);
+    console.warn(`User ${adminId} started impersonating user ${user.id} (session ${sessionId})`);
+
+    const expiresIn = `${IMPERSONATION_TTL_MINUTES}m`;
+    res.json({
+      token: generateToken(user.id, user.role, sessionId, { impersonatorId: adminId, expiresIn }),
+      expiresIn,
+      expiresAt,
+      impersonatorId: adminId,
+      user: User.toResponse(user)
+    });
+  } catch (error) {
+    console.error('Impersonate user error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Update name, phone number and role
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const { firstName, lastName, phoneNumber, role } = req.body;
+
+    if (role !== undefined && !isValidRole(role)) {
+      return res.status(400).json({ message: `Invalid role. Allowed roles: ${ROLES.join(', ')}` });
+    }
+
+    if ((firstName !== undefined && !firstName) || (lastName !== undefined && !lastName)) {
+      return res.status(400).json({ message: 'First and last name cannot be empty' });
+    }
+
+    const existing = await User.getById(id);
+    if (!existing) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    // Admins cannot demote themselves and lock everyone out of user management
+    if (id === req.user!.userId && role !== undefined && role !== existing.role) {
+      return res.status(400).json({ message: 'You cannot change your own role' });
+    }
+
+    const update: UserUpdate = {
+      first_name: firstName,
+      last_name: lastName,
+      phone_number: phoneNumber === '' ? null : phoneNumber,
+      role
+    };
+
+    await User.update(id, update);
+
+    // The role is embedded in access tokens, so force a fresh login when it changes
+    if (role !== undefined && role !== existing.role) {
+      await Session.revokeAllForUser(id, 'role_changed');
+    }
+
+    const user = await User.getById(id);
+    res.json({
+      message: 'User updated successfully',
+      user: user ? User.toResponse(user) : null
+    });
+  } catch (error) {
+    console.error('Update user error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Move a user to another lifecycle state. Leaving 'active' ends all of their sessions.
+const changeUserStatus = async (req: AuthRequest, res: Response, to: UserStatus, reason?: string) => {
+  const id = parseUserId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ message: 'Invalid user ID' });
+  }
+
+  if (id === req.user!.userId) {
+    return res.status(400).json({ message: 'You cannot change the status of your own account' });
+  }
+
+  const result = await User.changeStatus(id, to, { actorId: req.user!.userId, reason });
+  if (!result.ok) {
+    if (result.reason === 'not_found') {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    return res.status(409).json({ message: `Cannot change status from ${result.from} to ${to}` });
+  }
+
+  if (result.changed && to !== 'active') {
+    await Session.revokeAllForUser(id, `account_${to}`);
+  }
+
+  const user = await User.getById(id);
+  res.json({
+    message: result.changed ? `User is now ${to}` : `User is already ${to}`,
+    user: user ? User.toResponse(user) : null
+  });
+};
+
+// Change a user's lifecycle status
+router.post('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const { status, reason } = req.body;
+
+    if (!isValidUserStatus(status)) {
+      return res.status(400).json({ message: `Invalid status. Allowed values: ${USER_STATUSES.join(', ')}` });
+    }
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({ message: 'Reason must be a string' });
+    }
+
+    await changeUserStatus(req, res, status, reason?.trim() || undefined);
+  } catch (error) {
+    console.error('Change user status error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Shortcuts kept for existing clients: deactivate suspends, reactivate activates
+router.post('/:id/deactivate', async (req: AuthRequest, res: Response) => {
+  try {
+    await changeUserStatus(req, res, 'suspended');
+  } catch (error) {
+    console.error('Deactivate user error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+router.post('/:id/reactivate', async (req: AuthRequest, res: Response) => {
+  try {
+    await changeUserStatus(req, res, 'active');
+  } catch (error) {
+    console.error('Reactivate user error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Lifecycle changes of a user with who made them
+router.get('/:id/status-history', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const user = await User.getById(id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const history = await User.getStatusHistory(id);
+    res.json({
+      status: user.status,
+      history: history.map(User.toStatusChangeResponse)
+    });
+  } catch (error) {
+    console.error('User status history error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Clear a login lockout for a user's account
+router.post('/:id/unlock', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const user = await User.getById(id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await LoginThrottle.reset('email', user.email);
+
+    res.json({ message: 'User account unlocked successfully' });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Remove a user's two-factor setup, e.g. after a lost phone without recovery codes
+router.post('/:id/reset-2fa', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const user = await User.getById(id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await TwoFactor.disable(id);
+    await Session.revokeAllForUser(id, 'two_factor_reset');
+
+    res.json({ message: 'Two-factor authentication reset successfully' });
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+// Set a new password for a user and end all of their sessions
+router.post('/:id/reset-password', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = parseUserId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    const { password } = req.body;
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ message: 'Password is required' });
+    }
+
+    const result = await setUserPassword(id, password);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (result.status === 'rejected') {
+      return res.status(400).json({ message: POLICY_ERROR_MESSAGE, errors: result.errors });
+    }
+
+    await Session.revokeAllForUser(id, 'password_reset');
+
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(503).json({ message: 'Database service unavailable, please try again later' });
+  }
+});
+
+export default router;
@@ -38,6 +38,7 @@ async function addEmployeeUser() {
           last_name, 
           role, 
           phone_number, 
+          status,
           is_active, 
           created_at, 
           updated_at
@@ -49,6 +50,7 @@ async function addEmployeeUser() {
           @lastName,
           @role,
           @phoneNumber,
+          'active',
           1,
           GETDATE(),
           GETDATE()
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Generate a JWT signing key in JWT_KEYS_DIR.
+// Usage: npx ts-node src/scripts/generate-jwt-key.ts <kid> [es256|rs256]
+function generateJwtKey() {
+  const kid = process.argv[2];
+  const algorithm = (process.argv[3] || 'es256').toLowerCase();
+
+  if (!kid || !/^[A-Za-z0-9._-]{1,64}$/.test(kid)) {
+    console.error('Usage: generate-jwt-key <kid> [es256|rs256]  (kid: letters, digits, ".", "_" or "-")');
+    process.exit(1);
+  }
+
+  const keysDir = process.env.JWT_KEYS_DIR || path.join(process.cwd(), 'keys');
+  const filePath = path.join(keysDir, `${kid}.pem`);
+
+  if (fs.existsSync(filePath)) {
+    console.error(`Key ${filePath} already exists`);
+    process.exit(1);
+  }
+
+  let privateKey: crypto.KeyObject;
+  if (algorithm === 'es256') {
+    privateKey = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+  } else if (algorithm === 'rs256') {
+    privateKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+  } else {
+    console.error(`Unsupported algorithm: ${algorithm}`);
+    process.exit(1);
+  }
+
+  fs.mkdirSync(keysDir, { recursive: true });
+  fs.writeFileSync(filePath, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600 });
+
+  console.log(`Wrote ${algorithm.toUpperCase()} private key ${filePath}`);
+  console.log(`Deploy it to every instance, then set JWT_SIGNING_KID=${kid} to start signing with it.`);
+}
+
+generateJwtKey();
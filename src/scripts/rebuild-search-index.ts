@@ -0,0 +1,26 @@
+import { ClientSearch } from '../models/ClientSearch';
+
+// Rebuild the quick search documents of all clients, e.g. after add-client-search.sql
+// has been applied to a database that already holds clients
+async function rebuildSearchIndex() {
+  try {
+    console.log('Rebuilding client search index...');
+    const count = await ClientSearch.rebuildAll((done, total) => {
+      if (done % 500 === 0 || done === total) {
+        console.log(`- ${done}/${total} clients indexed`);
+      }
+    });
+    console.log(`✅ Indexed ${count} clients`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error rebuilding client search index:', error);
+    process.exit(1);
+  }
+}
+
+// Execute the function if this script is run directly
+if (require.main === module) {
+  rebuildSearchIndex();
+}
+
+export default rebuildSearchIndex;
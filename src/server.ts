@@ -4,11 +4,18 @@ import dotenv from 'dotenv';
 import helmet from 'helmet';
 import compression from 'compression';
 import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
+import twoFactorRoutes from './routes/twoFactor';
+import roleRoutes from './routes/roles';
+import apiKeyRoutes from './routes/apiKeys';
 import clientRoutes from './routes/clients';
+import policyRoutes from './routes/policies';
+import importProfileRoutes from './routes/importProfiles';
 import documentsRoutes from './routes/documents';
 import { errorLogger, requestLogger } from './middleware/logging';
 import db, { getPoolStats, keepConnectionWarm } from './config/database';
 import updateSchema from './database/update-schema';
+import { getJwks } from './config/jwtKeys';
 
 // Load environment variables
 dotenv.config();
@@ -20,13 +27,17 @@ const isProduction = process.env.NODE_ENV === 'production';
 // Configuration for auto schema updates (default to true if not specified)
 const enableAutoSchemaUpdates = process.env.ENABLE_AUTO_SCHEMA_UPDATES !== 'false';
 
+// Behind the Azure/Choreo load balancer - trust the first proxy so req.ip is the real client IP
+app.set('trust proxy', 1);
+
 // Configure CORS
 const corsOptions = {
   origin: isProduction 
     ? [process.env.FRONTEND_URL || '', /\.choreoapis\.dev$/] 
     : '*',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'If-Match'],
+  exposedHeaders: ['ETag'],
   credentials: true
 };
 
@@ -59,8 +70,20 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
+// Public keys for verifying access tokens locally instead of calling validate-token
+app.get('/.well-known/jwks.json', (req: Request, res: Response) => {
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  res.json(getJwks());
+});
+
 // API Routes
+app.use('/api/auth/users', userRoutes);
+app.use('/api/auth/2fa', twoFactorRoutes);
+app.use('/api/auth/roles', roleRoutes);
+app.use('/api/auth/api-keys', apiKeyRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/clients/:clientId/policies', policyRoutes);
+app.use('/api/clients/import-profiles', importProfileRoutes);
 app.use('/api/clients', clientRoutes);
 app.use('/api/documents', documentsRoutes);
 
@@ -0,0 +1,82 @@
+import { Request } from 'express';
+import db from '../config/database';
+import { generateToken, JWT_EXPIRES_IN } from '../utils/auth';
+import { Session } from '../models/Session';
+import { LoginAttempt, LoginOutcome } from '../models/LoginAttempt';
+
+export interface LoginUser {
+  id: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: string;
+}
+
+/**
+ * Persist a login attempt with the caller's IP and user agent.
+ * A failure to write history is logged but never fails the login itself.
+ */
+export const recordLoginAttempt = async (
+  req: Request,
+  outcome: LoginOutcome,
+  details: { userId?: number | null; email?: string | null; sessionId?: string } = {}
+): Promise<void> => {
+  try {
+    await LoginAttempt.record({
+      ...details,
+      outcome,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+  } catch (error) {
+    console.error('Failed to record login attempt:', error);
+  }
+};
+
+/**
+ * Complete a login once every factor has been checked: start a server-side
+ * session, issue the token pair and record the login time.
+ */
+export const startLoginSession = async (req: Request, user: LoginUser) => {
+  // Start a server-side session so the tokens can be refreshed and revoked
+  const { sessionId, refreshToken } = await Session.create(user.id, {
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  });
+
+  const token = generateToken(user.id, user.role, sessionId);
+  await recordLoginAttempt(req, 'success', { userId: user.id, email: user.email, sessionId });
+
+  // Update last login asynchronously - don't wait for it to complete
+  (async () => {
+    try {
+      const updateStartTime = process.hrtime();
+      const updatePool = await db.getConnection();
+      await updatePool.request()
+        .input('id', user.id)
+        .query('UPDATE users SET last_login = GETDATE() WHERE id = @id');
+      const updateTime = process.hrtime(updateStartTime);
+      console.log(JSON.stringify({
+        event: 'last_login_update',
+        user_id: user.id,
+        timestamp: new Date().toISOString(),
+        duration_ms: (updateTime[0] * 1000 + updateTime[1] / 1000000).toFixed(2)
+      }));
+    } catch (updateError) {
+      console.error('Failed to update last login time:', updateError);
+    }
+  })();
+
+  return {
+    token,
+    refreshToken,
+    expiresIn: JWT_EXPIRES_IN,
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      role: user.role
+    }
+  };
+};
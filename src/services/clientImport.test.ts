@@ -0,0 +1,196 @@
+import { Client, ClientData } from '../models/Client';
+import { ClientImport, ImportRow } from '../models/ClientImport';
+import { ClientSearch } from '../models/ClientSearch';
+import { Policy } from '../models/Policy';
+import { commitImport, importClients, importCounts, importKey, matchImportRows } from './clientImport';
+import { createClient, updateClient } from './clients';
+
+// The pool connects as soon as it is imported, and the client services bring in blob storage
+jest.mock('../config/database', () => ({ __esModule: true, default: {} }));
+jest.mock('./clients', () => ({
+  MERGEABLE_COLUMNS: ['client_name', 'mobile_no', 'email'],
+  createClient: jest.fn(),
+  createPolicy: jest.fn(),
+  updateClient: jest.fn(),
+  updatePolicy: jest.fn()
+}));
+
+const actor = { userId: 1, apiKeyId: null, impersonatorId: null, ipAddress: null };
+
+const row = (number: number, client: Partial<ClientData>, policyNo?: string): ImportRow => ({
+  row: number,
+  client: { customer_type: 'Individual', product: 'Motor', insurance_provider: 'Ceylinco', ...client } as ClientData,
+  policy: policyNo === undefined ? {} : { policy_no: policyNo }
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+});
+
+describe('importKey', () => {
+  it('normalizes the key as the search index does', () => {
+    expect(importKey(row(2, { nic_br_text: ' 90123-4567v ' }), 'nic')).toBe('901234567V');
+    expect(importKey(row(2, { ceilao_ib_file_no: 'cib/0042' }), 'ceilao_ib_file_no')).toBe('CIB0042');
+    expect(importKey(row(2, {}, ' mc-123 '), 'policy_no')).toBe('MC-123');
+  });
+
+  it('is null for rows without one', () => {
+    expect(importKey(row(2, { nic_br_text: ' ' }), 'nic')).toBeNull();
+    expect(importKey(row(2, {}), 'policy_no')).toBeNull();
+  });
+});
+
+describe('matchImportRows', () => {
+  const rows = [
+    row(2, { nic_br_text: '901234567V' }),
+    row(3, { nic_br_text: '851234567V' }),
+    row(4, { nic_br_text: '781234567V' }),
+    row(5, {})
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(ClientSearch, 'clientsWithValues').mockResolvedValue(new Map([
+      ['901234567V', ['C1']],
+      ['781234567V', ['C2', 'C3']]
+    ]));
+  });
+
+  it('inserts every row without a match key', async () => {
+    const matches = await matchImportRows(rows, { matchOn: null, mode: 'insert' });
+    expect(matches).toEqual(rows.map(() => ({ action: 'insert' })));
+    expect(ClientSearch.clientsWithValues).not.toHaveBeenCalled();
+  });
+
+  it('skips matched rows in insert mode', async () => {
+    expect(await matchImportRows(rows, { matchOn: 'nic', mode: 'insert' })).toEqual([
+      { action: 'skip', clientId: 'C1', message: 'Matches existing client C1' },
+      { action: 'insert' },
+      { action: 'fail', message: 'nic_br_text matches 2 existing clients' },
+      { action: 'insert' }
+    ]);
+    expect(ClientSearch.clientsWithValues).toHaveBeenCalledWith('nic_br_text', ['901234567V', '851234567V', '781234567V']);
+  });
+
+  it('skips unmatched rows in update mode', async () => {
+    expect(await matchImportRows(rows, { matchOn: 'nic', mode: 'update' })).toEqual([
+      { action: 'update', clientId: 'C1', policyId: null },
+      { action: 'skip', clientId: null, message: 'Matches no existing client' },
+      { action: 'fail', message: 'nic_br_text matches 2 existing clients' },
+      { action: 'skip', clientId: null, message: 'Matches no existing client' }
+    ]);
+  });
+
+  it('updates matched rows and inserts the rest in upsert mode', async () => {
+    expect(await matchImportRows(rows, { matchOn: 'nic', mode: 'upsert' })).toEqual([
+      { action: 'update', clientId: 'C1', policyId: null },
+      { action: 'insert' },
+      { action: 'fail', message: 'nic_br_text matches 2 existing clients' },
+      { action: 'insert' }
+    ]);
+  });
+
+  it('matches policy numbers ignoring case', async () => {
+    jest.spyOn(Policy, 'findByNumbers').mockResolvedValue([
+      { id: 10, client_id: 'C1', policy_no: 'MC-1' },
+      { id: 11, client_id: 'C2', policy_no: 'mc-2' },
+      { id: 12, client_id: 'C3', policy_no: 'MC-2' }
+    ]);
+    const policyRows = [row(2, {}, 'mc-1'), row(3, {}, 'MC-2'), row(4, {}, 'MC-3')];
+    expect(await matchImportRows(policyRows, { matchOn: 'policy_no', mode: 'upsert' })).toEqual([
+      { action: 'update', clientId: 'C1', policyId: 10 },
+      { action: 'fail', message: 'policy_no matches 2 existing policies' },
+      { action: 'insert' }
+    ]);
+    expect(Policy.findByNumbers).toHaveBeenCalledWith(['mc-1', 'MC-2', 'MC-3']);
+  });
+});
+
+describe('importClients', () => {
+  it('writes each row as matched and reports how it went', async () => {
+    jest.spyOn(ClientSearch, 'clientsWithValues').mockResolvedValue(new Map([
+      ['901234567V', ['C1']],
+      ['851234567V', ['C2']]
+    ]));
+    jest.spyOn(Client, 'getById').mockImplementation(async id => ({
+      id, customer_type: 'Individual', product: 'Motor', insurance_provider: 'Ceylinco', client_name: 'Jane Perera', mobile_no: '0771234567'
+    } as ClientData));
+    jest.mocked(updateClient).mockResolvedValue({ status: 'updated', client: {} as ClientData });
+    jest.mocked(createClient).mockRejectedValueOnce(new Error('deadlock')).mockResolvedValue('C9');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const rows = [
+      row(2, { nic_br_text: '901234567V', client_name: 'Jane Perera', mobile_no: '0779999999' }),
+      row(3, { nic_br_text: '851234567V', client_name: 'Jane Perera', mobile_no: '0771234567' }),
+      row(4, { nic_br_text: '781234567V', client_name: 'Nimal Silva', mobile_no: '0711234567' }),
+      row(5, { nic_br_text: '701234567V', client_name: 'Kamal Fernando', mobile_no: '0721234567' })
+    ];
+    const progress = jest.fn();
+    const results = await importClients(rows, { matchOn: 'nic', mode: 'upsert' }, actor, progress);
+
+    expect(results).toEqual([
+      { row: 2, status: 'updated', clientId: 'C1' },
+      { row: 3, status: 'skipped', clientId: 'C2', message: 'No changes' },
+      { row: 4, status: 'failed', clientId: null, message: 'Could not be saved' },
+      { row: 5, status: 'inserted', clientId: 'C9' }
+    ]);
+    expect(updateClient).toHaveBeenCalledTimes(1);
+    expect(updateClient).toHaveBeenCalledWith('C1', { mobile_no: '0779999999' }, actor);
+    expect(importCounts(results)).toEqual({ inserted: 1, updated: 1, skipped: 1, failed: 1 });
+    expect(progress).toHaveBeenCalledWith(4, results);
+  });
+
+  it('fails rows whose client changed during the import', async () => {
+    jest.spyOn(ClientSearch, 'clientsWithValues').mockResolvedValue(new Map([['901234567V', ['C1']]]));
+    jest.spyOn(Client, 'getById').mockResolvedValue({ id: 'C1', client_name: 'Jane' } as ClientData);
+    jest.mocked(updateClient).mockResolvedValue({ status: 'conflict', current: {} as ClientData });
+
+    const results = await importClients([row(2, { nic_br_text: '901234567V', client_name: 'Jane Perera' })], { matchOn: 'nic', mode: 'update' }, actor);
+    expect(results).toEqual([
+      { row: 2, status: 'failed', clientId: 'C1', message: 'Client was changed by someone else during the import' }
+    ]);
+  });
+});
+
+describe('commitImport', () => {
+  const noCounts = { inserted: 0, updated: 0, skipped: 0, failed: 0 };
+  const rows = Array.from({ length: 30 }, (_, index) => row(index + 2, { client_name: `Client ${index}` }));
+
+  beforeEach(() => {
+    jest.spyOn(ClientImport, 'saveProgress').mockResolvedValue();
+    jest.spyOn(ClientImport, 'finish').mockResolvedValue();
+    jest.mocked(createClient).mockResolvedValue('C9');
+  });
+
+  it('saves progress after each batch and finishes with the counts of every attempt', async () => {
+    const claim = { rows, options: { matchOn: null, mode: 'insert' as const }, processedRows: 5, counts: { ...noCounts, inserted: 4, failed: 1 } };
+    const results = await commitImport('I1', claim, actor);
+
+    expect(results).toHaveLength(30);
+    expect(ClientImport.saveProgress).toHaveBeenNthCalledWith(1, 'I1', 30, { ...noCounts, inserted: 29, failed: 1 });
+    expect(ClientImport.saveProgress).toHaveBeenNthCalledWith(2, 'I1', 35, { ...noCounts, inserted: 34, failed: 1 });
+    expect(ClientImport.finish).toHaveBeenCalledWith('I1', { ...noCounts, inserted: 34, failed: 1 });
+  });
+
+  it('hands a failed commit back without marking it committed', async () => {
+    jest.spyOn(ClientSearch, 'clientsWithValues').mockRejectedValue(new Error('connection lost'));
+    const claim = { rows, options: { matchOn: 'nic' as const, mode: 'upsert' as const }, processedRows: 0, counts: noCounts };
+
+    await expect(commitImport('I1', claim, actor)).rejects.toThrow('connection lost');
+    expect(createClient).not.toHaveBeenCalled();
+    expect(ClientImport.finish).not.toHaveBeenCalled();
+    expect(ClientImport.saveProgress).toHaveBeenCalledWith('I1', 0, noCounts, { release: true });
+  });
+
+  it('keeps the rows written before a failure', async () => {
+    jest.mocked(ClientImport.saveProgress)
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValue();
+    const claim = { rows, options: { matchOn: null, mode: 'insert' as const }, processedRows: 0, counts: noCounts };
+
+    await expect(commitImport('I1', claim, actor)).rejects.toThrow('connection lost');
+    expect(ClientImport.finish).not.toHaveBeenCalled();
+    expect(ClientImport.saveProgress).toHaveBeenLastCalledWith('I1', 30, { ...noCounts, inserted: 30 }, { release: true });
+  });
+});
@@ -0,0 +1,421 @@
+import { Client, ClientData } from '../models/Client';
+import { AuditActor } from '../models/ClientAudit';
+import { ClientDuplicates, DuplicateCandidate } from '../models/ClientDuplicates';
+import {
+  ClientImport, IMPORT_MATCH_FIELDS, ImportCounts, ImportMatchKey, ImportOptions, ImportRow
+} from '../models/ClientImport';
+import { ImportProfileDefinition, importFieldSpec } from '../models/ImportProfile';
+import { ClientSearch, normalizedTerm } from '../models/ClientSearch';
+import { Policy, PolicyData } from '../models/Policy';
+import { applyTransform } from '../utils/importTransforms';
+import { FieldError, isBlank } from '../utils/validation';
+import { MERGEABLE_COLUMNS, createClient, createPolicy, updateClient, updatePolicy } from './clients';
+
+// Clients created at once while importing; a short pause between batches spares the database
+const IMPORT_BATCH_SIZE = 25;
+const IMPORT_BATCH_PAUSE_MS = 100;
+
+export interface ImportWarning {
+  type: 'possible_duplicate' | 'policy_exists';
+  // The existing client the row resembles or whose policy it repeats
+  clientId: string;
+  message: string;
+  // Duplicate score from 0 to 100, for possible duplicates
+  score?: number;
+}
+
+// What a dry run found for one line of the file
+export interface ImportRowReport {
+  row: number;
+  valid: boolean;
+  errors: FieldError[];
+  warnings: ImportWarning[];
+  // The normalized values that would be written, for valid rows
+  client?: ClientData;
+  policy?: Partial<PolicyData>;
+  // What the row would do, for valid rows of imports with a match key
+  action?: 'insert' | 'update' | 'skip';
+  // The existing client the row matched
+  clientId?: string;
+}
+
+// What a row does, decided by its match key
+export type ImportMatch =
+  | { action: 'insert' }
+  | { action: 'update'; clientId: string; policyId: number | null }
+  | { action: 'skip'; clientId: string | null; message: string }
+  | { action: 'fail'; message: string };
+
+// How a row of an import went
+export interface ImportRowResult {
+  row: number;
+  status: 'inserted' | 'updated' | 'skipped' | 'failed';
+  clientId: string | null;
+  message?: string;
+}
+
+export interface ImportSource {
+  // Fields the file fills, from its columns or the profile's defaults
+  fields: Set<string>;
+  // Headers that are neither mapped nor field names
+  ignoredColumns: string[];
+  // Turn a row keyed by header into field values. Transforms that fail are reported per field.
+  map(record: Record<string, string>): { input: Record<string, unknown>; errors: FieldError[] };
+}
+
+/**
+ * How the columns of a file become client and policy fields. Without a profile the
+ * headers must be field names. With one, mapped headers fill their fields through the
+ * transforms, other headers that are field names are still read, and the defaults fill
+ * fields the file leaves blank.
+ */
+export const importSource = (headers: string[], profile: ImportProfileDefinition | null): ImportSource => {
+  const normalize = (header: string) => header.trim().toLowerCase();
+  const mappings = (profile?.columns || [])
+    .map(column => ({ column, header: headers.find(header => normalize(header) === normalize(column.source)) }))
+    .filter((mapping): mapping is { column: typeof mapping.column; header: string } => mapping.header !== undefined);
+
+  const mappedHeaders = new Set(mappings.map(mapping => mapping.header));
+  const mappedFields = new Set(mappings.map(mapping => mapping.column.field));
+  const direct = headers.filter(header => !mappedHeaders.has(header) && !mappedFields.has(header) && importFieldSpec(header));
+  const defaults = profile?.defaults || {};
+
+  return {
+    fields: new Set([...direct, ...mappedFields, ...Object.keys(defaults)]),
+    ignoredColumns: headers.filter(header => !mappedHeaders.has(header) && !direct.includes(header)),
+    map: record => {
+      const input: Record<string, unknown> = { ...defaults };
+      const errors: FieldError[] = [];
+      const fill = (field: string, value: string) => {
+        if (!isBlank(value) || input[field] === undefined) {
+          input[field] = value;
+        }
+      };
+
+      direct.forEach(header => fill(header, record[header] ?? ''));
+      mappings.forEach(({ column, header }) => {
+        let value = record[header] ?? '';
+        for (const transform of column.transforms) {
+          const result = applyTransform(transform, value);
+          if ('error' in result) {
+            errors.push({ field: column.field, message: `${column.source}: ${result.error}` });
+            return;
+          }
+          value = result.value;
+        }
+        fill(column.field, value);
+      });
+
+      return { input, errors };
+    }
+  };
+};
+
+const describeMatch = ({ matches }: DuplicateCandidate): string => {
+  const reasons: string[] = [];
+  if (matches.nic === 'same') {
+    reasons.push('same NIC/BR number');
+  }
+  if (matches.mobile) {
+    reasons.push('same mobile number');
+  }
+  if (matches.email) {
+    reasons.push('same email');
+  }
+  if (matches.name >= 0.6) {
+    reasons.push(matches.name === 1 ? 'same name' : 'similar name');
+  }
+  return reasons.join(', ');
+};
+
+/**
+ * Warnings for valid rows that repeat what is already on file: clients that are probably
+ * an existing client, and policy numbers that exist. Keyed by row number. Warnings do not
+ * stop a row from being imported.
+ */
+export const importWarnings = async (rows: ImportRow[]): Promise<Map<number, ImportWarning[]>> => {
+  const warnings = new Map<number, ImportWarning[]>();
+  const add = (row: number, warning: ImportWarning) => {
+    warnings.set(row, [...(warnings.get(row) || []), warning]);
+  };
+
+  const duplicates = await ClientDuplicates.findMatches(rows.map(row => row.client));
+  duplicates.forEach((candidates, index) => {
+    candidates.forEach(candidate => {
+      const existing = candidate.clients[1];
+      add(rows[index].row, {
+        type: 'possible_duplicate',
+        clientId: existing.id!,
+        message: `Looks like existing client ${existing.id} (${existing.client_name}): ${describeMatch(candidate)}`,
+        score: candidate.score
+      });
+    });
+  });
+
+  const policyNumbers = rows
+    .map(row => row.policy.policy_no)
+    .filter((policyNo): policyNo is string => typeof policyNo === 'string' && policyNo !== '');
+  const existingPolicies = await Policy.findByNumbers(policyNumbers);
+  rows.forEach(row => {
+    existingPolicies
+      .filter(policy => policy.policy_no === row.policy.policy_no)
+      .forEach(policy => add(row.row, {
+        type: 'policy_exists',
+        clientId: policy.client_id!,
+        message: `Policy ${policy.policy_no} already exists on client ${policy.client_id}`
+      }));
+  });
+
+  return warnings;
+};
+
+/**
+ * The normalized match key of a row: the policy number ignoring case, or the client value
+ * as the search index holds it. Null when the row has none.
+ */
+export const importKey = (row: Pick<ImportRow, 'client' | 'policy'>, matchOn: ImportMatchKey): string | null => {
+  if (matchOn === 'policy_no') {
+    const policyNo = row.policy.policy_no;
+    return typeof policyNo === 'string' && policyNo.trim() !== '' ? policyNo.trim().toUpperCase() : null;
+  }
+  const field = IMPORT_MATCH_FIELDS[matchOn] as keyof ClientData;
+  return normalizedTerm(field, row.client[field]);
+};
+
+/**
+ * Find the live client each row refers to by its match key and decide what the row does
+ * under the mode. A key matching more than one client or policy fails the row rather than
+ * guessing. Without a match key every row is inserted.
+ */
+export const matchImportRows = async (
+  rows: Array<Pick<ImportRow, 'client' | 'policy'>>,
+  options: ImportOptions
+): Promise<ImportMatch[]> => {
+  const { matchOn, mode } = options;
+  if (!matchOn) {
+    return rows.map(() => ({ action: 'insert' }));
+  }
+
+  const keys = rows.map(row => importKey(row, matchOn));
+  const existing = new Map<string, Array<{ clientId: string; policyId: number | null }>>();
+  if (matchOn === 'policy_no') {
+    const policies = await Policy.findByNumbers(rows
+      .map(row => row.policy.policy_no)
+      .filter((policyNo): policyNo is string => typeof policyNo === 'string'));
+    policies.forEach(policy => {
+      const key = policy.policy_no!.trim().toUpperCase();
+      existing.set(key, [...(existing.get(key) || []), { clientId: policy.client_id!, policyId: policy.id! }]);
+    });
+  } else {
+    const clients = await ClientSearch.clientsWithValues(
+      IMPORT_MATCH_FIELDS[matchOn] as keyof ClientData,
+      keys.filter((key): key is string => key !== null)
+    );
+    clients.forEach((clientIds, key) => {
+      existing.set(key, clientIds.map(clientId => ({ clientId, policyId: null })));
+    });
+  }
+
+  return keys.map((key): ImportMatch => {
+    const found = key === null ? [] : existing.get(key) || [];
+    if (found.length > 1) {
+      const what = matchOn === 'policy_no' ? 'policies' : 'clients';
+      return { action: 'fail', message: `${IMPORT_MATCH_FIELDS[matchOn]} matches ${found.length} existing ${what}` };
+    }
+    if (found.length === 1) {
+      const { clientId, policyId } = found[0];
+      return mode === 'insert'
+        ? { action: 'skip', clientId, message: `Matches existing client ${clientId}` }
+        : { action: 'update', clientId, policyId };
+    }
+    return mode === 'update' ? { action: 'skip', clientId: null, message: 'Matches no existing client' } : { action: 'insert' };
+  });
+};
+
+// Values that differ from the stored record. Blank values leave the stored one; dates are compared by day.
+const changedValues = (current: Record<string, any>, values: Record<string, unknown>): Record<string, unknown> => {
+  const changes: Record<string, unknown> = {};
+  Object.entries(values).forEach(([field, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    const stored = current[field];
+    const same = stored instanceof Date
+      ? stored.toISOString().split('T')[0] === value
+      : typeof value === 'number' ? stored !== null && Number(stored) === value : stored === value;
+    if (!same) {
+      changes[field] = value;
+    }
+  });
+  return changes;
+};
+
+/**
+ * Write a row over the client it matched, through the same audited updates as the API.
+ * The policy written is the matched one, or the client's policy with the row's policy
+ * number; failing that, the row's policy details are added as a new policy.
+ */
+const updateFromRow = async (row: ImportRow, clientId: string, policyId: number | null, actor: AuditActor): Promise<ImportRowResult> => {
+  const failed = (message: string): ImportRowResult => ({ row: row.row, status: 'failed', clientId, message });
+
+  const before = await Client.getById(clientId);
+  if (!before) {
+    return failed('Client no longer exists');
+  }
+
+  let changed = false;
+  const clientValues = Object.fromEntries(
+    Object.entries(row.client).filter(([field]) => (MERGEABLE_COLUMNS as string[]).includes(field))
+  );
+  const clientChanges = changedValues(before, clientValues);
+  if (Object.keys(clientChanges).length > 0) {
+    const result = await updateClient(clientId, clientChanges as Partial<ClientData>, actor);
+    if (result.status === 'conflict') {
+      return failed('Client was changed by someone else during the import');
+    }
+    if (result.status === 'not_found') {
+      return failed('Client no longer exists');
+    }
+    changed = true;
+  }
+
+  const policyNo = row.policy.policy_no?.trim().toUpperCase();
+  let targetPolicyId = policyId;
+  if (targetPolicyId === null && policyNo) {
+    const policies = await Policy.listForClient(clientId);
+    targetPolicyId = policies.find(policy => policy.policy_no?.trim().toUpperCase() === policyNo)?.id ?? null;
+  }
+
+  if (targetPolicyId !== null) {
+    const policy = await Policy.getById(clientId, targetPolicyId);
+    if (!policy) {
+      return failed('Policy no longer exists');
+    }
+    const policyChanges = changedValues(policy, row.policy);
+    if (Object.keys(policyChanges).length > 0) {
+      if (!await updatePolicy(clientId, targetPolicyId, policyChanges as Partial<PolicyData>, actor)) {
+        return failed('Policy no longer exists');
+      }
+      changed = true;
+    }
+  } else if (Policy.hasDetails(row.policy)) {
+    await createPolicy(clientId, {
+      ...row.policy,
+      product: row.policy.product || row.client.product || before.product,
+      insurance_provider: row.policy.insurance_provider || row.client.insurance_provider || before.insurance_provider
+    }, actor);
+    changed = true;
+  }
+
+  return changed
+    ? { row: row.row, status: 'updated', clientId }
+    : { row: row.row, status: 'skipped', clientId, message: 'No changes' };
+};
+
+const importRow = async (row: ImportRow, match: ImportMatch, actor: AuditActor): Promise<ImportRowResult> => {
+  try {
+    switch (match.action) {
+      case 'insert':
+        return { row: row.row, status: 'inserted', clientId: await createClient(row.client, row.policy, actor) };
+      case 'update':
+        return await updateFromRow(row, match.clientId, match.policyId, actor);
+      case 'skip':
+        return { row: row.row, status: 'skipped', clientId: match.clientId, message: match.message };
+      case 'fail':
+        return { row: row.row, status: 'failed', clientId: null, message: match.message };
+    }
+  } catch (error) {
+    console.error(`Error importing row ${row.row}:`, error);
+    return { row: row.row, status: 'failed', clientId: null, message: 'Could not be saved' };
+  }
+};
+
+export const importCounts = (results: ImportRowResult[]): ImportCounts => ({
+  inserted: results.filter(result => result.status === 'inserted').length,
+  updated: results.filter(result => result.status === 'updated').length,
+  skipped: results.filter(result => result.status === 'skipped').length,
+  failed: results.filter(result => result.status === 'failed').length
+});
+
+/**
+ * Write validated rows a batch at a time: each row is inserted, updated or skipped as
+ * matchImportRows decides, and a row that cannot be saved fails without stopping the
+ * rest. Calls onProgress after each batch with the number of rows processed and the
+ * results so far.
+ */
+export const importClients = async (
+  rows: ImportRow[],
+  options: ImportOptions,
+  actor: AuditActor,
+  onProgress?: (processedCount: number, results: ImportRowResult[]) => void | Promise<void>
+): Promise<ImportRowResult[]> => {
+  const matches = await matchImportRows(rows, options);
+  const results: ImportRowResult[] = [];
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + IMPORT_BATCH_SIZE);
+    const batchResults: ImportRowResult[] = new Array(batch.length);
+
+    // Rows updating the same client run one after another so they do not conflict
+    const groups = new Map<string, number[]>();
+    batch.forEach((row, index) => {
+      const match = matches[i + index];
+      const group = match.action === 'update' ? match.clientId : `row ${row.row}`;
+      groups.set(group, [...(groups.get(group) || []), index]);
+    });
+    await Promise.all(Array.from(groups.values()).map(async indexes => {
+      for (const index of indexes) {
+        batchResults[index] = await importRow(batch[index], matches[i + index], actor);
+      }
+    }));
+    results.push(...batchResults);
+
+    await onProgress?.(i + batch.length, results);
+    if (i + IMPORT_BATCH_SIZE < rows.length) {
+      await new Promise(resolve => setTimeout(resolve, IMPORT_BATCH_PAUSE_MS));
+    }
+  }
+
+  return results;
+};
+
+const addCounts = (first: ImportCounts, second: ImportCounts): ImportCounts => ({
+  inserted: first.inserted + second.inserted,
+  updated: first.updated + second.updated,
+  skipped: first.skipped + second.skipped,
+  failed: first.failed + second.failed
+});
+
+/**
+ * Write the rows of a claimed import, saving progress after each batch. Only a commit
+ * that gets through every row marks the import committed; one that fails hands it back
+ * as pending with what it wrote, so committing it again carries on after those rows.
+ */
+export const commitImport = async (
+  importId: string,
+  claim: { rows: ImportRow[]; options: ImportOptions; processedRows: number; counts: ImportCounts },
+  actor: AuditActor,
+  onProgress?: (processedCount: number, results: ImportRowResult[]) => void
+): Promise<ImportRowResult[]> => {
+  let processedRows = claim.processedRows;
+  let counts = claim.counts;
+
+  try {
+    const results = await importClients(claim.rows, claim.options, actor, async (processedCount, resultsSoFar) => {
+      processedRows = claim.processedRows + processedCount;
+      counts = addCounts(claim.counts, importCounts(resultsSoFar));
+      await ClientImport.saveProgress(importId, processedRows, counts);
+      onProgress?.(processedCount, resultsSoFar);
+    });
+    await ClientImport.finish(importId, addCounts(claim.counts, importCounts(results)));
+    return results;
+  } catch (error) {
+    try {
+      await ClientImport.saveProgress(importId, processedRows, counts, { release: true });
+    } catch (releaseError) {
+      // The claim goes stale instead, and the import can be committed again after CLIENT_IMPORT_STALE_MINUTES
+      console.error(`Error releasing client import ${importId}:`, releaseError);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,389 @@
+import { AuthRequest } from '../middleware/auth';
+import { Client, ClientData } from '../models/Client';
+import { CLIENT_COLUMNS, ClientColumnName } from '../models/clientColumns';
+import { Policy, PolicyData } from '../models/Policy';
+import { ClientAudit, AuditActor } from '../models/ClientAudit';
+import { ClientSearch } from '../models/ClientSearch';
+import storageService from './storage';
+import { etagFor, ifMatchSatisfied } from '../utils/etag';
+import { isBlank } from '../utils/validation';
+
+/**
+ * Writes to clients and policies go through here so that every change is
+ * recorded in the client audit log with the actor and a field-level diff,
+ * and the client's quick search document is kept up to date.
+ */
+
+// The user or service behind a request, for audit entries
+export const auditActor = (req: AuthRequest): AuditActor => ({
+  userId: req.user?.userId ?? null,
+  apiKeyId: req.service?.apiKeyId ?? null,
+  impersonatorId: req.user?.impersonatorId ?? null,
+  ipAddress: req.ip || null
+});
+
+// A stale search document is not worth failing a saved write over; `npm run rebuild-search-index` repairs it
+const refreshSearchIndex = async (clientId: string): Promise<void> => {
+  try {
+    await ClientSearch.reindex(clientId);
+  } catch (error) {
+    console.error(`Search index for client ${clientId} is out of date:`, error);
+  }
+};
+
+/**
+ * Create a client, plus its first policy when the payload carries policy details.
+ * Product and insurance provider of the policy default to the client's.
+ */
+export const createClient = async (
+  data: ClientData,
+  policy: Partial<PolicyData>,
+  actor: AuditActor
+): Promise<string> => {
+  const clientId = await Client.create(data);
+  const created = await Client.getById(clientId);
+  await ClientAudit.record({
+    clientId,
+    entity: 'client',
+    entityId: clientId,
+    action: 'create',
+    actor,
+    changes: ClientAudit.diff(null, created)
+  });
+
+  if (Policy.hasDetails(policy)) {
+    // Indexes the client together with the policy
+    await createPolicy(clientId, {
+      ...policy,
+      product: policy.product || data.product,
+      insurance_provider: policy.insurance_provider || data.insurance_provider
+    }, actor);
+  } else {
+    await refreshSearchIndex(clientId);
+  }
+
+  return clientId;
+};
+
+export type UpdateClientResult =
+  | { status: 'updated'; client: ClientData }
+  | { status: 'not_found' }
+  | { status: 'conflict'; current: ClientData };
+
+/**
+ * Update a client's own fields. With ifMatch (the client's ETag as read by the caller)
+ * the update is refused if anyone changed the client since, and the current record is
+ * returned so the caller can merge.
+ */
+export const updateClient = async (
+  id: string,
+  data: Partial<ClientData>,
+  actor: AuditActor,
+  options: { ifMatch?: string } = {}
+): Promise<UpdateClientResult> => {
+  const before = await Client.getById(id);
+  if (!before) {
+    return { status: 'not_found' };
+  }
+
+  if (options.ifMatch !== undefined && !ifMatchSatisfied(options.ifMatch, etagFor(before.updated_at))) {
+    return { status: 'conflict', current: before };
+  }
+
+  // Guard against a change landing between the read above and this write
+  const updated = await Client.update(id, data, { expectedUpdatedAt: before.updated_at ?? null });
+  if (!updated) {
+    const current = await Client.getById(id);
+    return current ? { status: 'conflict', current } : { status: 'not_found' };
+  }
+
+  const after = await Client.getById(id);
+  await ClientAudit.record({
+    clientId: id,
+    entity: 'client',
+    entityId: id,
+    action: 'update',
+    actor,
+    changes: ClientAudit.diff(before, after)
+  });
+  await refreshSearchIndex(id);
+
+  return { status: 'updated', client: after! };
+};
+
+// Move a client to the trash. Returns false if the client does not exist or is already there.
+export const deleteClient = async (id: string, actor: AuditActor): Promise<boolean> => {
+  const before = await Client.getById(id);
+  if (!before) {
+    return false;
+  }
+
+  const deleted = await Client.moveToTrash(id, actor.userId);
+  if (!deleted) {
+    return false;
+  }
+
+  const after = await Client.getById(id, { includeDeleted: true });
+  await ClientAudit.record({
+    clientId: id,
+    entity: 'client',
+    entityId: id,
+    action: 'delete',
+    actor,
+    changes: ClientAudit.diff(before, after)
+  });
+
+  return true;
+};
+
+// Take a client out of the trash. Returns false if it is not in the trash.
+export const restoreClient = async (id: string, actor: AuditActor): Promise<boolean> => {
+  const before = await Client.getById(id, { includeDeleted: true });
+  if (!before || !before.deleted_at) {
+    return false;
+  }
+
+  const restored = await Client.restore(id);
+  if (!restored) {
+    return false;
+  }
+
+  const after = await Client.getById(id);
+  await ClientAudit.record({
+    clientId: id,
+    entity: 'client',
+    entityId: id,
+    action: 'restore',
+    actor,
+    changes: ClientAudit.diff(before, after)
+  });
+
+  return true;
+};
+
+/**
+ * Permanently delete a client in the trash with its policies and documents, recording
+ * what was removed. Documents go first so a storage failure leaves the client in the
+ * trash to retry rather than orphaning its blobs.
+ */
+export const purgeClient = async (
+  id: string,
+  actor: AuditActor
+): Promise<{ status: 'purged'; documentsDeleted: number } | { status: 'not_found' } | { status: 'not_in_trash' }> => {
+  const before = await Client.getById(id, { includeDeleted: true });
+  if (!before) {
+    return { status: 'not_found' };
+  }
+  if (!before.deleted_at) {
+    return { status: 'not_in_trash' };
+  }
+
+  const documentsDeleted = await storageService.deleteClientFiles(id);
+  const policies = await Policy.listForClient(id);
+  const purged = await Client.purge(id);
+  if (!purged) {
+    return { status: 'not_in_trash' };
+  }
+
+  for (const policy of policies) {
+    await ClientAudit.record({
+      clientId: id,
+      entity: 'policy',
+      entityId: policy.id!,
+      action: 'purge',
+      actor,
+      changes: ClientAudit.diff(policy, null)
+    });
+  }
+
+  await ClientAudit.record({
+    clientId: id,
+    entity: 'client',
+    entityId: id,
+    action: 'purge',
+    actor,
+    changes: ClientAudit.diff(before, null)
+  });
+
+  return { status: 'purged', documentsDeleted };
+};
+
+export type MergeSource = 'survivor' | 'duplicate';
+
+// Columns whose value a merge picks from one of the two clients
+export const MERGEABLE_COLUMNS = (Object.keys(CLIENT_COLUMNS) as ClientColumnName[])
+  .filter(name => CLIENT_COLUMNS[name].spec && !CLIENT_COLUMNS[name].spec!.createOnly);
+
+export type MergeClientsResult =
+  | { status: 'merged'; client: ClientData; policiesMoved: number; documentsMoved: number }
+  | { status: 'not_found'; id: string }
+  | { status: 'conflict' };
+
+/**
+ * Fold a duplicate client into a surviving one. Each column keeps the survivor's value
+ * unless it is blank or keep says 'duplicate'. The duplicate's documents are copied under
+ * the survivor's ID and its references rewritten, its policies move to the survivor, and
+ * it goes to the trash with merged_into set. Both clients' histories record the merge.
+ * Documents are copied before the database changes and the originals deleted after, so
+ * a failure part way never leaves a reference to a missing blob.
+ */
+export const mergeClients = async (
+  survivorId: string,
+  duplicateId: string,
+  keep: Partial<Record<ClientColumnName, MergeSource>>,
+  actor: AuditActor,
+  options: { ifMatch?: string } = {}
+): Promise<MergeClientsResult> => {
+  const [survivor, duplicate] = await Promise.all([Client.getById(survivorId), Client.getById(duplicateId)]);
+  if (!survivor) {
+    return { status: 'not_found', id: survivorId };
+  }
+  if (!duplicate) {
+    return { status: 'not_found', id: duplicateId };
+  }
+  if (options.ifMatch !== undefined && !ifMatchSatisfied(options.ifMatch, etagFor(survivor.updated_at))) {
+    return { status: 'conflict' };
+  }
+
+  const policies = await Policy.listForClient(duplicateId);
+  const copies = await storageService.copyClientFiles(duplicateId, survivorId);
+  const movedUrls = new Map(copies.map(copy => [copy.sourceUrl, copy.url]));
+
+  const data: Record<string, unknown> = {};
+  MERGEABLE_COLUMNS.forEach(name => {
+    const source = keep[name] ?? (isBlank(survivor[name] ?? null) ? 'duplicate' : 'survivor');
+    let value = source === 'duplicate' ? duplicate[name] : survivor[name];
+    if (typeof value === 'string') {
+      value = movedUrls.get(value.split('?')[0]) ?? value;
+    }
+    if (value !== survivor[name]) {
+      data[name] = value ?? null;
+    }
+  });
+
+  const merged = await Client.merge(survivorId, duplicateId, data as Partial<ClientData>, {
+    expectedUpdatedAt: survivor.updated_at ?? null,
+    mergedBy: actor.userId
+  });
+  if (!merged) {
+    await storageService.deleteBlobs(copies.map(copy => copy.blobName)).catch(error => {
+      console.error(`Could not remove document copies of abandoned merge of ${duplicateId}:`, error);
+    });
+    return { status: 'conflict' };
+  }
+
+  const [after, duplicateAfter] = await Promise.all([
+    Client.getById(survivorId),
+    Client.getById(duplicateId, { includeDeleted: true })
+  ]);
+
+  await ClientAudit.record({
+    clientId: survivorId,
+    entity: 'client',
+    entityId: survivorId,
+    action: 'merge',
+    actor,
+    changes: [...ClientAudit.diff(survivor, after), { field: 'merged_from', before: null, after: duplicateId }]
+  });
+  await ClientAudit.record({
+    clientId: duplicateId,
+    entity: 'client',
+    entityId: duplicateId,
+    action: 'merge',
+    actor,
+    changes: ClientAudit.diff(duplicate, duplicateAfter)
+  });
+  for (const policy of policies) {
+    await ClientAudit.record({
+      clientId: survivorId,
+      entity: 'policy',
+      entityId: policy.id!,
+      action: 'merge',
+      actor,
+      changes: [{ field: 'client_id', before: duplicateId, after: survivorId }]
+    });
+  }
+
+  // The survivor now points at the copies; a failure here only leaves stray blobs under the duplicate's ID
+  try {
+    await storageService.deleteClientFiles(duplicateId);
+  } catch (error) {
+    console.error(`Could not remove original documents of merged client ${duplicateId}:`, error);
+  }
+
+  await refreshSearchIndex(survivorId);
+  await refreshSearchIndex(duplicateId);
+
+  return { status: 'merged', client: after!, policiesMoved: policies.length, documentsMoved: copies.length };
+};
+
+export const createPolicy = async (clientId: string, data: Partial<PolicyData>, actor: AuditActor): Promise<number> => {
+  const policyId = await Policy.create(clientId, data);
+  const created = await Policy.getById(clientId, policyId);
+  await ClientAudit.record({
+    clientId,
+    entity: 'policy',
+    entityId: policyId,
+    action: 'create',
+    actor,
+    changes: ClientAudit.diff(null, created)
+  });
+  await refreshSearchIndex(clientId);
+
+  return policyId;
+};
+
+// Returns false if the policy does not exist or belongs to another client
+export const updatePolicy = async (
+  clientId: string,
+  policyId: number,
+  data: Partial<PolicyData>,
+  actor: AuditActor
+): Promise<boolean> => {
+  const before = await Policy.getById(clientId, policyId);
+  if (!before) {
+    return false;
+  }
+
+  const updated = await Policy.update(clientId, policyId, data);
+  if (!updated) {
+    return false;
+  }
+
+  const after = await Policy.getById(clientId, policyId);
+  await ClientAudit.record({
+    clientId,
+    entity: 'policy',
+    entityId: policyId,
+    action: 'update',
+    actor,
+    changes: ClientAudit.diff(before, after)
+  });
+  await refreshSearchIndex(clientId);
+
+  return true;
+};
+
+export const deletePolicy = async (clientId: string, policyId: number, actor: AuditActor): Promise<boolean> => {
+  const before = await Policy.getById(clientId, policyId);
+  if (!before) {
+    return false;
+  }
+
+  const deleted = await Policy.delete(clientId, policyId);
+  if (!deleted) {
+    return false;
+  }
+
+  await ClientAudit.record({
+    clientId,
+    entity: 'policy',
+    entityId: policyId,
+    action: 'delete',
+    actor,
+    changes: ClientAudit.diff(before, null)
+  });
+  await refreshSearchIndex(clientId);
+
+  return true;
+};
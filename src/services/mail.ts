@@ -0,0 +1,151 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+
+dotenv.config();
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything that can deliver a mail message
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = process.env.MAIL_FROM || 'Insurance Brokerage <no-reply@example.com>';
+
+/**
+ * Delivers mail through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST environment variable is required for the smtp mail transport');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: mailFrom,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    });
+    console.log(`Mail sent via SMTP to ${message.to}: ${message.subject}`);
+  }
+}
+
+/**
+ * Writes mail to a local outbox directory and the console instead of sending it.
+ * Used for development and offline environments.
+ */
+export class OutboxTransport implements MailTransport {
+  readonly name = 'outbox';
+  private outboxDir: string;
+
+  constructor(outboxDir: string = process.env.MAIL_OUTBOX_DIR || './outbox') {
+    this.outboxDir = outboxDir;
+    if (!fs.existsSync(this.outboxDir)) {
+      fs.mkdirSync(this.outboxDir, { recursive: true });
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+
+    await fs.promises.writeFile(filePath, JSON.stringify({
+      from: mailFrom,
+      ...message,
+      createdAt: new Date().toISOString()
+    }, null, 2));
+
+    console.log(`Mail written to outbox: ${filePath}`);
+    console.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Pick a transport from MAIL_TRANSPORT (smtp or outbox, default outbox)
+ */
+export const createMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT || 'outbox';
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'outbox':
+      return new OutboxTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
+
+let mailTransport: MailTransport | null = null;
+
+/**
+ * Send a message through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+    console.log(`Using ${mailTransport.name} mail transport`);
+  }
+
+  await mailTransport.send(message);
+};
+
+/**
+ * Build a link into the frontend application
+ */
+export const frontendLink = (pathName: string, params: Record<string, string>): string => {
+  const baseUrl = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+  const query = new URLSearchParams(params).toString();
+  return `${baseUrl}${pathName}?${query}`;
+};
+
+export const passwordResetEmail = (to: string, link: string, expiresInHours: number): MailMessage => ({
+  to,
+  subject: 'Reset your password',
+  text: [
+    'We received a request to reset the password for your account.',
+    '',
+    `Use the link below to choose a new password. It expires in ${expiresInHours} hour(s) and can only be used once.`,
+    link,
+    '',
+    'If you did not request a password reset, you can ignore this email.'
+  ].join('\n')
+});
+
+export const invitationEmail = (to: string, firstName: string, link: string, expiresInHours: number): MailMessage => ({
+  to,
+  subject: 'You have been invited to the Insurance Brokerage system',
+  text: [
+    `Hello ${firstName},`,
+    '',
+    'An account has been created for you. Use the link below to set your password and activate it.',
+    `The link expires in ${expiresInHours} hours and can only be used once.`,
+    link
+  ].join('\n')
+});
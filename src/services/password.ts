@@ -0,0 +1,132 @@
+import { comparePassword, hashPassword } from '../utils/auth';
+import { PASSWORD_BLOCKLIST } from '../config/passwordBlocklist';
+import { User } from '../models/User';
+import { PasswordHistory } from '../models/PasswordHistory';
+
+export const PASSWORD_MIN_LENGTH = Number(process.env.PASSWORD_MIN_LENGTH) || 12;
+// bcrypt only uses the first 72 bytes; longer passwords are refused rather than silently truncated
+export const PASSWORD_MAX_LENGTH = 72;
+export const PASSWORD_HISTORY_COUNT = process.env.PASSWORD_HISTORY_COUNT !== undefined
+  ? Math.max(0, Number(process.env.PASSWORD_HISTORY_COUNT) || 0)
+  : 5;
+
+export interface PasswordContext {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export type SetPasswordResult =
+  | { status: 'ok' }
+  | { status: 'not_found' }
+  | { status: 'rejected'; errors: string[] };
+
+export const POLICY_ERROR_MESSAGE = 'Password does not meet the password policy';
+
+/**
+ * The password rules, for clients that want to show them up front
+ */
+export const getPasswordPolicy = () => ({
+  minLength: PASSWORD_MIN_LENGTH,
+  maxLength: PASSWORD_MAX_LENGTH,
+  historyCount: PASSWORD_HISTORY_COUNT,
+  blocksCommonPasswords: true
+});
+
+/**
+ * Check a password against the rules that do not need the database.
+ * Returns a list of problems; an empty list means the password is acceptable.
+ */
+export const checkPasswordPolicy = (password: string, context: PasswordContext = {}): string[] => {
+  const errors: string[] = [];
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters long`);
+  }
+
+  if (Buffer.byteLength(password, 'utf8') > PASSWORD_MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} bytes long`);
+  }
+
+  // Also catch common passwords dressed up with a suffix, e.g. "Password2024!"
+  const lower = password.toLowerCase();
+  const base = lower.replace(/[\d\W_]+$/, '');
+  if (PASSWORD_BLOCKLIST.has(lower) || (base.length > 0 && PASSWORD_BLOCKLIST.has(base))) {
+    errors.push('Password is too common');
+  }
+
+  const personalParts = [context.email?.split('@')[0], context.firstName, context.lastName]
+    .filter((part): part is string => !!part && part.length >= 3)
+    .map(part => part.toLowerCase());
+  if (personalParts.some(part => lower.includes(part))) {
+    errors.push('Password must not contain your name or email address');
+  }
+
+  return errors;
+};
+
+/**
+ * Check a new password for an existing user without storing it.
+ * Enforces the policy and refuses the current password and the last PASSWORD_HISTORY_COUNT ones.
+ */
+export const checkNewPassword = async (userId: number, password: string): Promise<SetPasswordResult> => {
+  const user = await User.getById(userId);
+  if (!user) {
+    return { status: 'not_found' };
+  }
+
+  const errors = checkPasswordPolicy(password, {
+    email: user.email,
+    firstName: user.first_name,
+    lastName: user.last_name
+  });
+  if (errors.length > 0) {
+    return { status: 'rejected', errors };
+  }
+
+  if (PASSWORD_HISTORY_COUNT > 0) {
+    const currentHash = await User.getPasswordHash(userId);
+    const previousHashes = await PasswordHistory.getRecentHashes(userId, PASSWORD_HISTORY_COUNT);
+    const hashes = currentHash ? [currentHash, ...previousHashes] : previousHashes;
+
+    for (const hash of hashes) {
+      if (await comparePassword(password, hash)) {
+        return {
+          status: 'rejected',
+          errors: [`Password must not match any of your last ${PASSWORD_HISTORY_COUNT} passwords`]
+        };
+      }
+    }
+  }
+
+  return { status: 'ok' };
+};
+
+/**
+ * Hash and store a password that has already passed checkNewPassword()
+ */
+export const storeUserPassword = async (userId: number, password: string): Promise<void> => {
+  const hashedPassword = await hashPassword(password);
+  await User.setPassword(userId, hashedPassword);
+  await recordPasswordHistory(userId, hashedPassword);
+};
+
+/**
+ * Validate and store a new password for an existing user
+ */
+export const setUserPassword = async (userId: number, password: string): Promise<SetPasswordResult> => {
+  const result = await checkNewPassword(userId, password);
+  if (result.status === 'ok') {
+    await storeUserPassword(userId, password);
+  }
+  return result;
+};
+
+/**
+ * Remember a password hash that was just stored for a user
+ */
+export const recordPasswordHistory = async (userId: number, hashedPassword: string): Promise<void> => {
+  if (PASSWORD_HISTORY_COUNT > 0) {
+    await PasswordHistory.add(userId, hashedPassword, PASSWORD_HISTORY_COUNT);
+  }
+};
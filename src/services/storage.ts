@@ -445,6 +445,93 @@ export class BlobStorageService {
     }
   }
 
+  /**
+   * Delete every document stored for a client
+   * @returns The number of blobs deleted
+   */
+  async deleteClientFiles(clientId: string): Promise<number> {
+    try {
+      if (!this.blobServiceClient) {
+        throw new Error('Azure Blob Storage client is not initialized');
+      }
+
+      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+      let deleted = 0;
+
+      for await (const blob of containerClient.listBlobsFlat({ prefix: `${clientId}/` })) {
+        await containerClient.deleteBlob(blob.name, { deleteSnapshots: 'include' });
+        deleted++;
+      }
+
+      console.log(`Deleted ${deleted} blob(s) for client ${clientId}`);
+      return deleted;
+    } catch (error: any) {
+      console.error('Error deleting client files:', error);
+      throw new Error(`Failed to delete client files from Azure: ${error.message}`);
+    }
+  }
+
+  /**
+   * Copy every document of one client under another client's ID, e.g. when merging
+   * clients. A name the target already uses gets the source client ID as a prefix.
+   * The originals are left in place; remove them with deleteClientFiles once the
+   * new locations are saved.
+   * @returns The old and new URL and the new blob name of each copied document
+   */
+  async copyClientFiles(
+    fromClientId: string,
+    toClientId: string
+  ): Promise<Array<{ sourceUrl: string; url: string; blobName: string }>> {
+    try {
+      if (!this.blobServiceClient) {
+        throw new Error('Azure Blob Storage client is not initialized');
+      }
+
+      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+      const copies: Array<{ sourceUrl: string; url: string; blobName: string }> = [];
+
+      for await (const blob of containerClient.listBlobsFlat({ prefix: `${fromClientId}/` })) {
+        const relativePath = blob.name.substring(fromClientId.length + 1);
+        let target = containerClient.getBlockBlobClient(`${toClientId}/${relativePath}`);
+        if (await target.exists()) {
+          const slash = relativePath.lastIndexOf('/');
+          const renamed = `${relativePath.substring(0, slash + 1)}${fromClientId}-${relativePath.substring(slash + 1)}`;
+          target = containerClient.getBlockBlobClient(`${toClientId}/${renamed}`);
+        }
+
+        const source = containerClient.getBlobClient(blob.name);
+        const poller = await target.beginCopyFromURL(source.url);
+        await poller.pollUntilDone();
+        copies.push({ sourceUrl: source.url, url: target.url, blobName: target.name });
+      }
+
+      console.log(`Copied ${copies.length} blob(s) from client ${fromClientId} to ${toClientId}`);
+      return copies;
+    } catch (error: any) {
+      console.error('Error copying client files:', error);
+      throw new Error(`Failed to copy client files in Azure: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete blobs by name, e.g. copies that turned out not to be needed
+   */
+  async deleteBlobs(blobNames: string[]): Promise<void> {
+    try {
+      if (!this.blobServiceClient) {
+        throw new Error('Azure Blob Storage client is not initialized');
+      }
+
+      const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+      for (const blobName of blobNames) {
+        await containerClient.deleteBlob(blobName, { deleteSnapshots: 'include' });
+      }
+    } catch (error: any) {
+      console.error('Error deleting blobs:', error);
+      throw new Error(`Failed to delete blobs from Azure: ${error.message}`);
+    }
+  }
+
   /**
    * Ensure the container exists, create it if it doesn't
    */
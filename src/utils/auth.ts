@@ -2,21 +2,11 @@ import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { logPerformance } from '../middleware/logging';
+import { getSigningKey, getVerificationKey } from '../config/jwtKeys';
 
-// Use environment variable or generate a random strong secret
-// In production, always use a persistent JWT_SECRET from environment variables
-const JWT_SECRET = process.env.JWT_SECRET || 
-  crypto.randomBytes(64).toString('hex'); // Generate a secure random secret on startup
-
-// Log warning if using a generated secret in production
-if (!process.env.JWT_SECRET && process.env.NODE_ENV === 'production') {
-  console.warn(
-    'WARNING: No JWT_SECRET environment variable set in production. ' +
-    'Using a generated secret. This will invalidate all existing tokens on server restart!'
-  );
-}
-
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+// Access tokens are short-lived; long-lived access comes from rotating refresh tokens
+export const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
 
 export const hashPassword = async (password: string): Promise<string> => {
   const startTime = process.hrtime();
@@ -58,14 +48,32 @@ export const comparePassword = async (
   return isMatch;
 };
 
-export const generateToken = (userId: number, role: string): string => {
+/**
+ * Sign a JWT with the current signing key; the key ID goes in the kid header
+ */
+const signJwt = (payload: object, expiresIn: string): string => {
+  const key = getSigningKey();
+  return jwt.sign(payload, key.privateKey!, {
+    algorithm: key.algorithm,
+    keyid: key.kid,
+    expiresIn
+  } as jwt.SignOptions);
+};
+
+export interface TokenOptions {
+  // Admin acting as this user; carried in the token so both identities are known
+  impersonatorId?: number;
+  expiresIn?: string;
+}
+
+export const generateToken = (userId: number, role: string, sessionId: string, options: TokenOptions = {}): string => {
   const startTime = process.hrtime();
+  const expiresIn = options.expiresIn || JWT_EXPIRES_IN;
   
-  const token = jwt.sign(
-    { userId, role }, 
-    JWT_SECRET, 
-    { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
-  );
+  const payload = options.impersonatorId
+    ? { userId, role, sessionId, impersonatorId: options.impersonatorId }
+    : { userId, role, sessionId };
+  const token = signJwt(payload, expiresIn);
   
   const endTime = process.hrtime(startTime);
   const duration = (endTime[0] * 1000 + endTime[1] / 1000000).toFixed(2);
@@ -73,7 +81,7 @@ export const generateToken = (userId: number, role: string): string => {
   logPerformance('token_generation', {
     timestamp: new Date().toISOString(),
     duration_ms: duration,
-    expires_in: JWT_EXPIRES_IN
+    expires_in: expiresIn
   });
   
   return token;
@@ -85,7 +93,14 @@ export const verifyToken = (token: string): any => {
   let success = false;
   
   try {
-    result = jwt.verify(token, JWT_SECRET);
+    // Pick the verification key named in the header; unknown or missing key IDs are rejected
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded?.header.kid ? getVerificationKey(decoded.header.kid) : undefined;
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+
+    result = jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] });
     success = true;
     return result;
   } catch (error) {
@@ -100,4 +115,41 @@ export const verifyToken = (token: string): any => {
       success
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Generate an opaque random token (refresh, reset, invitation). Only its hash is ever stored.
+ */
+export const generateOpaqueToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+/**
+ * Hash an opaque token for storage and lookup
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export type ChallengePurpose = 'two_factor' | 'two_factor_setup';
+
+const CHALLENGE_EXPIRES_IN = '5m';
+
+/**
+ * Generate a short-lived token proving the password step of a login succeeded.
+ * It carries no session, so authenticate() refuses it for normal API use.
+ */
+export const generateChallengeToken = (userId: number, purpose: ChallengePurpose): string => {
+  return signJwt({ userId, purpose }, CHALLENGE_EXPIRES_IN);
+};
+
+/**
+ * Verify a challenge token issued for the given purpose and return its user ID
+ */
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): number => {
+  const decoded: any = verifyToken(token);
+  if (decoded.purpose !== purpose || !decoded.userId) {
+    throw new Error('Invalid token');
+  }
+  return decoded.userId;
+};
@@ -0,0 +1,18 @@
+/**
+ * Entity tag for a record versioned by its updated_at column
+ */
+export const etagFor = (updatedAt: Date | string | null | undefined): string => {
+  const time = updatedAt ? new Date(updatedAt).getTime() : 0;
+  return `"${time.toString(36)}"`;
+};
+
+/**
+ * Check an If-Match header against the current entity tag. Accepts `*` and lists of
+ * tags, and ignores the weak prefix proxies add when they compress responses.
+ */
+export const ifMatchSatisfied = (header: string, etag: string): boolean => {
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+};
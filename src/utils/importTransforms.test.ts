@@ -0,0 +1,86 @@
+import { ImportTransform, applyTransform, parseTransform } from './importTransforms';
+
+const number: ImportTransform = { type: 'number', decimal: '.' };
+const commaDecimal: ImportTransform = { type: 'number', decimal: ',' };
+
+describe('parseTransform', () => {
+  it('takes transforms without options by name', () => {
+    expect(parseTransform('trim')).toEqual({ transform: { type: 'trim' } });
+    expect(parseTransform('number')).toEqual({ transform: { type: 'number', decimal: '.' } });
+  });
+
+  it('checks options', () => {
+    expect(parseTransform({ type: 'date', format: 'DD/MM/YYYY' })).toEqual({ transform: { type: 'date', format: 'DD/MM/YYYY' } });
+    expect(parseTransform({ type: 'date', format: 'D/M/Y' })).toHaveProperty('error');
+    expect(parseTransform({ type: 'number', decimal: ' ' })).toEqual({ error: 'decimal must be "." or ","' });
+    expect(parseTransform({ type: 'lookup', values: { M: 1 } })).toEqual({ error: 'values must map to text' });
+    expect(parseTransform({ type: 'split' })).toHaveProperty('error');
+    expect(parseTransform(null)).toHaveProperty('error');
+  });
+});
+
+describe('applyTransform', () => {
+  describe('number', () => {
+    it.each([
+      ['1,234.50', '1234.50'],
+      ['Rs. 1,234', '1234'],
+      ['LKR 18 500', '18500'],
+      ['1,234 LKR', '1234'],
+      ['US$42', '42'],
+      ['Rs. -1,234', '-1234'],
+      ['-Rs. 1,234', '-1234'],
+      ['(Rs. 1,234.50)', '-1234.50'],
+      ['Rs. (1,234)', '-1234'],
+      ['1,234-', '-1234'],
+      ['1,234 LKR-', '-1234']
+    ])('reads %p as %p', (value, expected) => {
+      expect(applyTransform(number, value)).toEqual({ value: expected });
+    });
+
+    it('reads comma decimals', () => {
+      expect(applyTransform(commaDecimal, 'Rs. -1.234,50')).toEqual({ value: '-1234.50' });
+      expect(applyTransform(commaDecimal, "1'234,5")).toEqual({ value: '1234.5' });
+    });
+
+    it.each(['12abc', 'abc12', '1-2', '--5', '-(5)', '(5', '1.2.3', 'Rs.', '-', 'n/a'])('rejects %p', value => {
+      expect(applyTransform(number, value)).toEqual({ error: `"${value}" is not a number` });
+    });
+  });
+
+  describe('date', () => {
+    it.each([
+      ['DD/MM/YYYY', '31/12/2024'],
+      ['MM/DD/YYYY', '12/31/2024'],
+      ['DD.MM.YYYY', '31.12.2024'],
+      ['DD/MM/YY', '31/12/24'],
+      ['DD-MMM-YYYY', '31-Dec-2024'],
+      ['MMM DD, YYYY', 'December 31, 2024'],
+      ['DD/MM/YYYY', '2024-12-31']
+    ] as const)('reads %s', (format, value) => {
+      expect(applyTransform({ type: 'date', format }, value)).toEqual({ value: '2024-12-31' });
+    });
+
+    it('takes two digit years as 1970 to 2069', () => {
+      expect(applyTransform({ type: 'date', format: 'DD/MM/YY' }, '01/01/69')).toEqual({ value: '2069-01-01' });
+      expect(applyTransform({ type: 'date', format: 'DD/MM/YY' }, '01/01/70')).toEqual({ value: '1970-01-01' });
+    });
+
+    it.each(['31/02/2024', '12/31/2024', '31/12', '31/Dec/2024'])('rejects %p as DD/MM/YYYY', value => {
+      expect(applyTransform({ type: 'date', format: 'DD/MM/YYYY' }, value)).toEqual({
+        error: `"${value}" is not a date in the format DD/MM/YYYY`
+      });
+    });
+  });
+
+  it('looks up values ignoring case', () => {
+    const lookup: ImportTransform = { type: 'lookup', values: { Motor: 'Vehicle' }, unmatched: 'blank' };
+    expect(applyTransform(lookup, ' MOTOR ')).toEqual({ value: 'Vehicle' });
+    expect(applyTransform(lookup, 'Fire')).toEqual({ value: '' });
+    expect(applyTransform({ ...lookup, unmatched: 'keep' }, 'Fire')).toEqual({ value: 'Fire' });
+  });
+
+  it('passes blank values through', () => {
+    expect(applyTransform(number, '  ')).toEqual({ value: '  ' });
+    expect(applyTransform({ type: 'trim' }, '  Jane   Perera ')).toEqual({ value: 'Jane Perera' });
+  });
+});
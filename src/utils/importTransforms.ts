@@ -0,0 +1,195 @@
+/**
+ * Clean-up steps an import profile applies to a source column before the value is
+ * validated, so spreadsheets from insurers and legacy systems can be imported as they are.
+ */
+
+export const DATE_FORMATS = [
+  'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MM-YYYY', 'MM-DD-YYYY', 'DD.MM.YYYY',
+  'YYYY/MM/DD', 'DD/MM/YY', 'MM/DD/YY', 'DD-MMM-YYYY', 'DD MMM YYYY', 'MMM DD, YYYY'
+] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+export type ImportTransform =
+  // Remove spaces around the value and collapse runs of spaces inside it
+  | { type: 'trim' }
+  | { type: 'upper' }
+  | { type: 'lower' }
+  // Read a date written in format; the result is YYYY-MM-DD
+  | { type: 'date'; format: DateFormat }
+  // Read an amount such as "Rs. 1,234.50" or "1.234,50", leaving out the currency and thousands separators
+  | { type: 'number'; decimal: '.' | ',' }
+  // Replace whole values, ignoring case; values not listed are kept, or blanked with unmatched: 'blank'
+  | { type: 'lookup'; values: Record<string, string>; unmatched: 'keep' | 'blank' };
+
+export const TRANSFORM_TYPES = ['trim', 'upper', 'lower', 'date', 'number', 'lookup'] as const;
+
+const MAX_LOOKUP_VALUES = 500;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Read a transform from a profile. Transforms without options can be given by name,
+ * e.g. "trim" for { "type": "trim" }.
+ */
+export const parseTransform = (raw: unknown): { transform: ImportTransform } | { error: string } => {
+  const spec: any = typeof raw === 'string' ? { type: raw } : raw;
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    return { error: 'must be a transform name or an object with a type' };
+  }
+
+  switch (spec.type) {
+    case 'trim':
+    case 'upper':
+    case 'lower':
+      return { transform: { type: spec.type } };
+
+    case 'date':
+      if (!DATE_FORMATS.includes(spec.format)) {
+        return { error: `format must be one of: ${DATE_FORMATS.join(', ')}` };
+      }
+      return { transform: { type: 'date', format: spec.format } };
+
+    case 'number': {
+      const decimal = spec.decimal ?? '.';
+      if (decimal !== '.' && decimal !== ',') {
+        return { error: 'decimal must be "." or ","' };
+      }
+      return { transform: { type: 'number', decimal } };
+    }
+
+    case 'lookup': {
+      const values = spec.values;
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        return { error: 'values must map source values to field values' };
+      }
+      const entries = Object.entries(values);
+      if (entries.length === 0 || entries.length > MAX_LOOKUP_VALUES) {
+        return { error: `values must have 1 to ${MAX_LOOKUP_VALUES} entries` };
+      }
+      if (entries.some(([, value]) => typeof value !== 'string')) {
+        return { error: 'values must map to text' };
+      }
+      const unmatched = spec.unmatched ?? 'keep';
+      if (unmatched !== 'keep' && unmatched !== 'blank') {
+        return { error: 'unmatched must be "keep" or "blank"' };
+      }
+      return { transform: { type: 'lookup', values: values as Record<string, string>, unmatched } };
+    }
+
+    default:
+      return { error: `type must be one of: ${TRANSFORM_TYPES.join(', ')}` };
+  }
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Two-digit years are taken as 1970 to 2069
+const fullYear = (year: number): number => (year < 70 ? 2000 : 1900) + year;
+
+const readDate = (value: string, format: DateFormat): string | null => {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  // Cells formatted as dates in a spreadsheet already arrive as YYYY-MM-DD
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    [year, month, day] = iso.slice(1).map(Number);
+  } else {
+    const tokens: string[] = format.match(/YYYY|YY|MMM|MM|DD/g) || [];
+    const parts = value.match(/[A-Za-z]+|\d+/g) || [];
+    const part = (token: string) => parts[tokens.indexOf(token)];
+    if (parts.length !== tokens.length || tokens.some(token => token !== 'MMM' && !/^\d+$/.test(part(token)))) {
+      return null;
+    }
+
+    day = Number(part('DD'));
+    month = tokens.includes('MMM') ? MONTHS.indexOf(part('MMM').substring(0, 3).toUpperCase()) + 1 : Number(part('MM'));
+    year = tokens.includes('YYYY') ? Number(part('YYYY')) : fullYear(Number(part('YY')));
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// A currency code or symbol written before or after an amount, such as "Rs.", "LKR" or "US$"
+const CURRENCY = '(?:[A-Z]{3}|[Rr]s\\.?|[A-Z]{0,2}[$€£¥₹])';
+const LEADING_CURRENCY = new RegExp(`^${CURRENCY}\\s*`);
+const TRAILING_CURRENCY = new RegExp(`\\s*${CURRENCY}$`);
+
+const readNumber = (value: string, decimal: '.' | ','): string | null => {
+  let text = value.trim();
+  let negative = false;
+
+  // Accounting style writes negative amounts in brackets or with a trailing minus, outside
+  // or inside the currency, e.g. "(Rs. 1,234)" or "Rs. -1,234". A second sign is an error.
+  const takeSign = (): boolean => {
+    const signed = text.match(/^\((.*)\)$|^-(.*)$|^(.*)-$/);
+    if (!signed) {
+      return true;
+    }
+    if (negative) {
+      return false;
+    }
+    negative = true;
+    text = (signed[1] ?? signed[2] ?? signed[3]).trim();
+    return true;
+  };
+
+  if (!takeSign()) {
+    return null;
+  }
+  text = text.replace(LEADING_CURRENCY, '').replace(TRAILING_CURRENCY, '');
+  if (!takeSign() || !/^\d[\d.,\s']*$/.test(text)) {
+    return null;
+  }
+
+  const thousands = decimal === '.' ? ',' : '.';
+  const digits = text
+    .replace(/[\s']/g, '')
+    .split(thousands).join('')
+    .replace(decimal, '.');
+  if (!/^\d+(\.\d+)?$/.test(digits)) {
+    return null;
+  }
+  return negative ? `-${digits}` : digits;
+};
+
+/**
+ * Apply one transform. Blank values pass through untouched, so required fields are
+ * reported as missing rather than badly formatted.
+ */
+export const applyTransform = (transform: ImportTransform, value: string): { value: string } | { error: string } => {
+  if (value.trim() === '') {
+    return { value };
+  }
+
+  switch (transform.type) {
+    case 'trim':
+      return { value: value.trim().replace(/\s+/g, ' ') };
+    case 'upper':
+      return { value: value.toUpperCase() };
+    case 'lower':
+      return { value: value.toLowerCase() };
+    case 'date': {
+      const date = readDate(value.trim(), transform.format);
+      return date ? { value: date } : { error: `"${value}" is not a date in the format ${transform.format}` };
+    }
+    case 'number': {
+      const number = readNumber(value, transform.decimal);
+      return number !== null ? { value: number } : { error: `"${value}" is not a number` };
+    }
+    case 'lookup': {
+      const key = value.trim().toLowerCase();
+      const match = Object.entries(transform.values).find(([source]) => source.trim().toLowerCase() === key);
+      if (match) {
+        return { value: match[1] };
+      }
+      return { value: transform.unmatched === 'blank' ? '' : value };
+    }
+  }
+};
@@ -0,0 +1,70 @@
+/**
+ * Strip the IPv4-mapped IPv6 prefix Express reports for IPv4 clients (::ffff:10.0.0.1)
+ */
+export const normalizeIp = (ip: string): string => {
+  const trimmed = ip.trim();
+  return trimmed.toLowerCase().startsWith('::ffff:') && trimmed.includes('.')
+    ? trimmed.substring(7)
+    : trimmed.toLowerCase();
+};
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+      return null;
+    }
+    value = value * 256 + Number(part);
+  }
+  return value;
+};
+
+/**
+ * Check whether an allowlist entry is an exact IP address or an IPv4 CIDR range
+ */
+export const isValidIpRule = (rule: string): boolean => {
+  const [address, bits, ...rest] = rule.trim().split('/');
+  if (rest.length > 0) {
+    return false;
+  }
+
+  if (bits === undefined) {
+    return ipv4ToNumber(address) !== null || (address.includes(':') && /^[0-9a-f:]+$/i.test(address));
+  }
+
+  return ipv4ToNumber(address) !== null && /^\d{1,2}$/.test(bits) && Number(bits) <= 32;
+};
+
+/**
+ * Check an IP address against an allowlist of exact addresses and IPv4 CIDR ranges
+ */
+export const isIpAllowed = (ip: string | undefined, allowlist: string[]): boolean => {
+  if (!ip) {
+    return false;
+  }
+
+  const clientIp = normalizeIp(ip);
+  const clientValue = ipv4ToNumber(clientIp);
+
+  return allowlist.some(rule => {
+    const [address, bits] = rule.trim().split('/');
+
+    if (bits === undefined) {
+      return normalizeIp(address) === clientIp;
+    }
+
+    const rangeValue = ipv4ToNumber(address);
+    if (clientValue === null || rangeValue === null) {
+      return false;
+    }
+
+    // Compare the network part; Math.pow keeps this within safe integer arithmetic
+    const blockSize = Math.pow(2, 32 - Number(bits));
+    return Math.floor(clientValue / blockSize) === Math.floor(rangeValue / blockSize);
+  });
+};
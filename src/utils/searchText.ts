@@ -0,0 +1,114 @@
+/**
+ * Normalization for quick search and duplicate detection. Identifiers are typed in many
+ * ways ("WP CAB-1234", "wp cab 1234", "077 123 4567", "+94771234567"), so values and
+ * queries are reduced to upper-case letters and digits before they are compared. Each
+ * kept character remembers where it came from so matches can be highlighted in the
+ * original value.
+ */
+
+export interface CompactText {
+  text: string;
+  // Index in the original value of each character of text
+  positions: number[];
+}
+
+export type SearchTextKind = 'text' | 'phone';
+
+export const compactText = (value: string): CompactText => {
+  let text = '';
+  const positions: number[] = [];
+
+  Array.from(value).reduce((index, char) => {
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      const upper = char.toUpperCase();
+      text += upper;
+      upper.split('').forEach(() => positions.push(index));
+    }
+    return index + char.length;
+  }, 0);
+
+  return { text, positions };
+};
+
+/**
+ * Phone numbers keep their digits without the country code or trunk prefix, so
+ * 0771234567, 077 123 4567 and +94 77 123 4567 all become 771234567.
+ */
+export const compactPhone = (value: string): CompactText => {
+  const { text, positions } = compactText(value);
+  const digits = { text: '', positions: [] as number[] };
+  Array.from(text).forEach((char, index) => {
+    if (char >= '0' && char <= '9') {
+      digits.text += char;
+      digits.positions.push(positions[index]);
+    }
+  });
+
+  let start = 0;
+  if (digits.text.startsWith('0094')) {
+    start = 4;
+  } else if (digits.text.startsWith('94') && digits.text.length === 11) {
+    start = 2;
+  } else if (digits.text.startsWith('0')) {
+    start = 1;
+  }
+
+  return { text: digits.text.slice(start), positions: digits.positions.slice(start) };
+};
+
+export const compactAs = (kind: SearchTextKind, value: string): CompactText => {
+  return kind === 'phone' ? compactPhone(value) : compactText(value);
+};
+
+/**
+ * The forms a quick-search query is looked up by. A query that looks like a phone
+ * number is also tried in the phone form.
+ */
+export const searchKeys = (query: string): string[] => {
+  const keys = [compactText(query).text];
+  if (/^[\d\s+()\-./]+$/.test(query)) {
+    keys.push(compactPhone(query).text);
+  }
+  return Array.from(new Set(keys)).filter(key => key !== '');
+};
+
+// Start and end (exclusive) in the original value of the first match of key, if any
+export const highlightMatch = (kind: SearchTextKind, value: string, key: string): { start: number; end: number } | null => {
+  const { text, positions } = compactAs(kind, value);
+  const index = text.indexOf(key);
+  if (index === -1 || key === '') {
+    return null;
+  }
+  return { start: positions[index], end: positions[index + key.length - 1] + 1 };
+};
+
+/**
+ * How alike two names are, from 0 to 1, by the letter pairs they share (Dice coefficient)
+ * after normalization. Tolerates typos, missing spaces and reordered words.
+ */
+export const nameSimilarity = (first: string, second: string): number => {
+  const bigrams = (value: string): Map<string, number> => {
+    const words = value.split(/\s+/).map(word => compactText(word).text).filter(word => word !== '');
+    const counts = new Map<string, number>();
+    words.forEach(word => {
+      for (let i = 0; i < word.length - 1; i++) {
+        const pair = word.substring(i, i + 2);
+        counts.set(pair, (counts.get(pair) || 0) + 1);
+      }
+    });
+    return counts;
+  };
+
+  const a = bigrams(first);
+  const b = bigrams(second);
+  const total = [...a.values(), ...b.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return compactText(first).text === compactText(second).text ? 1 : 0;
+  }
+
+  let shared = 0;
+  a.forEach((count, pair) => {
+    shared += Math.min(count, b.get(pair) || 0);
+  });
+  return (2 * shared) / total;
+};
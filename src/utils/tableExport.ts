@@ -0,0 +1,67 @@
+import { Writable } from 'stream';
+import { XlsxWriter } from './xlsx';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type CellValue = string | number | null | undefined;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * Writes rows of a table to a stream as they come. writeRow returns false when the
+ * output is backed up, and callers wait for drain() before writing more.
+ */
+export interface TableWriter {
+  start(): void;
+  writeRow(values: CellValue[], options?: { bold?: boolean }): boolean;
+  drain(): Promise<void>;
+  // Finish the file without ending the output stream
+  end(): Promise<void>;
+}
+
+/**
+ * Spreadsheet programs run text starting with these as a formula, so such values get a
+ * leading apostrophe. Numbers and phone numbers starting with + or - are left alone.
+ */
+const looksLikeFormula = (value: string): boolean => {
+  return /^[=@\t\r]/.test(value) || (/^[+-]/.test(value) && !/^[+-][\d\s().-]*$/.test(value));
+};
+
+const csvCell = (value: CellValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && looksLikeFormula(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class CsvWriter implements TableWriter {
+  constructor(private readonly out: Writable) {}
+
+  // The byte order mark makes Excel read the file as UTF-8
+  start(): void {
+    this.out.write('\ufeff');
+  }
+
+  writeRow(values: CellValue[]): boolean {
+    return this.out.write(`${values.map(csvCell).join(',')}\r\n`);
+  }
+
+  drain(): Promise<void> {
+    return new Promise(resolve => this.out.once('drain', () => resolve()));
+  }
+
+  async end(): Promise<void> {}
+}
+
+export const createTableWriter = (format: ExportFormat, out: Writable, sheetName?: string): TableWriter => {
+  return format === 'xlsx' ? new XlsxWriter(out, sheetName) : new CsvWriter(out);
+};
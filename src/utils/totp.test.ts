@@ -0,0 +1,82 @@
+import {
+  base32Decode, base32Encode, buildOtpauthUri, currentTotpStep, generateTotpCode, generateTotpSecret, verifyTotpCode
+} from './totp';
+
+// The SHA-1 seed of RFC 6238 appendix B, base32 encoded
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+// RFC 6238 appendix B (SHA-1); the 6 digit code is the last 6 digits of the 8 digit one
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130']
+];
+
+describe('base32', () => {
+  it('encodes the RFC 6238 seed', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('round-trips, ignoring case, padding and spaces', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    const encoded = base32Encode(bytes);
+    expect(base32Decode(encoded)).toEqual(bytes);
+    expect(base32Decode(`${encoded.toLowerCase().replace(/(.{4})/g, '$1 ')}===`)).toEqual(bytes);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('generateTotpCode', () => {
+  it.each(RFC_VECTORS)('matches the RFC 6238 vector at %p seconds', (seconds, code) => {
+    expect(generateTotpCode(RFC_SECRET, currentTotpStep(seconds * 1000))).toBe(code.slice(-6));
+  });
+
+  it('makes 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe('verifyTotpCode', () => {
+  const now = 1111111111 * 1000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the step of a current code', () => {
+    expect(verifyTotpCode(RFC_SECRET, '050471')).toBe(currentTotpStep(now));
+    expect(verifyTotpCode(RFC_SECRET, '050 471')).toBe(currentTotpStep(now));
+  });
+
+  it('allows one step of clock drift either side', () => {
+    const step = currentTotpStep(now);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1))).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1))).toBe(step + 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 2))).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 2), 2)).toBe(step + 2);
+  });
+
+  it('rejects wrong and malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, '050472')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '14050471')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('names the issuer and account', () => {
+    expect(buildOtpauthUri('JBSWY3DPEHPK3PXP', 'jane@example.com', 'Ceilao IB')).toBe(
+      'otpauth://totp/Ceilao%20IB%3Ajane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Ceilao+IB&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
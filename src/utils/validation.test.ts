@@ -0,0 +1,99 @@
+import { FieldSpec, checkValue, validate } from './validation';
+
+const date: FieldSpec = { type: 'date' };
+const money: FieldSpec = { type: 'money' };
+const integer: FieldSpec = { type: 'integer', min: 0 };
+
+describe('checkValue', () => {
+  describe('dates', () => {
+    it('accepts YYYY-MM-DD', () => {
+      expect(checkValue(date, '2024-12-31', 'create')).toEqual({ value: '2024-12-31' });
+      expect(checkValue(date, ' 2024-02-29 ', 'update')).toEqual({ value: '2024-02-29' });
+    });
+
+    it('formats Date instances in UTC', () => {
+      expect(checkValue(date, new Date(Date.UTC(2024, 11, 31)), 'create')).toEqual({ value: '2024-12-31' });
+    });
+
+    it.each(['5', '2024-02-30', '2023-02-29', '2024-13-01', '12/31/2024', 'Dec 31 2024', '2024-12-31T00:00:00', '20241231', ''])(
+      'rejects %p',
+      value => {
+        expect(checkValue(date, value, 'create')).toEqual({ error: 'must be a date (YYYY-MM-DD)' });
+      }
+    );
+
+    it('rejects invalid Date instances and other types', () => {
+      expect(checkValue(date, new Date('nonsense'), 'create')).toHaveProperty('error');
+      expect(checkValue(date, 20241231, 'create')).toHaveProperty('error');
+      expect(checkValue(date, true, 'create')).toHaveProperty('error');
+    });
+
+    it('does not move dates in time zones ahead of UTC', () => {
+      const timeZone = process.env.TZ;
+      process.env.TZ = 'Asia/Colombo';
+      try {
+        expect(checkValue(date, '2024-12-31', 'create')).toEqual({ value: '2024-12-31' });
+        expect(checkValue(date, '2024-01-01', 'search')).toEqual({ value: '2024-01-01' });
+      } finally {
+        process.env.TZ = timeZone;
+      }
+    });
+  });
+
+  describe('money', () => {
+    it('accepts decimals with thousands separators', () => {
+      expect(checkValue(money, '1,234.50', 'create')).toEqual({ value: 1234.5 });
+      expect(checkValue(money, ' 18500 ', 'create')).toEqual({ value: 18500 });
+      expect(checkValue(money, 250.75, 'create')).toEqual({ value: 250.75 });
+    });
+
+    it.each(['0x10', '1e3', 'Infinity', '12abc', '1.2.3', '.', ''])('rejects %p', value => {
+      expect(checkValue(money, value, 'create')).toEqual({ error: 'must be a number' });
+    });
+
+    it('rejects negative and oversized amounts', () => {
+      expect(checkValue(money, '-5', 'create')).toEqual({ error: 'must not be negative' });
+      expect(checkValue(money, '99999999999999', 'create')).toEqual({ error: 'is too large' });
+    });
+
+    it('rejects other types', () => {
+      expect(checkValue(money, true, 'create')).toHaveProperty('error');
+      expect(checkValue(money, NaN, 'create')).toHaveProperty('error');
+    });
+  });
+
+  describe('integers', () => {
+    it('accepts whole numbers', () => {
+      expect(checkValue(integer, '42', 'create')).toEqual({ value: 42 });
+      expect(checkValue(integer, 7, 'create')).toEqual({ value: 7 });
+    });
+
+    it.each(['0x10', '1e3', '4.5', 'ten'])('rejects %p', value => {
+      expect(checkValue(integer, value, 'create')).toEqual({ error: 'must be a whole number' });
+    });
+
+    it('applies the minimum', () => {
+      expect(checkValue(integer, '-1', 'create')).toEqual({ error: 'must be at least 0' });
+    });
+  });
+});
+
+describe('validate', () => {
+  const schema: Record<string, FieldSpec> = {
+    name: { type: 'string', maxLength: 10, required: true },
+    starts_on: { type: 'date' }
+  };
+
+  it('reports every invalid field', () => {
+    const { errors } = validate(schema, { starts_on: '2024-02-30', extra: 'x' }, { mode: 'create' });
+    expect(errors).toEqual([
+      { field: 'starts_on', message: 'must be a date (YYYY-MM-DD)' },
+      { field: 'extra', message: 'is not a known field' },
+      { field: 'name', message: 'is required' }
+    ]);
+  });
+
+  it('clears blank fields on update', () => {
+    expect(validate(schema, { starts_on: '' }, { mode: 'update' })).toEqual({ data: { starts_on: null }, errors: [] });
+  });
+});
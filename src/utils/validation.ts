@@ -0,0 +1,198 @@
+/**
+ * Declarative validation for records written to SQL Server. A schema maps each
+ * column to its type and limits; validate() checks a request body or CSV row
+ * against it and returns the cleaned values together with every problem found,
+ * one entry per field, instead of stopping at the first.
+ */
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface BaseSpec {
+  // Must be present on create and cannot be cleared on update
+  required?: boolean;
+  // Only accepted when the record is created, ignored afterwards
+  createOnly?: boolean;
+}
+
+export type FieldSpec = BaseSpec & (
+  | { type: 'string'; maxLength: number; format?: 'email' | 'phone'; enum?: readonly string[] }
+  // DECIMAL(15, 2) amounts, never negative
+  | { type: 'money' }
+  // Stored as YYYY-MM-DD
+  | { type: 'date' }
+  | { type: 'integer'; min?: number }
+);
+
+export type Schema = Record<string, FieldSpec>;
+
+/**
+ * create - required fields must be present
+ * update - only the fields sent are checked
+ * search - values are filters, so list and format rules do not apply to partial text
+ */
+export type ValidationMode = 'create' | 'update' | 'search';
+
+export interface ValidateOptions {
+  mode: ValidationMode;
+  // What to do with keys that are not in the schema
+  unknownFields?: 'reject' | 'ignore';
+  // Keys that are dropped without complaint, e.g. read-only columns echoed back by the UI
+  ignoredFields?: readonly string[];
+}
+
+const MAX_MONEY = 9999999999999.99;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[0-9+()\-\s./,]+$/;
+// Plain decimals only; Number() would also read hex and exponents such as "0x10" and "1e3"
+const MONEY_PATTERN = /^-?\d+(\.\d+)?$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+// A YYYY-MM-DD string naming a real day, or a Date taken in UTC. Anything else is null.
+const readDate = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+  }
+
+  const match = typeof value === 'string' ? value.trim().match(DATE_PATTERN) : null;
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+};
+
+export const isBlank = (value: unknown): boolean => {
+  return value === null || (typeof value === 'string' && value.trim() === '');
+};
+
+// Check one non-blank value against its spec. Returns the stored value or an error message.
+// Also used for the values of structured search filters.
+export const checkValue = (spec: FieldSpec, value: unknown, mode: ValidationMode): { value: unknown } | { error: string } => {
+  switch (spec.type) {
+    case 'string': {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return { error: 'must be text' };
+      }
+      const text = String(value).trim();
+      if (text.length > spec.maxLength) {
+        return { error: `must be at most ${spec.maxLength} characters` };
+      }
+      if (mode === 'search') {
+        return { value: text };
+      }
+      if (spec.enum) {
+        const match = spec.enum.find(option => option.toLowerCase() === text.toLowerCase());
+        return match ? { value: match } : { error: `must be one of: ${spec.enum.join(', ')}` };
+      }
+      if (spec.format === 'email' && !EMAIL_PATTERN.test(text)) {
+        return { error: 'must be a valid email address' };
+      }
+      if (spec.format === 'phone' && !PHONE_PATTERN.test(text)) {
+        return { error: 'must be a phone number' };
+      }
+      return { value: text };
+    }
+
+    case 'money': {
+      const text = typeof value === 'string' ? value.replace(/,/g, '').trim() : null;
+      const amount = typeof value === 'number' ? value : text !== null && MONEY_PATTERN.test(text) ? Number(text) : NaN;
+      if (!Number.isFinite(amount)) {
+        return { error: 'must be a number' };
+      }
+      if (amount < 0) {
+        return { error: 'must not be negative' };
+      }
+      if (amount > MAX_MONEY) {
+        return { error: 'is too large' };
+      }
+      return { value: amount };
+    }
+
+    case 'date': {
+      const date = readDate(value);
+      return date === null ? { error: 'must be a date (YYYY-MM-DD)' } : { value: date };
+    }
+
+    case 'integer': {
+      const text = typeof value === 'string' ? value.trim() : null;
+      const number = typeof value === 'number' ? value : text !== null && INTEGER_PATTERN.test(text) ? Number(text) : NaN;
+      if (!Number.isInteger(number)) {
+        return { error: 'must be a whole number' };
+      }
+      if (spec.min !== undefined && number < spec.min) {
+        return { error: `must be at least ${spec.min}` };
+      }
+      return { value: number };
+    }
+  }
+};
+
+export const validate = (
+  schema: Schema,
+  input: Record<string, unknown>,
+  options: ValidateOptions
+): { data: Record<string, unknown>; errors: FieldError[] } => {
+  const { mode, unknownFields = 'reject', ignoredFields = [] } = options;
+  const data: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  Object.entries(input).forEach(([field, value]) => {
+    if (value === undefined || ignoredFields.includes(field)) {
+      return;
+    }
+
+    const spec = Object.prototype.hasOwnProperty.call(schema, field) ? schema[field] : undefined;
+    if (!spec) {
+      if (unknownFields === 'reject') {
+        errors.push({ field, message: 'is not a known field' });
+      }
+      return;
+    }
+
+    if (spec.createOnly && mode === 'update') {
+      return;
+    }
+
+    if (isBlank(value)) {
+      if (spec.required && mode !== 'search') {
+        errors.push({ field, message: 'is required' });
+      } else if (mode === 'update') {
+        // Clearing a field on update stores NULL; on create and search a blank is the same as absent
+        data[field] = null;
+      }
+      return;
+    }
+
+    const result = checkValue(spec, value, mode);
+    if ('error' in result) {
+      errors.push({ field, message: result.error });
+    } else {
+      data[field] = result.value;
+    }
+  });
+
+  if (mode === 'create') {
+    Object.entries(schema).forEach(([field, spec]) => {
+      if (spec.required && input[field] === undefined) {
+        errors.push({ field, message: 'is required' });
+      }
+    });
+  }
+
+  return { data, errors };
+};
+
+// Fields of a schema that must be present when a record is created
+export const requiredFields = (schema: Schema): string[] => {
+  return Object.keys(schema).filter(field => schema[field].required);
+};
@@ -0,0 +1,147 @@
+import { PassThrough } from 'stream';
+import { MAX_SHEET_ROWS, XlsxWriter, crc32, readXlsx } from './xlsx';
+import type { CellValue } from './tableExport';
+
+const writeWorkbook = async (rows: CellValue[][]): Promise<Buffer> => {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  const writer = new XlsxWriter(out, 'Clients');
+  writer.start();
+  rows.forEach((row, index) => writer.writeRow(row, { bold: index === 0 }));
+  await writer.end();
+  out.end();
+  return Buffer.concat(chunks);
+};
+
+// Zip the parts as they are, the way some tools save small workbooks
+const storedZip = (files: Record<string, string>): Buffer => {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([fileName, content]) => {
+    const name = Buffer.from(fileName, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt32LE(crc32(data), 16);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    directory.push(header, name);
+
+    offset += local.length + name.length + data.length;
+  });
+
+  const size = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(size, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...directory, end]);
+};
+
+describe('crc32', () => {
+  it('matches the zip checksum', () => {
+    expect(crc32(Buffer.from('123456789', 'ascii'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from('6789', 'ascii'), crc32(Buffer.from('12345', 'ascii')))).toBe(0xcbf43926);
+  });
+});
+
+describe('XlsxWriter and readXlsx', () => {
+  it('read back what was written', async () => {
+    const data = await writeWorkbook([
+      ['Client', 'Premium', 'Notes'],
+      ['Jane & Sons <Pvt>', 18500.5, 'said "yes"'],
+      ['Nimal Silva', 0, null],
+      [null, undefined, ''],
+      ['සිංහල', -42, 'line one\nline two']
+    ]);
+
+    expect(readXlsx(data)).toEqual({
+      rows: [
+        { row: 1, cells: ['Client', 'Premium', 'Notes'] },
+        { row: 2, cells: ['Jane & Sons <Pvt>', '18500.5', 'said "yes"'] },
+        { row: 3, cells: ['Nimal Silva', '0', ''] },
+        { row: 5, cells: ['සිංහල', '-42', 'line one\nline two'] }
+      ]
+    });
+  });
+
+  it('drops characters XML cannot hold', async () => {
+    const data = await writeWorkbook([['a\u0001b\u000bc']]);
+    expect(readXlsx(data)).toEqual({ rows: [{ row: 1, cells: ['abc'] }] });
+  });
+
+  it('reads rows written in many deflate chunks', async () => {
+    const rows = Array.from({ length: 2000 }, (_, index) => [`Client ${index}`, index]);
+    const read = readXlsx(await writeWorkbook(rows));
+    expect('rows' in read && read.rows).toHaveLength(2000);
+    expect('rows' in read && read.rows[1999]).toEqual({ row: 2000, cells: ['Client 1999', '1999'] });
+  });
+});
+
+describe('readXlsx', () => {
+  const workbook = (sheetData: string, extra: Record<string, string> = {}) => storedZip({
+    'xl/workbook.xml': '<workbook xmlns:r="r"><sheets><sheet name="Data" sheetId="1" r:id="rId7"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId7" Target="/xl/worksheets/data.xml"/></Relationships>',
+    'xl/styles.xml': '<styleSheet><numFmts count="2"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/>'
+      + '<numFmt numFmtId="165" formatCode="&quot;Rs.&quot; #,##0.00"/></numFmts>'
+      + '<cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs></styleSheet>',
+    'xl/worksheets/data.xml': `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+    ...extra
+  });
+
+  it('turns date styled numbers into dates', () => {
+    const data = workbook(
+      '<row r="2"><c r="A2" s="1"><v>45657</v></c><c r="B2" s="2"><v>45292.5</v></c><c r="C2" s="3"><v>45657</v></c>'
+      + '<c r="D2" t="d"><v>2024-12-31T00:00:00</v></c></row>'
+    );
+    expect(readXlsx(data)).toEqual({ rows: [{ row: 2, cells: ['2024-12-31', '2024-01-01 12:00:00', '45657', '2024-12-31'] }] });
+  });
+
+  it('reads shared strings, booleans and gaps between cells', () => {
+    const data = workbook(
+      '<row r="1"><c r="A1" t="s"><v>1</v></c><c r="C1" t="b"><v>1</v></c><c r="D1"><v>0.1000000000000000055</v></c></row>',
+      { 'xl/sharedStrings.xml': '<sst><si><t>skipped</t></si><si><r><t>Jane </t></r><r><t>Perera</t></r><rPh><t>x</t></rPh></si></sst>' }
+    );
+    expect(readXlsx(data)).toEqual({ rows: [{ row: 1, cells: ['Jane Perera', '', 'TRUE', '0.1'] }] });
+  });
+
+  it('rejects cells past the last column', () => {
+    expect(readXlsx(workbook('<row r="1"><c r="XFD1"><v>1</v></c></row>'))).toEqual({
+      rows: [{ row: 1, cells: [...new Array(16383).fill(''), '1'] }]
+    });
+    expect(readXlsx(workbook('<row r="1"><c r="AAAAAAA1"><v>1</v></c></row>'))).toEqual({ error: 'Cell AAAAAAA1 is outside the sheet' });
+    expect(readXlsx(workbook('<row r="1"><c r="XFE1"><v>1</v></c></row>'))).toEqual({ error: 'Cell XFE1 is outside the sheet' });
+  });
+
+  it('rejects sheets with too many rows', () => {
+    const rows = (count: number) => workbook('<row><c><v>1</v></c></row>'.repeat(count));
+    expect('rows' in readXlsx(rows(MAX_SHEET_ROWS))).toBe(true);
+    expect(readXlsx(rows(MAX_SHEET_ROWS + 1))).toEqual({ error: `The sheet has more than ${MAX_SHEET_ROWS} rows` });
+  });
+
+  it('rejects files that are not workbooks', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(readXlsx(Buffer.from('Client,Premium\nJane,100\n'))).toEqual({ error: 'The file is not a valid XLSX workbook' });
+    expect(readXlsx(storedZip({ 'readme.txt': 'hello' }))).toEqual({ error: 'The file is not an XLSX workbook' });
+    jest.restoreAllMocks();
+  });
+});
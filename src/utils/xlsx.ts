@@ -0,0 +1,469 @@
+import { Writable } from 'stream';
+import zlib from 'zlib';
+import type { CellValue, TableWriter } from './tableExport';
+
+/**
+ * Minimal XLSX support without a spreadsheet library. An XLSX file is a zip of XML parts.
+ * XlsxWriter streams a single worksheet, so exports never hold the whole spreadsheet in
+ * memory: the worksheet is deflated as rows arrive and its sizes and checksum follow it
+ * in a data descriptor, and strings are written inline, which saves keeping a shared
+ * string table. readXlsx() reads the cell text of the first worksheet of an upload.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Buffer, previous: number = 0): number => {
+  let crc = previous ^ -1;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+};
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Excel's limit on the text in one cell
+const MAX_CELL_LENGTH = 32767;
+
+const cellXml = (value: CellValue, style?: number): string => {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') {
+    return `<c${styleAttribute}/>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c${styleAttribute}><v>${value}</v></c>`;
+  }
+  const text = escapeXml(String(value).substring(0, MAX_CELL_LENGTH));
+  return `<c${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Style 1 is bold, for the header row
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+const workbookXml = (sheetName: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+// Keeps the header row in view while scrolling
+const SHEET_START = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>`;
+
+const SHEET_END = '</sheetData></worksheet>';
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// General purpose flags: sizes follow the data, names are UTF-8
+const ZIP_FLAGS = 0x0008 | 0x0800;
+const DEFLATE = 8;
+
+// MS-DOS time and date, the only timestamps plain zip headers hold
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export class XlsxWriter implements TableWriter {
+  private readonly entries: ZipEntry[] = [];
+  private readonly modified = dosDateTime(new Date());
+  private offset = 0;
+  private sheet: zlib.DeflateRaw | null = null;
+  private sheetEntry: ZipEntry | null = null;
+  private sheetFinished: Promise<void> | null = null;
+
+  constructor(private readonly out: Writable, private readonly sheetName: string = 'Sheet1') {}
+
+  // Write the fixed parts of the workbook and open the worksheet
+  start(): void {
+    this.addFile('[Content_Types].xml', CONTENT_TYPES);
+    this.addFile('_rels/.rels', ROOT_RELS);
+    this.addFile('xl/workbook.xml', workbookXml(this.sheetName.substring(0, 31)));
+    this.addFile('xl/_rels/workbook.xml.rels', WORKBOOK_RELS);
+    this.addFile('xl/styles.xml', STYLES);
+
+    const entry = this.openEntry('xl/worksheets/sheet1.xml');
+    const sheet = zlib.createDeflateRaw();
+    sheet.on('data', (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      if (!this.emit(chunk)) {
+        sheet.pause();
+        this.out.once('drain', () => sheet.resume());
+      }
+    });
+    this.sheetFinished = new Promise((resolve, reject) => {
+      sheet.on('end', resolve);
+      sheet.on('error', reject);
+    });
+
+    this.sheet = sheet;
+    this.sheetEntry = entry;
+    this.writeSheet(SHEET_START);
+  }
+
+  /**
+   * Append a row. Returns false when the output is backed up; wait for drain() before
+   * writing more.
+   */
+  writeRow(values: CellValue[], options: { bold?: boolean } = {}): boolean {
+    const style = options.bold ? 1 : undefined;
+    return this.writeSheet(`<row>${values.map(value => cellXml(value, style)).join('')}</row>`);
+  }
+
+  drain(): Promise<void> {
+    return new Promise(resolve => this.sheet!.once('drain', () => resolve()));
+  }
+
+  // Close the worksheet and write the zip directory. Does not end the output stream.
+  async end(): Promise<void> {
+    this.writeSheet(SHEET_END);
+    this.sheet!.end();
+    await this.sheetFinished;
+
+    this.closeEntry(this.sheetEntry!);
+    this.writeDirectory();
+  }
+
+  private writeSheet(xml: string): boolean {
+    const data = Buffer.from(xml, 'utf8');
+    const entry = this.sheetEntry!;
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    return this.sheet!.write(data);
+  }
+
+  private emit(data: Buffer): boolean {
+    this.offset += data.length;
+    return this.out.write(data);
+  }
+
+  private openEntry(name: string): ZipEntry {
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+    this.entries.push(entry);
+
+    // Checksum and sizes are left at zero here and written in the data descriptor
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    this.emit(Buffer.concat([header, entry.name]));
+    return entry;
+  }
+
+  // Small parts are compressed in one go
+  private addFile(name: string, content: string): void {
+    const entry = this.openEntry(name);
+    const data = Buffer.from(content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    entry.crc = crc32(data);
+    entry.size = data.length;
+    entry.compressedSize = compressed.length;
+    this.emit(compressed);
+    this.closeEntry(entry);
+  }
+
+  // Data descriptor with the checksum and sizes of the entry just written
+  private closeEntry(entry: ZipEntry): void {
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    this.emit(descriptor);
+  }
+
+  private writeDirectory(): void {
+    const start = this.offset;
+    this.entries.forEach(entry => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      this.emit(Buffer.concat([header, entry.name]));
+    });
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    this.emit(end);
+  }
+}
+
+// Uncompressed size any one part of an uploaded workbook may have, against zip bombs
+const MAX_PART_SIZE = 200 * 1024 * 1024;
+
+// Read the central directory of a zip. Parts are inflated when asked for.
+const readZip = (data: Buffer): Map<string, () => Buffer> => {
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('no zip directory');
+  }
+
+  const parts = new Map<string, () => Buffer>();
+  let offset = data.readUInt32LE(end + 16);
+  for (let i = data.readUInt16LE(end + 10); i > 0; i--) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('bad zip directory entry');
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(start, start + compressedSize);
+    parts.set(name, () => {
+      if (method === 0) {
+        return raw;
+      }
+      if (method !== DEFLATE) {
+        throw new Error(`unsupported compression in ${name}`);
+      }
+      return zlib.inflateRawSync(raw, { maxOutputLength: MAX_PART_SIZE });
+    });
+
+    offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+  }
+  return parts;
+};
+
+const unescapeXml = (value: string): string => {
+  return value
+    .replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+      switch (entity) {
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'quot': return '"';
+        case 'apos': return "'";
+        case 'amp': return '&';
+        default: return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10));
+      }
+    })
+    // Characters XML cannot hold, such as carriage returns, are written as _xHHHH_
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+};
+
+const attributes = (tag: string): Record<string, string> => {
+  const found: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    found[match[1]] = unescapeXml(match[2]);
+  }
+  return found;
+};
+
+// Text of a string item, joining rich text runs and leaving out phonetic hints
+const itemText = (xml: string): string => {
+  const withoutHints = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutHints.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => unescapeXml(match[1])).join('');
+};
+
+// Built-in number formats that show dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// For each cell style, whether it shows numbers as dates
+const dateStyles = (stylesXml: string): boolean[] => {
+  const customDates = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const { numFmtId, formatCode = '' } = attributes(match[1]);
+    // Quoted text, [colours] and escaped characters are not part of the pattern
+    const pattern = formatCode.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[dmy]/i.test(pattern)) {
+      customDates.add(Number(numFmtId));
+    }
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) {
+    return [];
+  }
+  return Array.from(cellXfs[1].matchAll(/<xf\b([^>]*)/g), match => {
+    const id = Number(attributes(match[1]).numFmtId || 0);
+    return DATE_FORMAT_IDS.has(id) || customDates.has(id);
+  });
+};
+
+// Spreadsheet serial date to YYYY-MM-DD, with the time when it has one
+const serialDate = (serial: number): string => {
+  const iso = new Date(Math.round((serial - 25569) * 86400000)).toISOString();
+  return Number.isInteger(serial) ? iso.substring(0, 10) : `${iso.substring(0, 10)} ${iso.substring(11, 19)}`;
+};
+
+const numberText = (value: string): string => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    return value;
+  }
+  // Spreadsheets keep 15 significant digits; more only shows binary rounding
+  return Number.isInteger(number) ? String(number) : String(Number(number.toPrecision(15)));
+};
+
+// Column XFD, the last one a worksheet can have
+const MAX_COLUMN_INDEX = 16383;
+
+// Rows read from an uploaded sheet, header included
+export const MAX_SHEET_ROWS = 100000;
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+export interface XlsxRow {
+  // Row number in the sheet, starting at 1
+  row: number;
+  cells: string[];
+}
+
+/**
+ * The rows of the first worksheet as cell text, leaving out empty rows. Numbers are
+ * written out plainly and cells formatted as dates become YYYY-MM-DD, so values read
+ * the same as they would from a CSV export of the sheet. Sheets of more than
+ * MAX_SHEET_ROWS rows and cells past column XFD are rejected.
+ */
+export const readXlsx = (data: Buffer): { rows: XlsxRow[] } | { error: string } => {
+  try {
+    const parts = readZip(data);
+    const part = (name: string): string | null => {
+      const read = parts.get(name);
+      return read ? read().toString('utf8') : null;
+    };
+
+    const workbook = part('xl/workbook.xml');
+    const firstSheet = workbook?.match(/<sheet\b([^>]*)\/?>/);
+    if (!workbook || !firstSheet) {
+      return { error: 'The file is not an XLSX workbook' };
+    }
+
+    const relationId = attributes(firstSheet[1])['r:id'];
+    const relations = part('xl/_rels/workbook.xml.rels') || '';
+    const relation = Array.from(relations.matchAll(/<Relationship\b([^>]*)\/?>/g), match => attributes(match[1]))
+      .find(candidate => candidate.Id === relationId);
+    if (!relation) {
+      return { error: 'The workbook has no worksheet' };
+    }
+    const sheetPath = relation.Target.startsWith('/') ? relation.Target.substring(1) : `xl/${relation.Target}`;
+    const sheet = part(sheetPath);
+    if (sheet === null) {
+      return { error: 'The workbook has no worksheet' };
+    }
+
+    const sharedStrings = Array.from((part('xl/sharedStrings.xml') || '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), match => itemText(match[1]));
+    const isDateStyle = dateStyles(part('xl/styles.xml') || '');
+
+    const rows: XlsxRow[] = [];
+    let rowNumber = 0;
+    let rowsRead = 0;
+    for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      if (++rowsRead > MAX_SHEET_ROWS) {
+        return { error: `The sheet has more than ${MAX_SHEET_ROWS} rows` };
+      }
+      rowNumber = Number(attributes(rowMatch[1]).r) || rowNumber + 1;
+      const cells: string[] = [];
+      let column = 0;
+
+      for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const cell = attributes(cellMatch[1]);
+        const content = cellMatch[2] || '';
+        column = cell.r ? columnIndex(cell.r) : column;
+        // A reference past the last column would make a huge sparse row
+        if (column < 0 || column > MAX_COLUMN_INDEX) {
+          return { error: `Cell ${cell.r || `${column + 1} of row ${rowNumber}`} is outside the sheet` };
+        }
+        const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+        let text = '';
+        if (cell.t === 'inlineStr') {
+          text = itemText(content);
+        } else if (value !== undefined) {
+          const raw = unescapeXml(value);
+          switch (cell.t) {
+            case 's':
+              text = sharedStrings[Number(raw)] ?? '';
+              break;
+            case 'b':
+              text = raw === '1' ? 'TRUE' : 'FALSE';
+              break;
+            case 'str':
+            case 'e':
+              text = raw;
+              break;
+            case 'd':
+              text = raw.substring(0, 10);
+              break;
+            default:
+              text = isDateStyle[Number(cell.s || 0)] && Number.isFinite(Number(raw)) ? serialDate(Number(raw)) : numberText(raw);
+          }
+        }
+
+        cells[column] = text;
+        column++;
+      }
+
+      const filled = Array.from(cells, cell => cell ?? '');
+      if (filled.some(cell => cell.trim() !== '')) {
+        rows.push({ row: rowNumber, cells: filled });
+      }
+    }
+
+    return { rows };
+  } catch (error) {
+    console.error('Error reading XLSX file:', error);
+    return { error: 'The file is not a valid XLSX workbook' };
+  }
+};